@@ -1,43 +1,206 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { ControlPanel } from './components/ControlPanel';
 import { GlobeVisualization } from './components/GlobeVisualization';
 import { MercatorVisualization } from './components/MercatorVisualization';
-import { getCoordinatesForLocation } from './services/geminiService';
-import type { Coordinates, LocationPoint, PathType } from './types';
-import { calculateOrthodromicDistance, calculateLoxodromicDistance } from './utils/geo';
+import { PlaybackControls } from './components/PlaybackControls';
+import { geocodeLocation } from './services/geocoder';
+import type { Coordinates, CrossingPath, DisplayPreferences, EarthModel, GlobeView, LocationPoint, MapProjectionId, MapView, PathType, PlacementTarget, RangeRings, VehicleKind, ViewMode } from './types';
+import { formatDecimalDegrees, parseCoordinateInput } from './utils/coordinateParser';
+import type { ParsedCoordinates } from './utils/coordinateParser';
+import { calculateRouteCrossTrack, calculateRouteLegs, DEFAULT_LIMITING_LATITUDE } from './utils/geo';
+import { DEFAULT_EARTH_MODEL } from './utils/geodesic';
+import { DEFAULT_MAP_PROJECTION, MAP_PROJECTIONS } from './utils/mapProjections';
+import { comparePaths } from './utils/pathComparison';
+import { findRouteCrossings } from './utils/pathIntersection';
+import { createRouteWalker } from './utils/pathGeometry';
+import type { PathHit, RouteProbe } from './utils/pathGeometry';
+import { calculateRangeOverlay } from './utils/rangeRings';
+import { parseRouteFile } from './utils/routeImport';
+import { decodePermalink, encodePermalink, permalinkRouteKey } from './utils/permalink';
+import type { PermalinkState } from './utils/permalink';
+import { loadPreferences, savePreferences } from './utils/preferences';
 
-type ViewMode = 'globe' | 'map';
+const DEFAULT_STATE: PermalinkState = {
+  points: null,
+  legPathTypes: [],
+  pathType: 'orthodromic',
+  compare: false,
+  viewMode: 'globe',
+  mapProjection: DEFAULT_MAP_PROJECTION,
+  earthModel: DEFAULT_EARTH_MODEL,
+  limitingLatitude: DEFAULT_LIMITING_LATITUDE,
+};
+
+/** How long the URL waits for panning, zooming or dragging to settle before it is rewritten, in ms. */
+const URL_SYNC_DELAY = 400;
+
+/** A waypoint placed or moved on the map, named by its coordinates so the input field shows them. */
+const pointFromMap = (coords: Coordinates): LocationPoint => ({
+  name: formatDecimalDegrees(coords),
+  coords,
+  source: 'coordinates',
+  confidence: 1,
+  notation: 'decimal',
+});
 
 const App: React.FC = () => {
-  const [points, setPoints] = useState<[LocationPoint, LocationPoint] | null>(null);
+  const [initialState] = useState<PermalinkState>(() => decodePermalink(window.location.hash, DEFAULT_STATE) ?? DEFAULT_STATE);
+  const [points, setPoints] = useState<LocationPoint[] | null>(initialState.points);
+  const [legPathTypes, setLegPathTypes] = useState<PathType[]>(initialState.legPathTypes);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [viewMode, setViewMode] = useState<ViewMode>('globe');
-  const [pathType, setPathType] = useState<PathType>('orthodromic');
+  const [viewMode, setViewMode] = useState<ViewMode>(initialState.viewMode);
+  // The point hovered on the route, as a distance from the start, is probed in every view shown;
+  // side by side, panning one view also pans the other.
+  const [hoverDistance, setHoverDistance] = useState<number | null>(null);
+  const [syncedCentre, setSyncedCentre] = useState<{ coords: Coordinates; source: 'globe' | 'map' } | null>(null);
+  const [mapProjection, setMapProjection] = useState<MapProjectionId>(initialState.mapProjection);
+  const [pathType, setPathType] = useState<PathType>(initialState.pathType);
+  const [compare, setCompare] = useState<boolean>(initialState.compare);
+  const [earthModel, setEarthModel] = useState<EarthModel>(initialState.earthModel);
+  const [limitingLatitude, setLimitingLatitude] = useState<number>(initialState.limitingLatitude);
+  // Distance travelled by the animated vehicle, in km; it only appears once it has set off.
+  const [playbackDistance, setPlaybackDistance] = useState<number>(0);
+  const [vehicle, setVehicle] = useState<VehicleKind>('plane');
+  const [followVehicle, setFollowVehicle] = useState<boolean>(false);
+  // A position checked against the route, typed in or picked by clicking a view.
+  const [checkPosition, setCheckPosition] = useState<Coordinates | null>(null);
+  const [pickingPosition, setPickingPosition] = useState<boolean>(false);
+  const [rangeRings, setRangeRings] = useState<RangeRings | null>(null);
+  const [crossingPath, setCrossingPath] = useState<CrossingPath | null>(null);
+  // Units and notations are a preference of the user, not part of the route, so they stay out of the link.
+  const [preferences, setPreferences] = useState<DisplayPreferences>(loadPreferences);
+  const [isDraggingFile, setIsDraggingFile] = useState<boolean>(false);
+  // Views restored from a link; each applies only until that view is left or the route changes.
+  const [restoredViews, setRestoredViews] = useState<{ globe?: GlobeView; map?: MapView }>({ globe: initialState.globeView, map: initialState.mapView });
+
+  // Pan and zoom change on every frame, so they are tracked outside React state.
+  const globeViewRef = useRef<GlobeView | undefined>(initialState.globeView);
+  const mapViewRef = useRef<MapView | undefined>(initialState.mapView);
+  const routeStateRef = useRef<PermalinkState>(initialState);
+  const urlSyncTimerRef = useRef<number | undefined>(undefined);
+  routeStateRef.current = { points, legPathTypes, pathType, compare, viewMode, mapProjection, earthModel, limitingLatitude };
+
+  const scheduleUrlSync = useCallback(() => {
+    window.clearTimeout(urlSyncTimerRef.current);
+    urlSyncTimerRef.current = window.setTimeout(() => {
+      const hash = encodePermalink({ ...routeStateRef.current, globeView: globeViewRef.current, mapView: mapViewRef.current });
+      if (`#${hash}` === window.location.hash) return;
+      const url = `${window.location.pathname}${window.location.search}#${hash}`;
+      // A new route gets its own history entry so back/forward step between routes.
+      if (window.location.hash && permalinkRouteKey(hash) !== permalinkRouteKey(window.location.hash)) {
+        window.history.pushState(null, '', url);
+      } else {
+        window.history.replaceState(null, '', url);
+      }
+    }, URL_SYNC_DELAY);
+  }, []);
+
+  useEffect(() => {
+    if (isLoading) return;
+    scheduleUrlSync();
+  }, [points, legPathTypes, pathType, compare, viewMode, mapProjection, earthModel, limitingLatitude, isLoading, scheduleUrlSync]);
+
+  useEffect(() => {
+    savePreferences(preferences);
+  }, [preferences]);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const state = decodePermalink(window.location.hash, DEFAULT_STATE) ?? DEFAULT_STATE;
+      setPoints(state.points);
+      setLegPathTypes(state.legPathTypes);
+      setPathType(state.pathType);
+      setCompare(state.compare);
+      setViewMode(state.viewMode);
+      setMapProjection(state.mapProjection);
+      setEarthModel(state.earthModel);
+      setLimitingLatitude(state.limitingLatitude);
+      setError(null);
+      globeViewRef.current = state.globeView;
+      mapViewRef.current = state.mapView;
+      setRestoredViews({});
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => {
+      window.removeEventListener('popstate', handlePopState);
+      window.clearTimeout(urlSyncTimerRef.current);
+    };
+  }, []);
+
+  const handleGlobeViewChange = useCallback((view: GlobeView) => {
+    globeViewRef.current = view;
+    scheduleUrlSync();
+  }, [scheduleUrlSync]);
+
+  const handleMapViewChange = useCallback((view: MapView) => {
+    mapViewRef.current = view;
+    scheduleUrlSync();
+  }, [scheduleUrlSync]);
 
-  const handleVisualize = useCallback(async (from: string, to: string) => {
-    if (!from || !to) {
-      setError('Please enter both a start and end location.');
+  const handleViewModeChange = (mode: ViewMode) => {
+    setRestoredViews(views => ({
+      globe: viewMode === 'map' ? views.globe : undefined,
+      map: viewMode === 'globe' ? views.map : undefined,
+    }));
+    setSyncedCentre(null);
+    setHoverDistance(null);
+    setViewMode(mode);
+  };
+
+  const handleGlobeCentreChange = useCallback((coords: Coordinates) => setSyncedCentre({ coords, source: 'globe' }), []);
+  const handleMapCentreChange = useCallback((coords: Coordinates) => setSyncedCentre({ coords, source: 'map' }), []);
+
+  const handleMapProjectionChange = (projection: MapProjectionId) => {
+    // A zoom transform only means something in the projection it was made in.
+    setRestoredViews(views => ({ ...views, map: undefined }));
+    mapViewRef.current = undefined;
+    setMapProjection(projection);
+  };
+
+  const handleVisualize = useCallback(async (locations: string[]) => {
+    if (locations.length < 2 || locations.some(location => !location)) {
+      setError('Please enter a location for every waypoint.');
       return;
     }
+
+    // Coordinates typed directly are parsed locally and never sent to a geocoder.
+    let parsed: (ParsedCoordinates | null)[];
+    try {
+      parsed = locations.map(location => {
+        try {
+          return parseCoordinateInput(location);
+        } catch (err) {
+          throw new Error(`"${location}": ${err instanceof Error ? err.message : String(err)}`);
+        }
+      });
+    } catch (err) {
+      setError((err as Error).message);
+      return;
+    }
+
     setIsLoading(true);
     setError(null);
     setPoints(null);
+    setRestoredViews({});
 
     try {
-      const [fromCoords, toCoords] = await Promise.all([
-        getCoordinatesForLocation(from),
-        getCoordinatesForLocation(to),
-      ]);
+      const results = await Promise.all(locations.map((location, i) => (parsed[i] ? null : geocodeLocation(location))));
 
-      if (!fromCoords || !toCoords) {
-        throw new Error('Could not find coordinates for one or both locations.');
+      const missing = locations.filter((_, i) => !parsed[i] && !results[i]);
+      if (missing.length > 0) {
+        throw new Error(`Could not find coordinates for ${missing.map(name => `"${name}"`).join(', ')}.`);
       }
 
-      setPoints([
-        { name: from, coords: fromCoords },
-        { name: to, coords: toCoords },
-      ]);
+      setPoints(locations.map((name, i) => {
+        const coordinates = parsed[i];
+        if (coordinates) {
+          return { name, coords: coordinates.coords, source: 'coordinates', confidence: 1, notation: coordinates.notation };
+        }
+        const result = results[i]!;
+        return { name, coords: result.coords, source: result.source, confidence: result.confidence, matchedName: result.label };
+      }));
+      setLegPathTypes(locations.slice(1).map(() => pathType));
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
       setError(`Failed to fetch location data: ${errorMessage}`);
@@ -45,13 +208,160 @@ const App: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
+  }, [pathType]);
+
+  const handlePathTypeChange = useCallback((type: PathType) => {
+    setPathType(type);
+    setLegPathTypes(types => types.map(() => type));
+  }, []);
+
+  const handleLegPathTypeChange = useCallback((index: number, type: PathType) => {
+    setLegPathTypes(types => types.map((t, i) => (i === index ? type : t)));
+  }, []);
+
+  const handleMapClick = useCallback((coords: Coordinates, target: PlacementTarget) => {
+    const point = pointFromMap(coords);
+    const current = points ?? [];
+    let next: LocationPoint[];
+    if (current.length === 0) {
+      next = [point];
+    } else if (current.length === 1) {
+      next = target === 'start' ? [point] : [current[0], point];
+    } else {
+      next = target === 'start' ? [point, ...current.slice(1)] : [...current.slice(0, -1), point];
+    }
+    setError(null);
+    setRestoredViews({});
+    setPoints(next);
+    setLegPathTypes(types => next.slice(1).map((_, i) => types[i] ?? pathType));
+  }, [points, pathType]);
+
+  const handlePositionPick = useCallback((coords: Coordinates) => {
+    setCheckPosition(coords);
+    setPickingPosition(false);
+  }, []);
+
+  const handleImportFile = useCallback(async (file: File) => {
+    try {
+      const route = parseRouteFile(file.name, await file.text());
+      setError(null);
+      setRestoredViews({});
+      setPoints(route.waypoints);
+      setLegPathTypes(route.legPathTypes ?? route.waypoints.slice(1).map(() => pathType));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Could not import "${file.name}": ${errorMessage}`);
+      console.error(err);
+    }
+  }, [pathType]);
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDraggingFile(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleImportFile(file);
+  };
+
+  const handleWaypointMove = useCallback((index: number, coords: Coordinates) => {
+    setPoints(current => current && current.map((p, i) => (i === index ? pointFromMap(coords) : p)));
   }, []);
 
-  const distance = points
-    ? pathType === 'orthodromic'
-      ? calculateOrthodromicDistance(points[0].coords, points[1].coords)
-      : calculateLoxodromicDistance(points[0].coords, points[1].coords)
-    : null;
+  const legs = useMemo(
+    () => (points && points.length >= 2 ? calculateRouteLegs(points, legPathTypes, earthModel, limitingLatitude) : null),
+    [points, legPathTypes, earthModel, limitingLatitude],
+  );
+  const waypointCoords = useMemo(() => (points ? points.map(p => p.coords) : null), [points]);
+  const routeWalker = useMemo(() => (legs && legs.length > 0 ? createRouteWalker(legs, earthModel) : null), [legs, earthModel]);
+  // Editing the route can shorten it under the vehicle.
+  const vehicleDistance = legs && legs.length > 0 ? Math.min(playbackDistance, legs[legs.length - 1].cumulativeDistance) : 0;
+  const vehiclePosition = useMemo(() => routeWalker?.(vehicleDistance) ?? null, [routeWalker, vehicleDistance]);
+  const vehicleMarker = useMemo(
+    () => (vehiclePosition && vehicleDistance > 0 ? { position: vehiclePosition, kind: vehicle } : null),
+    [vehiclePosition, vehicleDistance, vehicle],
+  );
+  const hoverProbe = useMemo((): RouteProbe | null => {
+    if (!routeWalker || !legs || hoverDistance === null) return null;
+    const total = legs[legs.length - 1].cumulativeDistance;
+    const fromStart = Math.min(hoverDistance, total);
+    return { ...routeWalker(fromStart), fromStart, toGo: total - fromStart };
+  }, [routeWalker, legs, hoverDistance]);
+  const handlePathHover = useCallback((hit: PathHit | null) => {
+    const leg = hit ? legs?.[hit.leg] : undefined;
+    setHoverDistance(hit && leg ? leg.cumulativeDistance - leg.distance + hit.fraction * leg.distance : null);
+  }, [legs]);
+  const crossTrack = useMemo(() => {
+    const result = legs && checkPosition ? calculateRouteCrossTrack(legs, checkPosition, earthModel) : null;
+    return result && checkPosition ? { position: checkPosition, result } : null;
+  }, [legs, checkPosition, earthModel]);
+  const rangeOverlay = useMemo(
+    () => (rangeRings && waypointCoords ? calculateRangeOverlay(waypointCoords, rangeRings, earthModel) : null),
+    [rangeRings, waypointCoords, earthModel],
+  );
+  const crossings = useMemo(
+    () => (legs && crossingPath ? findRouteCrossings(legs, crossingPath, earthModel) : null),
+    [legs, crossingPath, earthModel],
+  );
+  const comparison = useMemo(
+    () => (compare && waypointCoords ? waypointCoords.slice(1).map((to, i) => comparePaths(waypointCoords[i], to, earthModel)) : null),
+    [compare, waypointCoords, earthModel],
+  );
+
+  const split = viewMode === 'split';
+  const globeVisualization = (
+    <GlobeVisualization
+      points={waypointCoords}
+      legPathTypes={legPathTypes}
+      limitingLatitude={limitingLatitude}
+      earthModel={earthModel}
+      onMapClick={handleMapClick}
+      onPositionPick={pickingPosition ? handlePositionPick : undefined}
+      onWaypointMove={handleWaypointMove}
+      initialView={restoredViews.globe}
+      onViewChange={handleGlobeViewChange}
+      comparison={comparison}
+      vehicle={vehicleMarker}
+      followVehicle={followVehicle}
+      highlight={hoverProbe}
+      crossTrack={crossTrack}
+      rangeOverlay={rangeOverlay}
+      crossings={crossings}
+      onPathHover={handlePathHover}
+      centre={split && syncedCentre?.source === 'map' ? syncedCentre.coords : undefined}
+      onCentreChange={split ? handleGlobeCentreChange : undefined}
+      preferences={preferences}
+    />
+  );
+  const mapVisualization = (
+    <MercatorVisualization
+      points={waypointCoords}
+      legPathTypes={legPathTypes}
+      limitingLatitude={limitingLatitude}
+      earthModel={earthModel}
+      projection={mapProjection}
+      onMapClick={handleMapClick}
+      onPositionPick={pickingPosition ? handlePositionPick : undefined}
+      onWaypointMove={handleWaypointMove}
+      initialView={restoredViews.map}
+      onViewChange={handleMapViewChange}
+      comparison={comparison}
+      vehicle={vehicleMarker}
+      highlight={hoverProbe}
+      crossTrack={crossTrack}
+      rangeOverlay={rangeOverlay}
+      crossings={crossings}
+      onPathHover={handlePathHover}
+      centre={split && syncedCentre?.source === 'globe' ? syncedCentre.coords : undefined}
+      onCentreChange={split ? handleMapCentreChange : undefined}
+      preferences={preferences}
+    />
+  );
 
   return (
     <div className="min-h-screen bg-gray-900 text-white flex flex-col items-center p-4 font-sans relative overflow-hidden">
@@ -60,7 +370,7 @@ const App: React.FC = () => {
           Orthodromic & Loxodromic Path Visualizer
         </h1>
         <p className="text-gray-400 mt-2 text-lg">
-          Visualize great-circle (orthodromic) and rhumb line (loxodromic) paths between two points on an interactive 3D globe and 2D map.
+          Visualize great-circle (orthodromic) and rhumb line (loxodromic) paths along a multi-waypoint route on an interactive 3D globe and 2D map.
         </p>
       </header>
 
@@ -68,42 +378,100 @@ const App: React.FC = () => {
         <aside className="lg:w-1/3 xl:w-1/4 z-10">
           <ControlPanel 
             onVisualize={handleVisualize} 
+            onImportFile={handleImportFile}
             isLoading={isLoading} 
             error={error}
             points={points}
-            distance={distance}
+            legs={legs}
             pathType={pathType}
-            onPathTypeChange={setPathType}
+            onPathTypeChange={handlePathTypeChange}
+            onLegPathTypeChange={handleLegPathTypeChange}
+            compare={compare}
+            onCompareChange={setCompare}
+            comparison={comparison}
+            limitingLatitude={limitingLatitude}
+            onLimitingLatitudeChange={setLimitingLatitude}
+            earthModel={earthModel}
+            onEarthModelChange={setEarthModel}
+            checkPosition={checkPosition}
+            onCheckPositionChange={setCheckPosition}
+            crossTrack={crossTrack?.result ?? null}
+            pickingPosition={pickingPosition}
+            onPickingPositionChange={setPickingPosition}
+            rangeRings={rangeRings}
+            onRangeRingsChange={setRangeRings}
+            rangeOverlay={rangeOverlay}
+            crossingPath={crossingPath}
+            onCrossingPathChange={setCrossingPath}
+            crossings={crossings}
+            preferences={preferences}
+            onPreferencesChange={setPreferences}
           />
         </aside>
         <main className="flex-1 flex flex-col h-[70vh] lg:h-auto min-h-[500px] z-0">
           <div className="mb-2 flex justify-center lg:justify-start gap-2">
             <button
-              onClick={() => setViewMode('globe')}
+              onClick={() => handleViewModeChange('globe')}
               className={`px-4 py-2 text-sm font-medium rounded-md transition ${viewMode === 'globe' ? 'bg-cyan-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
             >
               3D Globe
             </button>
             <button
-              onClick={() => setViewMode('map')}
+              onClick={() => handleViewModeChange('map')}
               className={`px-4 py-2 text-sm font-medium rounded-md transition ${viewMode === 'map' ? 'bg-cyan-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
             >
               2D Map
             </button>
+            <button
+              onClick={() => handleViewModeChange('split')}
+              className={`px-4 py-2 text-sm font-medium rounded-md transition ${viewMode === 'split' ? 'bg-cyan-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+            >
+              Side by Side
+            </button>
+            {viewMode !== 'globe' && (
+              <select
+                value={mapProjection}
+                onChange={(e) => handleMapProjectionChange(e.target.value as MapProjectionId)}
+                aria-label="Map projection"
+                className="px-3 py-2 text-sm bg-gray-700 text-gray-300 rounded-md border border-gray-600 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+              >
+                {(Object.keys(MAP_PROJECTIONS) as MapProjectionId[]).map(id => (
+                  <option key={id} value={id}>{MAP_PROJECTIONS[id].label}</option>
+                ))}
+              </select>
+            )}
           </div>
-          <div className="flex-grow w-full h-full">
-            {viewMode === 'globe' ? (
-              <GlobeVisualization 
-                points={points ? [points[0].coords, points[1].coords] : null}
-                pathType={pathType}
-              />
-            ) : (
-              <MercatorVisualization
-                points={points ? [points[0].coords, points[1].coords] : null}
-                pathType={pathType}
-              />
+          <div
+            className="relative flex-grow w-full h-full"
+            onDragOver={handleDragOver}
+            onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFile(false); }}
+            onDrop={handleDrop}
+          >
+            {isDraggingFile && (
+              <div className="absolute inset-0 z-10 flex items-center justify-center rounded-lg border-2 border-dashed border-cyan-400 bg-gray-900/80 pointer-events-none">
+                <p className="text-lg text-cyan-300">Drop a GeoJSON, GPX or KML route to load it</p>
+              </div>
             )}
+            {viewMode === 'split' ? (
+              <div className="grid grid-rows-2 md:grid-rows-1 md:grid-cols-2 gap-2 w-full h-full">
+                {globeVisualization}
+                {mapVisualization}
+              </div>
+            ) : viewMode === 'globe' ? globeVisualization : mapVisualization}
           </div>
+          {legs && legs.length > 0 && vehiclePosition && (
+            <PlaybackControls
+              legs={legs}
+              distance={vehicleDistance}
+              onDistanceChange={setPlaybackDistance}
+              position={vehiclePosition}
+              vehicle={vehicle}
+              onVehicleChange={setVehicle}
+              follow={followVehicle}
+              onFollowChange={viewMode !== 'map' ? setFollowVehicle : undefined}
+              preferences={preferences}
+            />
+          )}
         </main>
       </div>
     </div>
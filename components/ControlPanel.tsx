@@ -1,16 +1,80 @@
-import React, { useState } from 'react';
-import type { LocationPoint, PathType } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { BearingReference, CompositeSailing, CoordinateFormat, CoordinateNotation, Coordinates, CourseInfo, CrossingPath, DisplayPreferences, DistanceUnit, EarthModel, EarthModelId, LocationPoint, LocationSource, PathType, RangeRings, RouteCrossTrack, RouteLeg, SpeedUnit } from '../types';
+import { formatDecimalDegrees, parseCoordinateInput } from '../utils/coordinateParser';
+import { DISTANCE_UNIT_LABELS, formatBearing, formatCoordinates, formatDistance, formatLatitude, formatLongitude, fromKilometers, toKilometers } from '../utils/displayFormat';
+import type { PathComparison } from '../utils/pathComparison';
+import type { RouteCrossings } from '../utils/pathIntersection';
+import type { DensifyOptions } from '../utils/pathGeometry';
+import { buildNavigationLog, navigationLogToCsv } from '../utils/navigationLog';
+import type { NavigationLogRow, NavigationLogSpacing } from '../utils/navigationLog';
+import { MAX_RINGS } from '../utils/rangeRings';
+import type { RangeOverlay } from '../utils/rangeRings';
+import { exportRoute } from '../utils/routeExport';
+import type { ExportFormat } from '../utils/routeExport';
+import { createCustomEarthModel, EARTH_MODELS } from '../utils/geodesic';
+import { dateToZonedTime, estimateTravel, speedToKmh, timeZoneAt, zonedTimeToDate } from '../utils/travelTime';
 
 interface ControlPanelProps {
-  onVisualize: (from: string, to: string) => void;
+  onVisualize: (locations: string[]) => void;
+  onImportFile: (file: File) => void;
   isLoading: boolean;
   error: string | null;
-  points: [LocationPoint, LocationPoint] | null;
-  distance: number | null;
+  points: LocationPoint[] | null;
+  legs: RouteLeg[] | null;
   pathType: PathType;
   onPathTypeChange: (type: PathType) => void;
+  onLegPathTypeChange: (index: number, type: PathType) => void;
+  compare: boolean;
+  onCompareChange: (compare: boolean) => void;
+  /** Each leg's great circle against its rhumb line, while comparing. */
+  comparison: PathComparison[] | null;
+  limitingLatitude: number;
+  onLimitingLatitudeChange: (latitude: number) => void;
+  earthModel: EarthModel;
+  onEarthModelChange: (model: EarthModel) => void;
+  /** The position checked against the route, and how far off it and along it the position is. */
+  checkPosition: Coordinates | null;
+  onCheckPositionChange: (position: Coordinates | null) => void;
+  crossTrack: RouteCrossTrack | null;
+  /** Whether the next click on a view picks the position to check. */
+  pickingPosition: boolean;
+  onPickingPositionChange: (picking: boolean) => void;
+  /** Range rings around a waypoint, or null when none are drawn. */
+  rangeRings: RangeRings | null;
+  onRangeRingsChange: (rings: RangeRings | null) => void;
+  rangeOverlay: RangeOverlay | null;
+  /** A second path checked for where it crosses the route, or null when there is none. */
+  crossingPath: CrossingPath | null;
+  onCrossingPathChange: (path: CrossingPath | null) => void;
+  crossings: RouteCrossings | null;
+  preferences: DisplayPreferences;
+  onPreferencesChange: (preferences: DisplayPreferences) => void;
 }
 
+const EARTH_MODEL_LABELS: Record<EarthModelId, string> = {
+  sphere: 'Sphere (R = 6,371 km)',
+  wgs84: 'WGS-84 ellipsoid',
+  grs80: 'GRS-80 ellipsoid',
+  custom: 'Custom ellipsoid',
+};
+
+interface Stop {
+  id: number;
+  query: string;
+}
+
+let nextStopId = 0;
+const createStop = (query: string): Stop => ({ id: nextStopId++, query });
+
+const PATH_TYPE_LABELS: Record<PathType, string> = {
+  orthodromic: 'Great Circle',
+  loxodromic: 'Rhumb Line',
+  composite: 'Composite',
+};
+
+const stopLabel = (index: number, count: number) =>
+  index === 0 ? 'From' : index === count - 1 ? 'To' : `Via ${index}`;
+
 const LoadingSpinner: React.FC = () => (
   <div className="absolute inset-y-0 right-0 flex items-center pr-3">
     <svg className="animate-spin h-5 w-5 text-cyan-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -20,41 +84,990 @@ const LoadingSpinner: React.FC = () => (
   </div>
 );
 
-export const ControlPanel: React.FC<ControlPanelProps> = ({ onVisualize, isLoading, error, points, distance, pathType, onPathTypeChange }) => {
-  const [from, setFrom] = useState<string>('Paris, France');
-  const [to, setTo] = useState<string>('New York, USA');
+const SOURCE_LABELS: Record<LocationSource, string> = {
+  gazetteer: 'Offline gazetteer',
+  gemini: 'Gemini AI estimate — please verify',
+  coordinates: 'Entered coordinates',
+  import: 'Imported from file',
+};
+
+const NOTATION_LABELS: Record<CoordinateNotation, string> = {
+  decimal: 'Decimal degrees',
+  dms: 'DMS',
+  ddm: 'Degrees & decimal minutes',
+  nmea: 'NMEA',
+  utm: 'UTM',
+  mgrs: 'MGRS',
+  maidenhead: 'Maidenhead locator',
+};
+
+const SourceBadge: React.FC<{ point: LocationPoint }> = ({ point }) => {
+  if (!point.source) return null;
+  if (point.source === 'coordinates') {
+    const notation = point.notation ? ` · ${NOTATION_LABELS[point.notation]}` : '';
+    return <p className="text-xs mt-1 text-gray-500">{`${SOURCE_LABELS.coordinates}${notation}`}</p>;
+  }
+  const confidence = point.confidence !== undefined ? ` · ${Math.round(point.confidence * 100)}% match` : '';
+  const matched = point.matchedName && point.matchedName !== point.name ? ` · ${point.matchedName}` : '';
+  const tone = point.source === 'gemini' || (point.confidence ?? 1) < 0.6 ? 'text-amber-300' : 'text-gray-500';
+  return <p className={`text-xs mt-1 ${tone}`}>{`${SOURCE_LABELS[point.source]}${matched}${confidence}`}</p>;
+};
+
+/** Shows how a typed coordinate will be read, or why it cannot be. Place names show nothing. */
+const CoordinateHint: React.FC<{ query: string }> = ({ query }) => {
+  let parsed;
+  try {
+    parsed = parseCoordinateInput(query);
+  } catch (err) {
+    return <p className="text-xs mt-1 text-red-300">{err instanceof Error ? err.message : String(err)}</p>;
+  }
+  if (!parsed) return null;
+  const { lat, lon } = parsed.coords;
+  return (
+    <p className="text-xs mt-1 text-cyan-300">
+      {`${NOTATION_LABELS[parsed.notation]} → ${lat.toFixed(5)}°, ${lon.toFixed(5)}°`}
+    </p>
+  );
+};
+
+interface CourseDetailsProps {
+  course: CourseInfo;
+  from: Coordinates;
+  to: Coordinates;
+  preferences: DisplayPreferences;
+}
+
+const CourseDetails: React.FC<CourseDetailsProps> = ({ course, from, to, preferences }) => {
+  const savedPercent = course.loxodromicDistance > 0 ? (course.distanceSaved / course.loxodromicDistance) * 100 : 0;
+  return (
+    <div className="space-y-2">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-gray-400">
+            <th className="text-left font-normal"></th>
+            <th className="text-right font-semibold">Great Circle</th>
+            <th className="text-right font-semibold">Rhumb Line</th>
+          </tr>
+        </thead>
+        <tbody className="text-gray-200">
+          <tr>
+            <td className="text-gray-400">Distance</td>
+            <td className="text-right">{formatDistance(course.orthodromicDistance, preferences)}</td>
+            <td className="text-right">{formatDistance(course.loxodromicDistance, preferences)}</td>
+          </tr>
+          <tr>
+            <td className="text-gray-400">Initial course</td>
+            <td className="text-right">{formatBearing(course.initialCourse, from, preferences)}</td>
+            <td className="text-right" rowSpan={2}>{formatBearing(course.rhumbCourse, from, preferences)}</td>
+          </tr>
+          <tr>
+            <td className="text-gray-400">Final course</td>
+            <td className="text-right">{formatBearing(course.finalCourse, to, preferences)}</td>
+          </tr>
+        </tbody>
+      </table>
+      <p className="text-xs text-gray-400">
+        Vertex:{' '}
+        {course.vertex ? (
+          <span className="text-gray-200">
+            {`(${formatCoordinates(course.vertex, preferences)})`} {course.vertexOnPath ? 'on route' : 'beyond endpoints'}
+          </span>
+        ) : (
+          <span className="text-gray-200">none (equatorial route)</span>
+        )}
+      </p>
+      <p className="text-xs text-gray-400">
+        Great circle saves{' '}
+        <span className="text-cyan-300 font-semibold">{formatDistance(Math.max(0, course.distanceSaved), preferences)}</span>
+        {` (${Math.max(0, savedPercent).toFixed(1)}%)`}
+      </p>
+    </div>
+  );
+};
+
+/** Totals for the great circle and the rhumb line over the whole route, shown while both are drawn. */
+const ComparisonSummary: React.FC<{ comparison: PathComparison[]; preferences: DisplayPreferences }> = ({ comparison, preferences }) => {
+  const greatCircle = comparison.reduce((sum, leg) => sum + leg.orthodromicDistance, 0);
+  const rhumbLine = comparison.reduce((sum, leg) => sum + leg.loxodromicDistance, 0);
+  const percent = greatCircle > 0 ? (rhumbLine - greatCircle) / greatCircle * 100 : 0;
+  const widest = comparison.reduce((best, leg, i) => (leg.maxSeparation.distance > comparison[best].maxSeparation.distance ? i : best), 0);
+  return (
+    <div className="bg-gray-900/50 p-3 rounded-md space-y-2">
+      <table className="w-full text-xs">
+        <tbody className="text-gray-200">
+          <tr>
+            <td className="text-gray-400"><span className="inline-block w-4 border-t-2 border-cyan-500 align-middle mr-2"></span>Great Circle</td>
+            <td className="text-right">{formatDistance(greatCircle, preferences)}</td>
+          </tr>
+          <tr>
+            <td className="text-gray-400"><span className="inline-block w-4 border-t-2 border-dashed border-amber-500 align-middle mr-2"></span>Rhumb Line</td>
+            <td className="text-right">{formatDistance(rhumbLine, preferences)}</td>
+          </tr>
+        </tbody>
+      </table>
+      <p className="text-xs text-gray-400">
+        Rhumb line is{' '}
+        <span className="text-amber-300 font-semibold">{`${percent.toFixed(2)}%`}</span>
+        {` longer (${formatDistance(rhumbLine - greatCircle, preferences)})`}
+      </p>
+      <p className="text-xs text-gray-400">
+        Paths are up to <span className="text-gray-200">{formatDistance(comparison[widest].maxSeparation.distance, preferences)}</span> apart
+        {comparison.length > 1 ? ` (leg ${widest + 1})` : ''}
+      </p>
+    </div>
+  );
+};
+
+interface PositionCheckProps {
+  legs: RouteLeg[];
+  position: Coordinates | null;
+  onPositionChange: (position: Coordinates | null) => void;
+  crossTrack: RouteCrossTrack | null;
+  picking: boolean;
+  onPickingChange: (picking: boolean) => void;
+  preferences: DisplayPreferences;
+}
+
+/** Measures a typed or picked position against the route: how far off track it is, and how far along. */
+const PositionCheck: React.FC<PositionCheckProps> = ({ legs, position, onPositionChange, crossTrack, picking, onPickingChange, preferences }) => {
+  const [query, setQuery] = useState<string>(position ? formatDecimalDegrees(position) : '');
+  const [error, setError] = useState<string | null>(null);
+
+  // A position picked on a view shows up in the field.
+  useEffect(() => {
+    if (position) setQuery(formatDecimalDegrees(position));
+  }, [position]);
+
+  const handleCheck = () => {
+    try {
+      const parsed = parseCoordinateInput(query);
+      if (!parsed) throw new Error('Enter coordinates, e.g. 51.47, -0.45.');
+      setError(null);
+      onPositionChange(parsed.coords);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleClear = () => {
+    setQuery('');
+    setError(null);
+    onPositionChange(null);
+    onPickingChange(false);
+  };
+
+  const total = legs[legs.length - 1].cumulativeDistance;
+  const leg = crossTrack ? legs[crossTrack.leg] : null;
+  return (
+    <div className="bg-gray-900/50 p-3 rounded-md space-y-2">
+      <p className="font-bold text-gray-300">Check Position</p>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          aria-label="Position to check"
+          placeholder="Coordinates"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleCheck(); }}
+          className="min-w-0 flex-1 bg-gray-900 border border-gray-600 rounded-md p-1.5 text-white text-sm"
+        />
+        <button
+          type="button"
+          onClick={handleCheck}
+          className="px-3 py-1.5 text-sm font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200 transition"
+        >
+          Check
+        </button>
+      </div>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => onPickingChange(!picking)}
+          className={`flex-1 px-3 py-1.5 text-xs font-medium rounded-md transition ${picking ? 'bg-rose-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+        >
+          {picking ? 'Click a view to pick…' : 'Pick on map'}
+        </button>
+        {(position || query) && (
+          <button
+            type="button"
+            onClick={handleClear}
+            className="px-3 py-1.5 text-xs font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-gray-300 transition"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-300">{error}</p>}
+      {crossTrack && leg && (
+        <div className="text-xs text-gray-400 space-y-1">
+          <p>
+            Cross-track:{' '}
+            <span className="text-rose-300 font-semibold">
+              {`${formatDistance(Math.abs(crossTrack.crossTrackDistance), preferences, 1)} ${crossTrack.crossTrackDistance < 0 ? 'left' : 'right'}`}
+            </span>
+            {` of ${legs.length > 1 ? `leg ${crossTrack.leg + 1}, ` : ''}${leg.pathType === 'loxodromic' ? 'the rhumb line' : leg.pathType === 'composite' ? 'the composite sailing' : 'the great circle'}`}
+          </p>
+          <p>
+            Along-track: <span className="text-gray-200">{formatDistance(crossTrack.alongTrackDistance, preferences, 1)}</span>
+            {` from the start · ${formatDistance(total - crossTrack.alongTrackDistance, preferences, 1)} to go`}
+          </p>
+          <p>{`Closest point: (${formatCoordinates(crossTrack.closestPoint, preferences)})`}</p>
+          {!crossTrack.abeam && (
+            <p className="text-amber-300">
+              {`The closest point lies on the line extended ${crossTrack.alongTrackDistance < leg.cumulativeDistance - leg.distance ? 'back before the start' : 'on past the end'} of the leg.`}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface CrossingPathPanelProps {
+  legCount: number;
+  path: CrossingPath | null;
+  onPathChange: (path: CrossingPath | null) => void;
+  crossings: RouteCrossings | null;
+  preferences: DisplayPreferences;
+}
+
+/** A second path, typed in as two positions, and where it crosses the route. */
+const CrossingPathPanel: React.FC<CrossingPathPanelProps> = ({ legCount, path, onPathChange, crossings, preferences }) => {
+  const [fromQuery, setFromQuery] = useState<string>(path ? formatDecimalDegrees(path.from) : '');
+  const [toQuery, setToQuery] = useState<string>(path ? formatDecimalDegrees(path.to) : '');
+  const [pathType, setPathType] = useState<CrossingPath['pathType']>(path?.pathType ?? 'orthodromic');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFind = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const [from, to] = [fromQuery, toQuery].map((query, i) => {
+        const parsed = parseCoordinateInput(query);
+        if (!parsed) throw new Error(`Enter coordinates for the ${i === 0 ? 'start' : 'end'} of the path.`);
+        return parsed.coords;
+      });
+      setError(null);
+      onPathChange({ from, to, pathType });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handlePathTypeChange = (type: CrossingPath['pathType']) => {
+    setPathType(type);
+    if (path) onPathChange({ ...path, pathType: type });
+  };
+
+  const handleClear = () => {
+    setFromQuery('');
+    setToQuery('');
+    setError(null);
+    onPathChange(null);
+  };
+
+  const inputClass = 'w-full bg-gray-900 border border-gray-600 rounded-md p-1.5 text-white text-sm';
+  return (
+    <form onSubmit={handleFind} className="bg-gray-900/50 p-3 rounded-md space-y-2">
+      <p className="font-bold text-gray-300">Crossing Path</p>
+      <input type="text" aria-label="Crossing path start" placeholder="From (coordinates)" value={fromQuery} onChange={(e) => setFromQuery(e.target.value)} className={inputClass} />
+      <input type="text" aria-label="Crossing path end" placeholder="To (coordinates)" value={toQuery} onChange={(e) => setToQuery(e.target.value)} className={inputClass} />
+      <div className="flex gap-2">
+        <select
+          aria-label="Crossing path type"
+          value={pathType}
+          onChange={(e) => handlePathTypeChange(e.target.value as CrossingPath['pathType'])}
+          className="flex-1 bg-gray-900 border border-gray-600 rounded-md p-1.5 text-white text-sm"
+        >
+          <option value="orthodromic">{PATH_TYPE_LABELS.orthodromic}</option>
+          <option value="loxodromic">{PATH_TYPE_LABELS.loxodromic}</option>
+        </select>
+        <button type="submit" className="px-3 py-1.5 text-sm font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200 transition">
+          Find
+        </button>
+        {path && (
+          <button type="button" onClick={handleClear} className="px-3 py-1.5 text-sm font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-gray-300 transition">
+            Clear
+          </button>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-300">{error}</p>}
+      {crossings && (crossings.intersections.length === 0 ? (
+        <p className="text-xs text-gray-500">The path does not cross the route.</p>
+      ) : (
+        <ol className="text-xs text-gray-400 space-y-1">
+          {crossings.intersections.map((crossing, index) => (
+            <li key={index}>
+              <p className="text-fuchsia-300">{`${index + 1}. (${formatCoordinates(crossing.coords, preferences)})`}</p>
+              <p className="pl-4">
+                {`${legCount > 1 ? `Leg ${crossing.leg + 1} · ` : ''}${formatDistance(crossing.alongRoute, preferences)} from the start · ${formatDistance(crossing.alongPath, preferences)} along the path · ${crossing.angle.toFixed(1)}°`}
+              </p>
+            </li>
+          ))}
+        </ol>
+      ))}
+    </form>
+  );
+};
+
+const DEFAULT_RANGE_RINGS: RangeRings = { centre: 0, radius: 1000, count: 3, maxRange: false };
+
+interface RangeRingsPanelProps {
+  points: LocationPoint[];
+  rings: RangeRings | null;
+  onRingsChange: (rings: RangeRings | null) => void;
+  reach: RangeOverlay['reach'];
+  preferences: DisplayPreferences;
+}
+
+const RangeRingsPanel: React.FC<RangeRingsPanelProps> = ({ points, rings, onRingsChange, reach, preferences }) => {
+  const { distanceUnit } = preferences;
+  const update = (change: Partial<RangeRings>) => rings && onRingsChange({ ...rings, ...change });
+  // Radii are kept in kilometers and entered in the preferred unit, rounded so that they read back as typed.
+  const radiusValue = rings && Number.isFinite(rings.radius) ? Number(fromKilometers(rings.radius, distanceUnit).toPrecision(9)) : '';
+  const updateRadius = (value: string) => update({ radius: toKilometers(parseFloat(value), distanceUnit) });
+  return (
+    <div className="bg-gray-900/50 p-3 rounded-md space-y-2">
+      <label className="flex items-center gap-2 font-bold text-gray-300">
+        <input
+          type="checkbox"
+          checked={rings !== null}
+          onChange={(e) => onRingsChange(e.target.checked ? DEFAULT_RANGE_RINGS : null)}
+          className="accent-cyan-500"
+        />
+        Range Rings
+      </label>
+      {rings && (
+        <>
+          <label className="flex items-center gap-2 text-xs text-gray-300">
+            <input type="checkbox" checked={rings.maxRange} onChange={(e) => update({ maxRange: e.target.checked })} className="accent-cyan-500" />
+            Max range from the start
+          </label>
+          {rings.maxRange ? (
+            <label className="flex items-center justify-between gap-2 text-xs text-gray-400">
+              {`Range (${DISTANCE_UNIT_LABELS[distanceUnit]})`}
+              <input
+                type="number"
+                min={1}
+                step="any"
+                value={radiusValue}
+                onChange={(e) => updateRadius(e.target.value)}
+                className="w-24 bg-gray-900 border border-gray-600 rounded-md p-1 text-white text-sm"
+              />
+            </label>
+          ) : (
+            <div className="grid grid-cols-3 gap-2 text-xs text-gray-400">
+              <label className="flex flex-col gap-1">
+                Around
+                <select
+                  value={Math.min(rings.centre, points.length - 1)}
+                  onChange={(e) => update({ centre: parseInt(e.target.value, 10) })}
+                  className="bg-gray-900 border border-gray-600 rounded-md p-1 text-white text-sm"
+                >
+                  {points.map((point, index) => (
+                    <option key={index} value={index}>{`${stopLabel(index, points.length)}: ${point.name}`}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                {`Every (${DISTANCE_UNIT_LABELS[distanceUnit]})`}
+                <input
+                  type="number"
+                  min={1}
+                  step="any"
+                  value={radiusValue}
+                  onChange={(e) => updateRadius(e.target.value)}
+                  className="bg-gray-900 border border-gray-600 rounded-md p-1 text-white text-sm"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                Rings
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_RINGS}
+                  step={1}
+                  value={rings.count}
+                  onChange={(e) => update({ count: parseInt(e.target.value, 10) || 1 })}
+                  className="bg-gray-900 border border-gray-600 rounded-md p-1 text-white text-sm"
+                />
+              </label>
+            </div>
+          )}
+          {reach && (
+            <ul className="text-xs space-y-0.5">
+              {reach.map((point, index) => (
+                <li key={index} className="flex justify-between gap-2">
+                  <span className="text-gray-400 truncate">{`${stopLabel(index, points.length)}: ${points[index]?.name ?? ''}`}</span>
+                  <span className={point.inRange ? 'text-green-400' : 'text-red-400'}>
+                    {`${formatDistance(point.distance, preferences)} · ${point.inRange ? 'in range' : 'out of range'}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+interface CompositeBreakdownProps {
+  composite: CompositeSailing | null;
+  limitingLatitude: number;
+  preferences: DisplayPreferences;
+}
+
+const CompositeBreakdown: React.FC<CompositeBreakdownProps> = ({ composite, limitingLatitude, preferences }) => {
+  if (!composite) {
+    return <p className="pl-3 pb-1 text-xs text-amber-300">An endpoint lies beyond {limitingLatitude}°; showing the great circle.</p>;
+  }
+  if (!composite.limited) {
+    return <p className="pl-3 pb-1 text-xs text-gray-500">Great circle stays within {limitingLatitude}°; no parallel needed.</p>;
+  }
+  return (
+    <ul className="pl-3 pb-1 text-xs text-gray-400 space-y-0.5">
+      {composite.segments.map((segment, i) => (
+        <li key={i} className="flex justify-between">
+          <span>
+            {segment.kind === 'parallel'
+              ? `Parallel ${Math.abs(segment.from.lat).toFixed(1)}°${segment.from.lat >= 0 ? 'N' : 'S'}`
+              : `Great circle ${i === 0 ? 'to' : 'from'} (${formatCoordinates(i === 0 ? segment.to : segment.from, preferences)})`}
+          </span>
+          <span>{formatDistance(segment.distance, preferences)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  geojson: 'GeoJSON',
+  gpx: 'GPX route',
+  kml: 'KML',
+};
+
+const downloadFile = (filename: string, mimeType: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoke after the click has been handled, or some browsers cancel the download.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+interface ExportMenuProps {
+  legs: RouteLeg[];
+  earthModel: EarthModel;
+  preferences: DisplayPreferences;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ legs, earthModel, preferences }) => {
+  const [format, setFormat] = useState<ExportFormat>('geojson');
+  const [densifyMode, setDensifyMode] = useState<DensifyOptions['mode']>('spacing');
+  const [value, setValue] = useState<string>('100');
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const handleExport = () => {
+    const amount = toKilometers(parseFloat(value), preferences.distanceUnit);
+    if (!(amount > 0)) {
+      setExportError(densifyMode === 'spacing' ? 'Spacing must be a positive distance.' : 'Cross-track error must be a positive distance.');
+      return;
+    }
+    const densify: DensifyOptions = densifyMode === 'spacing' ? { mode: 'spacing', spacing: amount } : { mode: 'crossTrack', tolerance: amount };
+    try {
+      const file = exportRoute(legs, format, densify, earthModel, preferences);
+      setExportError(null);
+      downloadFile(file.filename, file.mimeType, file.content);
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Export failed.');
+    }
+  };
+
+  return (
+    <div className="bg-gray-900/50 p-3 rounded-md space-y-2">
+      <p className="font-bold text-gray-300">Export Route</p>
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          aria-label="Export format"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+          className="bg-gray-900 border border-gray-600 rounded-md p-1.5 text-white text-sm"
+        >
+          {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(id => (
+            <option key={id} value={id}>{EXPORT_FORMAT_LABELS[id]}</option>
+          ))}
+        </select>
+        <select
+          aria-label="Densify by"
+          value={densifyMode}
+          onChange={(e) => setDensifyMode(e.target.value as DensifyOptions['mode'])}
+          className="bg-gray-900 border border-gray-600 rounded-md p-1.5 text-white text-sm"
+        >
+          <option value="spacing">Point every…</option>
+          <option value="crossTrack">Max cross-track error</option>
+        </select>
+      </div>
+      <div className="flex gap-2 items-center">
+        <input
+          aria-label={densifyMode === 'spacing' ? 'Point spacing' : 'Maximum cross-track error'}
+          type="number"
+          min="0"
+          step="any"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          className="min-w-0 flex-1 bg-gray-900 border border-gray-600 rounded-md p-1.5 text-white text-sm"
+        />
+        <span className="text-xs text-gray-400">{DISTANCE_UNIT_LABELS[preferences.distanceUnit]}</span>
+        <button
+          type="button"
+          onClick={handleExport}
+          className="px-3 py-1.5 text-sm font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200 transition"
+        >
+          Download
+        </button>
+      </div>
+      {exportError && <p className="text-xs text-red-300">{exportError}</p>}
+    </div>
+  );
+};
+
+const DEFAULT_LOG_STEP: Record<NavigationLogSpacing['mode'], string> = {
+  longitude: '10',
+  distance: '500',
+};
+
+type LogSortKey = 'index' | 'lat' | 'lon' | 'course' | 'distance';
+
+const LOG_COLUMNS: { key: LogSortKey; label: string; value: (row: NavigationLogRow) => number | null }[] = [
+  { key: 'index', label: '#', value: row => row.index },
+  { key: 'lat', label: 'Lat', value: row => row.coords.lat },
+  { key: 'lon', label: 'Lon', value: row => row.coords.lon },
+  { key: 'course', label: 'Course', value: row => row.course },
+  { key: 'distance', label: 'Leg', value: row => row.distance },
+];
+
+/** The great circle of each leg broken into rhumb-line legs, as a table that sorts by any column and downloads as CSV. */
+const NavigationLogPanel: React.FC<{ legs: RouteLeg[]; earthModel: EarthModel; preferences: DisplayPreferences }> = ({ legs, earthModel, preferences }) => {
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<NavigationLogSpacing['mode']>('longitude');
+  const [step, setStep] = useState<string>(DEFAULT_LOG_STEP.longitude);
+  const [sort, setSort] = useState<{ key: LogSortKey; ascending: boolean }>({ key: 'index', ascending: true });
+
+  const { log, error } = useMemo(() => {
+    if (!open) return { log: null, error: null };
+    const amount = parseFloat(step);
+    const spacing: NavigationLogSpacing = mode === 'longitude' ? { mode, interval: amount } : { mode, spacing: toKilometers(amount, preferences.distanceUnit) };
+    try {
+      return { log: buildNavigationLog(legs, spacing, earthModel), error: null };
+    } catch (err) {
+      return { log: null, error: err instanceof Error ? err.message : 'Could not build the log.' };
+    }
+  }, [open, legs, earthModel, mode, step, preferences.distanceUnit]);
+
+  const column = LOG_COLUMNS.find(c => c.key === sort.key)!;
+  // Rows without a value, i.e. the last waypoint's course and leg, stay at the bottom either way.
+  const rows = log ? [...log.rows].sort((a, b) => {
+    const [x, y] = [column.value(a), column.value(b)];
+    if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+    return sort.ascending ? x - y : y - x;
+  }) : [];
+  const excess = log ? log.total - log.greatCircleDistance : 0;
+
+  const handleModeChange = (next: NavigationLogSpacing['mode']) => {
+    setMode(next);
+    setStep(DEFAULT_LOG_STEP[next]);
+  };
+
+  const handleSort = (key: LogSortKey) => setSort(current => ({ key, ascending: current.key === key ? !current.ascending : true }));
+
+  const handleDownload = () => {
+    if (!log) return;
+    const file = navigationLogToCsv(log, preferences);
+    downloadFile(file.filename, file.mimeType, file.content);
+  };
+
+  return (
+    <div className="bg-gray-900/50 p-3 rounded-md space-y-2">
+      <label className="flex items-center gap-2 font-bold text-gray-300">
+        <input type="checkbox" checked={open} onChange={(e) => setOpen(e.target.checked)} className="accent-cyan-500" />
+        Navigation Log
+      </label>
+      {open && (
+        <>
+          <div className="flex gap-2 items-center">
+            <select
+              aria-label="Waypoint spacing"
+              value={mode}
+              onChange={(e) => handleModeChange(e.target.value as NavigationLogSpacing['mode'])}
+              className="bg-gray-900 border border-gray-600 rounded-md p-1.5 text-white text-sm"
+            >
+              <option value="longitude">Every meridian of</option>
+              <option value="distance">Waypoint every</option>
+            </select>
+            <input
+              aria-label={mode === 'longitude' ? 'Longitude interval in degrees' : 'Waypoint spacing'}
+              type="number"
+              min="0"
+              step="any"
+              value={step}
+              onChange={(e) => setStep(e.target.value)}
+              className="min-w-0 flex-1 bg-gray-900 border border-gray-600 rounded-md p-1.5 text-white text-sm"
+            />
+            <span className="text-xs text-gray-400">{mode === 'longitude' ? '°' : DISTANCE_UNIT_LABELS[preferences.distanceUnit]}</span>
+          </div>
+          {error && <p className="text-xs text-red-300">{error}</p>}
+          {log && (
+            <>
+              <div className="max-h-64 overflow-y-auto">
+                <table className="w-full text-xs">
+                  <thead className="sticky top-0 bg-gray-900">
+                    <tr className="text-gray-400">
+                      {LOG_COLUMNS.map(({ key, label }) => (
+                        <th key={key} className={`${key === 'index' ? 'text-left' : 'text-right'} font-semibold`}>
+                          <button type="button" onClick={() => handleSort(key)} className="hover:text-gray-200">
+                            {label}{sort.key === key ? (sort.ascending ? ' ▲' : ' ▼') : ''}
+                          </button>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="text-gray-200">
+                    {rows.map(row => (
+                      <tr key={row.index} className={row.name !== null ? 'text-cyan-300' : undefined} title={row.name ?? undefined}>
+                        <td>{row.index}</td>
+                        <td className="text-right">{formatLatitude(row.coords.lat, preferences)}</td>
+                        <td className="text-right">{formatLongitude(row.coords.lon, preferences)}</td>
+                        <td className="text-right">{row.course === null ? '' : formatBearing(row.course, row.coords, preferences)}</td>
+                        <td className="text-right">{row.distance === null ? '' : formatDistance(row.distance, preferences)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-gray-400">
+                {`${log.rows.length - 1} rhumb-line legs: ${formatDistance(log.total, preferences)} · great circle ${formatDistance(log.greatCircleDistance, preferences)}`}
+                <span className="text-amber-300">{` (+${formatDistance(excess, preferences, 1)})`}</span>
+              </p>
+              <button
+                type="button"
+                onClick={handleDownload}
+                className="px-3 py-1.5 text-sm font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200 transition"
+              >
+                Download CSV
+              </button>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+const SPEED_UNIT_LABELS: Record<SpeedUnit, string> = {
+  kn: 'knots',
+  kmh: 'km/h',
+  mach: 'Mach',
+};
+
+const formatDuration = (hours: number) => {
+  const minutes = Math.round(hours * 60);
+  const days = Math.floor(minutes / 1440);
+  const time = `${Math.floor(minutes / 60) % 24} h ${String(minutes % 60).padStart(2, '0')} min`;
+  return days > 0 ? `${days} d ${time}` : time;
+};
+
+const formatZonedDate = (date: Date, timeZone: string) =>
+  new Intl.DateTimeFormat('en-GB', { timeZone, weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit', timeZoneName: 'short' }).format(date);
+
+/** Time en route and arrival at a cruise speed, departing at a local time at the start of the route. */
+const TravelTimeEstimator: React.FC<{ legs: RouteLeg[] }> = ({ legs }) => {
+  const [speed, setSpeed] = useState<string>('480');
+  const [unit, setUnit] = useState<SpeedUnit>('kn');
+  const departureTimeZone = timeZoneAt(legs[0].from.coords);
+  const [departure, setDeparture] = useState<string>(() => dateToZonedTime(new Date(), departureTimeZone));
+
+  const departureDate = zonedTimeToDate(departure, departureTimeZone);
+  const estimate = departureDate ? estimateTravel(legs, speedToKmh(parseFloat(speed), unit), departureDate) : null;
+  const difference = estimate ? estimate.rhumbLineHours - estimate.greatCircleHours : 0;
+
+  return (
+    <div className="bg-gray-900/50 p-3 rounded-md space-y-2">
+      <p className="font-bold text-gray-300">Travel Time</p>
+      <div className="flex gap-2">
+        <input
+          type="number"
+          aria-label="Cruise speed"
+          min={0}
+          step="any"
+          value={speed}
+          onChange={(e) => setSpeed(e.target.value)}
+          className="min-w-0 flex-1 bg-gray-900 border border-gray-600 rounded-md p-1.5 text-white text-sm"
+        />
+        <select
+          aria-label="Speed unit"
+          value={unit}
+          onChange={(e) => setUnit(e.target.value as SpeedUnit)}
+          className="bg-gray-900 border border-gray-600 rounded-md p-1.5 text-white text-sm"
+        >
+          {(Object.keys(SPEED_UNIT_LABELS) as SpeedUnit[]).map(id => (
+            <option key={id} value={id}>{SPEED_UNIT_LABELS[id]}</option>
+          ))}
+        </select>
+      </div>
+      <label className="block text-xs text-gray-400">
+        {`Departure, local time (${departureTimeZone})`}
+        <input
+          type="datetime-local"
+          value={departure}
+          onChange={(e) => setDeparture(e.target.value)}
+          className="mt-1 w-full bg-gray-900 border border-gray-600 rounded-md p-1.5 text-white text-sm"
+        />
+      </label>
+      {estimate ? (
+        <div className="text-xs text-gray-400 space-y-1">
+          <p>Time en route: <span className="text-cyan-300 font-semibold">{formatDuration(estimate.hours)}</span></p>
+          <p>
+            Arrival: <span className="text-gray-200">{formatZonedDate(estimate.arrival, estimate.arrivalTimeZone)}</span>
+            {` (${estimate.arrivalTimeZone})`}
+          </p>
+          <p>
+            {`Great circle ${formatDuration(estimate.greatCircleHours)} · Rhumb line ${formatDuration(estimate.rhumbLineHours)}`}
+            {difference > 0 ? ` (+${formatDuration(difference)})` : ''}
+          </p>
+        </div>
+      ) : (
+        <p className="text-xs text-red-300">Enter a positive speed and a departure time.</p>
+      )}
+    </div>
+  );
+};
+
+const DISTANCE_UNIT_NAMES: Record<DistanceUnit, string> = {
+  km: 'Kilometers',
+  nm: 'Nautical miles',
+  mi: 'Statute miles',
+};
+
+const BEARING_REFERENCE_LABELS: Record<BearingReference, string> = {
+  true: 'True',
+  magnetic: 'Magnetic',
+};
+
+const COORDINATE_FORMAT_LABELS: Record<CoordinateFormat, string> = {
+  decimal: 'Decimal °',
+  dms: 'D° M′ S″',
+  ddm: 'D° M.m′',
+};
+
+interface DisplayPreferencesSelectorProps {
+  preferences: DisplayPreferences;
+  onPreferencesChange: (preferences: DisplayPreferences) => void;
+}
+
+/** Units for distances, the north bearings are measured from, and the notation for coordinates, everywhere they are shown. */
+const DisplayPreferencesSelector: React.FC<DisplayPreferencesSelectorProps> = ({ preferences, onPreferencesChange }) => {
+  const selectClass = 'w-full bg-gray-900 border border-gray-600 rounded-md p-1.5 text-white text-sm';
+  return (
+    <div className="mb-3 grid grid-cols-3 gap-2">
+      <label className="block text-xs text-gray-400">
+        Distances
+        <select
+          value={preferences.distanceUnit}
+          onChange={(e) => onPreferencesChange({ ...preferences, distanceUnit: e.target.value as DistanceUnit })}
+          className={`mt-1 ${selectClass}`}
+        >
+          {(Object.keys(DISTANCE_UNIT_NAMES) as DistanceUnit[]).map(id => (
+            <option key={id} value={id}>{DISTANCE_UNIT_NAMES[id]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="block text-xs text-gray-400">
+        Bearings
+        <select
+          value={preferences.bearingReference}
+          onChange={(e) => onPreferencesChange({ ...preferences, bearingReference: e.target.value as BearingReference })}
+          className={`mt-1 ${selectClass}`}
+        >
+          {(Object.keys(BEARING_REFERENCE_LABELS) as BearingReference[]).map(id => (
+            <option key={id} value={id}>{BEARING_REFERENCE_LABELS[id]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="block text-xs text-gray-400">
+        Coordinates
+        <select
+          value={preferences.coordinateFormat}
+          onChange={(e) => onPreferencesChange({ ...preferences, coordinateFormat: e.target.value as CoordinateFormat })}
+          className={`mt-1 ${selectClass}`}
+        >
+          {(Object.keys(COORDINATE_FORMAT_LABELS) as CoordinateFormat[]).map(id => (
+            <option key={id} value={id}>{COORDINATE_FORMAT_LABELS[id]}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+interface EarthModelSelectorProps {
+  earthModel: EarthModel;
+  onEarthModelChange: (model: EarthModel) => void;
+}
+
+const EarthModelSelector: React.FC<EarthModelSelectorProps> = ({ earthModel, onEarthModelChange }) => {
+  const [semiMajorAxis, setSemiMajorAxis] = useState<string>(String(earthModel.a));
+  const [inverseFlattening, setInverseFlattening] = useState<string>(earthModel.f ? String(1 / earthModel.f) : '0');
+  const [customError, setCustomError] = useState<string | null>(null);
+
+  const applyCustom = (aText: string, invFText: string) => {
+    try {
+      const model = createCustomEarthModel(parseFloat(aText), parseFloat(invFText));
+      setCustomError(null);
+      onEarthModelChange(model);
+    } catch (err) {
+      setCustomError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleSelect = (id: EarthModelId) => {
+    if (id === 'custom') {
+      applyCustom(semiMajorAxis, inverseFlattening);
+    } else {
+      setCustomError(null);
+      onEarthModelChange(EARTH_MODELS[id]);
+    }
+  };
+
+  return (
+    <div className="mb-3 space-y-2">
+      <label htmlFor="earth-model" className="block text-sm font-medium text-gray-300 mb-1">Earth Model</label>
+      <select
+        id="earth-model"
+        value={earthModel.id}
+        onChange={(e) => handleSelect(e.target.value as EarthModelId)}
+        className="w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-white text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition"
+      >
+        {(Object.keys(EARTH_MODEL_LABELS) as EarthModelId[]).map(id => (
+          <option key={id} value={id}>{EARTH_MODEL_LABELS[id]}</option>
+        ))}
+      </select>
+      {earthModel.id === 'custom' && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label htmlFor="earth-a" className="block text-xs text-gray-400 mb-1">Semi-major axis (km)</label>
+            <input
+              id="earth-a"
+              type="number"
+              step="any"
+              value={semiMajorAxis}
+              onChange={(e) => { setSemiMajorAxis(e.target.value); applyCustom(e.target.value, inverseFlattening); }}
+              className="w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-white text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition"
+            />
+          </div>
+          <div>
+            <label htmlFor="earth-inv-f" className="block text-xs text-gray-400 mb-1">Inverse flattening (1/f)</label>
+            <input
+              id="earth-inv-f"
+              type="number"
+              step="any"
+              value={inverseFlattening}
+              onChange={(e) => { setInverseFlattening(e.target.value); applyCustom(semiMajorAxis, e.target.value); }}
+              className="w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-white text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition"
+            />
+          </div>
+        </div>
+      )}
+      {customError && <p className="text-xs text-red-300">{customError}</p>}
+    </div>
+  );
+};
+
+export const ControlPanel: React.FC<ControlPanelProps> = ({ onVisualize, onImportFile, isLoading, error, points, legs, pathType, onPathTypeChange, onLegPathTypeChange, compare, onCompareChange, comparison, limitingLatitude, onLimitingLatitudeChange, earthModel, onEarthModelChange, checkPosition, onCheckPositionChange, crossTrack, pickingPosition, onPickingPositionChange, rangeRings, onRangeRingsChange, rangeOverlay, crossingPath, onCrossingPathChange, crossings, preferences, onPreferencesChange }) => {
+  const [stops, setStops] = useState<Stop[]>(() => [createStop('Paris, France'), createStop('New York, USA')]);
+  const previousPointsRef = useRef<LocationPoint[] | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImportFile(file);
+    // Allow picking the same file again after editing it.
+    e.target.value = '';
+  };
+
+  // Waypoints placed or dragged on the map show up in their fields as coordinates.
+  useEffect(() => {
+    const previous = previousPointsRef.current;
+    previousPointsRef.current = points;
+    if (!points) return;
+    setStops(current => {
+      const next = points.length >= 2 && points.length !== current.length
+        ? points.map((_, i) => current[i] ?? createStop(''))
+        : [...current];
+      points.forEach((point, i) => {
+        if (previous?.[i] !== point) next[i] = { ...next[i], query: point.name };
+      });
+      return next;
+    });
+  }, [points]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onVisualize(from, to);
+    onVisualize(stops.map(stop => stop.query.trim()));
+  };
+
+  const updateStop = (index: number, query: string) => {
+    setStops(current => current.map((stop, i) => (i === index ? { ...stop, query } : stop)));
   };
 
+  const insertStop = (index: number) => {
+    setStops(current => [...current.slice(0, index), createStop(''), ...current.slice(index)]);
+  };
+
+  const removeStop = (index: number) => {
+    setStops(current => (current.length > 2 ? current.filter((_, i) => i !== index) : current));
+  };
+
+  const moveStop = (index: number, offset: number) => {
+    setStops(current => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) return current;
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const totalDistance = legs && legs.length > 0 ? legs[legs.length - 1].cumulativeDistance : null;
+  const routeTypes = legs ? new Set(legs.map(leg => leg.pathType)) : new Set<PathType>();
+  const totalLabel = routeTypes.size !== 1 ? 'Mixed' : routeTypes.has('orthodromic') ? 'Great-Circle' : routeTypes.has('loxodromic') ? 'Rhumb Line' : 'Composite';
+  const showLimitingLatitude = pathType === 'composite' || routeTypes.has('composite');
+
   return (
     <div className="bg-gray-800/50 backdrop-blur-sm p-6 rounded-lg shadow-2xl border border-gray-700 h-full flex flex-col">
       <form onSubmit={handleSubmit} className="space-y-4">
-        <div>
-          <label htmlFor="from" className="block text-sm font-medium text-gray-300 mb-1">From</label>
-          <input
-            id="from"
-            type="text"
-            value={from}
-            onChange={(e) => setFrom(e.target.value)}
-            placeholder="e.g., London, UK"
-            className="w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition"
-            disabled={isLoading}
-          />
-        </div>
-        <div>
-          <label htmlFor="to" className="block text-sm font-medium text-gray-300 mb-1">To</label>
-          <input
-            id="to"
-            type="text"
-            value={to}
-            onChange={(e) => setTo(e.target.value)}
-            placeholder="e.g., Tokyo, Japan"
-            className="w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition"
-            disabled={isLoading}
-          />
+        <div className="space-y-3">
+          {stops.map((stop, index) => (
+            <div key={stop.id}>
+              <label htmlFor={`stop-${stop.id}`} className="block text-sm font-medium text-gray-300 mb-1">{stopLabel(index, stops.length)}</label>
+              <div className="flex gap-1">
+                <input
+                  id={`stop-${stop.id}`}
+                  type="text"
+                  value={stop.query}
+                  onChange={(e) => updateStop(index, e.target.value)}
+                  placeholder={index === 0 ? 'e.g., London, UK or 51°30\'N 0°7\'W' : 'e.g., Tokyo, Japan or 35.68, 139.69'}
+                  className="min-w-0 flex-1 bg-gray-900 border border-gray-600 rounded-md p-2 text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition"
+                  disabled={isLoading}
+                />
+                <button type="button" title="Move up" onClick={() => moveStop(index, -1)} disabled={isLoading || index === 0} className="px-2 text-gray-400 hover:text-white disabled:text-gray-700 transition">↑</button>
+                <button type="button" title="Move down" onClick={() => moveStop(index, 1)} disabled={isLoading || index === stops.length - 1} className="px-2 text-gray-400 hover:text-white disabled:text-gray-700 transition">↓</button>
+                <button type="button" title="Insert waypoint after" onClick={() => insertStop(index + 1)} disabled={isLoading} className="px-2 text-gray-400 hover:text-cyan-300 disabled:text-gray-700 transition">+</button>
+                <button type="button" title="Remove waypoint" onClick={() => removeStop(index)} disabled={isLoading || stops.length <= 2} className="px-2 text-gray-400 hover:text-red-400 disabled:text-gray-700 transition">✕</button>
+              </div>
+              <CoordinateHint query={stop.query} />
+            </div>
+          ))}
         </div>
         
         <div>
@@ -72,13 +1085,51 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({ onVisualize, isLoadi
               type="button"
               onClick={() => onPathTypeChange('loxodromic')}
               disabled={isLoading}
-              className={`flex-1 px-4 py-2 text-sm font-medium rounded-r-md transition ${pathType === 'loxodromic' ? 'bg-cyan-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300 disabled:bg-gray-800 disabled:text-gray-500'}`}
+              className={`flex-1 px-4 py-2 text-sm font-medium transition ${pathType === 'loxodromic' ? 'bg-cyan-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300 disabled:bg-gray-800 disabled:text-gray-500'}`}
             >
               Rhumb Line
             </button>
+            <button
+              type="button"
+              onClick={() => onPathTypeChange('composite')}
+              disabled={isLoading}
+              className={`flex-1 px-4 py-2 text-sm font-medium rounded-r-md transition ${pathType === 'composite' ? 'bg-cyan-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300 disabled:bg-gray-800 disabled:text-gray-500'}`}
+            >
+              Composite
+            </button>
           </div>
+          <label className="flex items-center gap-2 mt-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={compare}
+              onChange={(e) => onCompareChange(e.target.checked)}
+              disabled={isLoading}
+              className="accent-cyan-500"
+            />
+            Overlay great circle and rhumb line
+          </label>
         </div>
 
+        {showLimitingLatitude && (
+          <div>
+            <label htmlFor="limiting-latitude" className="block text-sm font-medium text-gray-300 mb-1">Limiting Latitude (°)</label>
+            <input
+              id="limiting-latitude"
+              type="number"
+              min={0}
+              max={89}
+              step="any"
+              value={limitingLatitude}
+              onChange={(e) => {
+                const latitude = parseFloat(e.target.value);
+                if (latitude >= 0 && latitude < 90) onLimitingLatitudeChange(latitude);
+              }}
+              className="w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-white focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition"
+              disabled={isLoading}
+            />
+          </div>
+        )}
+
         <div className="relative">
           <button
             type="submit"
@@ -89,30 +1140,96 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({ onVisualize, isLoadi
           </button>
           {isLoading && <LoadingSpinner />}
         </div>
+
+        <div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".geojson,.json,.gpx,.kml,application/geo+json,application/gpx+xml,application/vnd.google-earth.kml+xml"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading}
+            className="w-full bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-500 text-gray-200 text-sm font-medium py-2 px-4 rounded-md transition"
+          >
+            Import Route File…
+          </button>
+          <p className="text-xs text-gray-500 mt-1 text-center">GeoJSON, GPX or KML — or drop a file on the map.</p>
+        </div>
       </form>
 
       {error && <div className="mt-4 p-3 bg-red-900/50 border border-red-700 text-red-300 rounded-md text-sm">{error}</div>}
 
       <div className="mt-6 pt-6 border-t border-gray-700 flex-grow">
         <h3 className="text-lg font-semibold text-cyan-400 mb-3">Path Details</h3>
-        {points && distance !== null ? (
+        <EarthModelSelector earthModel={earthModel} onEarthModelChange={onEarthModelChange} />
+        <DisplayPreferencesSelector preferences={preferences} onPreferencesChange={onPreferencesChange} />
+        {points && legs && totalDistance !== null ? (
           <div className="space-y-3 text-sm">
-            <div className="bg-gray-900/50 p-3 rounded-md">
-              <p className="font-bold text-gray-300">Start: <span className="font-normal text-white">{points[0].name}</span></p>
-              <p className="text-gray-400">{`(${points[0].coords.lat.toFixed(4)}, ${points[0].coords.lon.toFixed(4)})`}</p>
-            </div>
-            <div className="bg-gray-900/50 p-3 rounded-md">
-              <p className="font-bold text-gray-300">End: <span className="font-normal text-white">{points[1].name}</span></p>
-              <p className="text-gray-400">{`(${points[1].coords.lat.toFixed(4)}, ${points[1].coords.lon.toFixed(4)})`}</p>
-            </div>
+            <ol className="space-y-2">
+              {points.map((point, index) => (
+                <li key={index}>
+                  <div className="bg-gray-900/50 p-3 rounded-md">
+                    <p className="font-bold text-gray-300">{index === 0 ? 'Start' : index === points.length - 1 ? 'End' : `Via ${index}`}: <span className="font-normal text-white">{point.name}</span></p>
+                    <p className="text-gray-400">{`(${formatCoordinates(point.coords, preferences)})`}</p>
+                    <SourceBadge point={point} />
+                  </div>
+                  {index < legs.length && (
+                    <div className="flex items-center justify-between gap-2 pl-3 py-1 text-xs text-gray-400">
+                      <select
+                        aria-label={`Leg ${index + 1} path type`}
+                        value={legs[index].pathType}
+                        onChange={(e) => onLegPathTypeChange(index, e.target.value as PathType)}
+                        className="bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-gray-200"
+                      >
+                        {(Object.keys(PATH_TYPE_LABELS) as PathType[]).map(type => (
+                          <option key={type} value={type}>{PATH_TYPE_LABELS[type]}</option>
+                        ))}
+                      </select>
+                      <span>{formatDistance(legs[index].distance, preferences)} · Σ {formatDistance(legs[index].cumulativeDistance, preferences)}</span>
+                    </div>
+                  )}
+                  {index < legs.length && legs[index].pathType === 'composite' && (
+                    <CompositeBreakdown composite={legs[index].composite} limitingLatitude={limitingLatitude} preferences={preferences} />
+                  )}
+                </li>
+              ))}
+            </ol>
             <div className="bg-cyan-900/30 p-4 rounded-md text-center">
-              <p className="text-gray-300 text-base">{pathType === 'orthodromic' ? 'Great-Circle' : 'Rhumb Line'} Distance</p>
-              <p className="text-2xl font-bold text-cyan-300 mt-1">{distance.toLocaleString('en-US', { maximumFractionDigits: 0 })} km</p>
+              <p className="text-gray-300 text-base">{`${totalLabel}${legs.length > 1 ? ' Route' : ''} Distance`}</p>
+              <p className="text-2xl font-bold text-cyan-300 mt-1">{formatDistance(totalDistance, preferences)}</p>
+              <p className="text-xs text-gray-400 mt-1">{earthModel.f === 0 ? `Sphere, R = ${earthModel.a.toLocaleString('en-US')} km` : `a = ${earthModel.a.toLocaleString('en-US')} km, 1/f = ${(1 / earthModel.f).toFixed(6)}`}</p>
             </div>
+            {comparison && comparison.length > 0 && <ComparisonSummary comparison={comparison} preferences={preferences} />}
+            {legs.map((leg, index) => (
+              <div key={index} className="bg-gray-900/50 p-3 rounded-md">
+                {legs.length > 1 && (
+                  <p className="font-bold text-gray-300 mb-2">Leg {index + 1}: <span className="font-normal text-white">{leg.from.name} → {leg.to.name}</span></p>
+                )}
+                <CourseDetails course={leg.course} from={leg.from.coords} to={leg.to.coords} preferences={preferences} />
+              </div>
+            ))}
+            <TravelTimeEstimator legs={legs} />
+            <PositionCheck
+              legs={legs}
+              position={checkPosition}
+              onPositionChange={onCheckPositionChange}
+              crossTrack={crossTrack}
+              picking={pickingPosition}
+              onPickingChange={onPickingPositionChange}
+              preferences={preferences}
+            />
+            <RangeRingsPanel points={points} rings={rangeRings} onRingsChange={onRangeRingsChange} reach={rangeOverlay?.reach ?? null} preferences={preferences} />
+            <CrossingPathPanel legCount={legs.length} path={crossingPath} onPathChange={onCrossingPathChange} crossings={crossings} preferences={preferences} />
+            <NavigationLogPanel legs={legs} earthModel={earthModel} preferences={preferences} />
+            <ExportMenu legs={legs} earthModel={earthModel} preferences={preferences} />
           </div>
         ) : (
           <div className="text-center text-gray-500 pt-8">
-            <p>Enter two locations and click "Visualize" to see the magic happen.</p>
+            <p>Enter two or more locations and click "Visualize" to see the magic happen.</p>
           </div>
         )}
       </div>
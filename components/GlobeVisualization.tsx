@@ -1,20 +1,130 @@
 import React, { useRef, useEffect } from 'react';
 import * as d3 from 'd3';
-import * as topojson from 'topojson-client';
-import type { Coordinates, PathType } from '../types';
-import type { FeatureCollection, LineString } from 'geojson';
+import type { Coordinates, DisplayPreferences, EarthModel, GlobeView, PathType, PlacementTarget, RouteCrossTrack, VehicleKind } from '../types';
+import { formatDistance } from '../utils/displayFormat';
+import type { PathComparison } from '../utils/pathComparison';
+import type { RouteCrossings } from '../utils/pathIntersection';
+import { DEFAULT_PREFERENCES } from '../utils/preferences';
+import type { RangeOverlay } from '../utils/rangeRings';
+import { projectedHeading } from '../utils/mapProjections';
+import { densifyPath, DISPLAY_DENSIFY, nearestPointOnPath, pathSpec, pathToGeoJson } from '../utils/pathGeometry';
+import type { LonLat, PathHit, RouteProbe, RoutePosition } from '../utils/pathGeometry';
+import { VEHICLE_ICONS } from './PlaybackControls';
+import { appendCrossTrackMarkers, appendProbeMarker } from './probeMarker';
+import { basemapResolutionForZoom, loadBasemap } from '../services/basemap';
+import type { BasemapResolution } from '../services/basemap';
 
 interface GlobeVisualizationProps {
-  points: [Coordinates, Coordinates] | null;
-  pathType: PathType;
+  points: Coordinates[] | null;
+  legPathTypes: PathType[];
+  limitingLatitude: number;
+  earthModel: EarthModel;
+  /** Called with the clicked position; shift-click targets the start point. */
+  onMapClick?: (coords: Coordinates, target: PlacementTarget) => void;
+  /** When given, a click picks a position with this instead of placing a waypoint. */
+  onPositionPick?: (coords: Coordinates) => void;
+  /** Called continuously while a waypoint is dragged. */
+  onWaypointMove?: (index: number, coords: Coordinates) => void;
+  /** Rotation and zoom to start from instead of fitting the route. */
+  initialView?: GlobeView;
+  /** Called whenever the globe is rotated or zoomed. */
+  onViewChange?: (view: GlobeView) => void;
+  /** Each leg's great circle against its rhumb line, drawn instead of the route when given. */
+  comparison?: PathComparison[] | null;
+  /** The animated vehicle, where it is on the route and which kind to draw. */
+  vehicle?: { position: RoutePosition; kind: VehicleKind } | null;
+  /** Turns the globe to keep the vehicle in the middle. */
+  followVehicle?: boolean;
+  /** A point to mark on the route, e.g. the one hovered in another view. */
+  highlight?: RouteProbe | null;
+  /** A checked position, joined to the closest point of the route by the perpendicular to it. */
+  crossTrack?: { position: Coordinates; result: RouteCrossTrack } | null;
+  /** Range rings, drawn under the route. */
+  rangeOverlay?: RangeOverlay | null;
+  /** A second path, with where it crosses the route marked. */
+  crossings?: RouteCrossings | null;
+  /** Called with the point of the route under the pointer, or null when the pointer leaves it. */
+  onPathHover?: (hit: PathHit | null) => void;
+  /** Turns the globe to face this point. */
+  centre?: Coordinates;
+  /** Called when the user turns the globe, with the point it now faces. */
+  onCentreChange?: (centre: Coordinates) => void;
+  /** How distances, bearings and coordinates are labelled; the defaults when not given. */
+  preferences?: DisplayPreferences;
 }
 
-const WORLD_ATLAS_URL = 'https://cdn.jsdelivr.net/npm/world-atlas@2/countries-110m.json';
+const separationLabel = (distance: number, preferences: DisplayPreferences) => `${formatDistance(distance, preferences)} apart`;
 
-export const GlobeVisualization: React.FC<GlobeVisualizationProps> = ({ points, pathType }) => {
+/** How close (in pixels) the pointer must come to the route to hover it. */
+const HOVER_DISTANCE = 10;
+
+/** Moves the markers pinned to coordinates to where the globe now shows them, hiding those on the far side. */
+const placeMarkers = (svg: d3.Selection<SVGSVGElement, unknown, null, undefined>, projection: d3.GeoProjection) => {
+    const [lambda, phi] = projection.rotate();
+    const visibility = (d: LonLat) => d3.geoDistance(d, [-lambda, -phi]) <= Math.PI / 2 ? 'inline' : 'none';
+    svg.selectAll<SVGCircleElement, LonLat>('.endpoint, .range-reach, .crossing-point')
+       .each(function(d) {
+            const projected = projection(d);
+            d3.select(this)
+              .attr('cx', projected ? projected[0] : null)
+              .attr('cy', projected ? projected[1] : null)
+              .style('display', visibility(d));
+        });
+    svg.selectAll<SVGGElement, LonLat>('.hover-marker, .cross-track-marker')
+       .each(function(d) {
+            const projected = projection(d);
+            d3.select(this)
+              .attr('transform', projected ? `translate(${projected[0]},${projected[1]})` : null)
+              .style('display', projected ? visibility(d) : 'none');
+        });
+    svg.selectAll<SVGTextElement, LonLat>('.separation-label, .range-label')
+       .each(function(d) {
+            const projected = projection(d);
+            d3.select(this)
+              .attr('x', projected ? projected[0] : null)
+              .attr('y', projected ? projected[1] : null)
+              .style('display', visibility(d));
+        });
+    svg.selectAll<SVGPolygonElement, RoutePosition>('.vehicle')
+       .each(function(d) {
+            const projected = projection(d.coords);
+            const angle = projectedHeading(projection, d.coords, d.heading);
+            d3.select(this)
+              .attr('transform', projected && angle !== null ? `translate(${projected[0]},${projected[1]}) rotate(${angle})` : null)
+              .style('display', projected && angle !== null ? visibility(d.coords) : 'none');
+        });
+};
+
+export const GlobeVisualization: React.FC<GlobeVisualizationProps> = ({ points, legPathTypes, limitingLatitude, earthModel, onMapClick, onPositionPick, onWaypointMove, initialView, onViewChange, comparison, vehicle, followVehicle, highlight, crossTrack, rangeOverlay, crossings, onPathHover, centre, onCentreChange, preferences = DEFAULT_PREFERENCES }) => {
   const svgRef = useRef<SVGSVGElement | null>(null);
   const projectionRef = useRef<d3.GeoProjection | null>(null);
-  
+  const routeLinesRef = useRef<LonLat[][]>([]);
+  const onMapClickRef = useRef(onMapClick);
+  const onPositionPickRef = useRef(onPositionPick);
+  const onWaypointMoveRef = useRef(onWaypointMove);
+  const onViewChangeRef = useRef(onViewChange);
+  const onPathHoverRef = useRef(onPathHover);
+  const onCentreChangeRef = useRef(onCentreChange);
+  const preferencesRef = useRef(preferences);
+  // Edits made on the globe itself redraw in place instead of replaying the intro animation.
+  const draggingRef = useRef(false);
+  const pendingEditRef = useRef(false);
+  onMapClickRef.current = onMapClick;
+  onPositionPickRef.current = onPositionPick;
+  onWaypointMoveRef.current = onWaypointMove;
+  onViewChangeRef.current = onViewChange;
+  onPathHoverRef.current = onPathHover;
+  onCentreChangeRef.current = onCentreChange;
+  preferencesRef.current = preferences;
+
+  const reportView = () => {
+    if (!svgRef.current || !projectionRef.current) return;
+    onViewChangeRef.current?.({
+      rotation: projectionRef.current.rotate(),
+      zoom: d3.zoomTransform(svgRef.current).k,
+    });
+  };
+
   useEffect(() => {
     if (!svgRef.current) return;
     
@@ -48,22 +158,36 @@ export const GlobeVisualization: React.FC<GlobeVisualizationProps> = ({ points,
         .attr('fill', 'none')
         .attr('stroke', 'rgba(75, 85, 99, 0.5)');
 
-    const countriesGroup = svg.append('g').attr('class', 'countries');
+    const basemapGroup = svg.append('g').attr('class', 'basemap');
+    let requestedResolution: BasemapResolution | null = null;
+    let disposed = false;
 
-    d3.json<any>(WORLD_ATLAS_URL).then(world => {
-      if (!world || !world.objects || !world.objects.countries) {
-        console.error("Invalid TopoJSON data loaded from " + WORLD_ATLAS_URL);
-        return;
-      }
-      const land = topojson.feature(world, world.objects.countries) as unknown as FeatureCollection;
-      countriesGroup.selectAll('path')
-        .data(land.features)
-        .enter().append('path')
-        .attr('d', pathGenerator as any)
-        .attr('fill', '#374151')
-        .attr('stroke', '#4b5563')
-        .attr('stroke-width', 0.3);
-    });
+    const showBasemap = (resolution: BasemapResolution) => {
+      if (resolution === requestedResolution) return;
+      requestedResolution = resolution;
+      loadBasemap(resolution).then(basemap => {
+        if (disposed || resolution !== requestedResolution || !projectionRef.current) return;
+        const path = d3.geoPath().projection(projectionRef.current);
+        basemapGroup.selectAll('*').remove();
+        basemapGroup.append('path')
+          .datum(basemap.land)
+          .attr('d', path as any)
+          .attr('fill', '#374151');
+        basemapGroup.append('path')
+          .datum(basemap.borders)
+          .attr('d', path as any)
+          .attr('fill', 'none')
+          .attr('stroke', '#4b5563')
+          .attr('stroke-width', 0.3);
+        basemapGroup.append('path')
+          .datum(basemap.coastlines)
+          .attr('d', path as any)
+          .attr('fill', 'none')
+          .attr('stroke', '#4b5563')
+          .attr('stroke-width', 0.3);
+      }).catch(error => console.error(error));
+    };
+    showBasemap('110m');
 
     const redrawElements = () => {
         const currentProjection = projectionRef.current;
@@ -71,18 +195,7 @@ export const GlobeVisualization: React.FC<GlobeVisualizationProps> = ({ points,
         
         const path = d3.geoPath().projection(currentProjection);
         svg.selectAll<SVGPathElement, any>("path").attr("d", path);
-        
-        svg.selectAll<SVGCircleElement, [number, number]>(".endpoint")
-           .each(function(d) {
-                const projected = currentProjection(d);
-                const gdistance = d3.geoDistance(d, [-currentProjection.rotate()[0], -currentProjection.rotate()[1]]);
-                const isVisible = gdistance <= Math.PI / 2;
-
-                d3.select(this)
-                  .attr('cx', projected ? projected[0] : null)
-                  .attr('cy', projected ? projected[1] : null)
-                  .style('display', isVisible ? 'inline' : 'none');
-            });
+        placeMarkers(svg, currentProjection);
     };
     
     const dragBehavior = d3.drag<SVGSVGElement, unknown>()
@@ -95,6 +208,9 @@ export const GlobeVisualization: React.FC<GlobeVisualizationProps> = ({ points,
                 rotate[1] - event.dy * k * 100
             ]);
             redrawElements();
+            reportView();
+            const [lambda, phi] = projectionRef.current.rotate();
+            onCentreChangeRef.current?.({ lat: -phi, lon: -lambda });
         });
 
     const zoomBehavior = d3.zoom<SVGSVGElement, unknown>()
@@ -103,11 +219,49 @@ export const GlobeVisualization: React.FC<GlobeVisualizationProps> = ({ points,
             if (!projectionRef.current) return;
             projectionRef.current.scale(Math.min(width, height) / 2.2 * event.transform.k);
             redrawElements();
-        });
+            reportView();
+        })
+        .on('zoom.basemap', (event) => showBasemap(basemapResolutionForZoom(event.transform.k)));
         
-    svg.call(dragBehavior).call(zoomBehavior);
+    svg.call(dragBehavior).call(zoomBehavior).on('dblclick.zoom', null);
+
+    if (initialView) {
+        projection.rotate(initialView.rotation);
+        svg.call(zoomBehavior.transform, d3.zoomIdentity.scale(initialView.zoom));
+        // Keep the restored view instead of rotating to the route.
+        pendingEditRef.current = true;
+    }
+
+    svg.on('click', (event) => {
+        const currentProjection = projectionRef.current;
+        if (!currentProjection || (!onMapClickRef.current && !onPositionPickRef.current)) return;
+        const [x, y] = d3.pointer(event, svgNode);
+        const [cx, cy] = currentProjection.translate();
+        if (Math.hypot(x - cx, y - cy) > currentProjection.scale()) return;
+        const lonLat = currentProjection.invert?.([x, y]);
+        if (!lonLat || !lonLat.every(Number.isFinite)) return;
+        if (onPositionPickRef.current) {
+            onPositionPickRef.current({ lat: lonLat[1], lon: lonLat[0] });
+            return;
+        }
+        if (!onMapClickRef.current) return;
+        pendingEditRef.current = true;
+        onMapClickRef.current({ lat: lonLat[1], lon: lonLat[0] }, event.shiftKey ? 'start' : 'end');
+    });
+
+    svg.on('mousemove', (event) => {
+        const currentProjection = projectionRef.current;
+        if (!currentProjection || !onPathHoverRef.current) return;
+        const [lambda, phi] = currentProjection.rotate();
+        const project = (lonLat: LonLat) =>
+            d3.geoDistance(lonLat, [-lambda, -phi]) <= Math.PI / 2 ? currentProjection(lonLat) : null;
+        const hit = nearestPointOnPath(routeLinesRef.current, project, d3.pointer(event, svgNode));
+        onPathHoverRef.current(hit && hit.distance <= HOVER_DISTANCE ? hit : null);
+    });
+    svg.on('mouseleave', () => onPathHoverRef.current?.(null));
 
     return () => {
+        disposed = true;
         svg.selectAll('*').remove();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -117,90 +271,302 @@ export const GlobeVisualization: React.FC<GlobeVisualizationProps> = ({ points,
     if (!svgRef.current || !projectionRef.current) return;
     const svg = d3.select(svgRef.current);
     const projection = projectionRef.current;
+    svg.selectAll('.hover-marker').remove();
+    if (!highlight) return;
+    appendProbeMarker(svg, highlight, legPathTypes[highlight.leg] ?? 'orthodromic', preferences).datum(highlight.coords);
+    placeMarkers(svg, projection);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [highlight, preferences]);
+
+  useEffect(() => {
+    if (!svgRef.current || !projectionRef.current) return;
+    const svg = d3.select(svgRef.current);
+    const projection = projectionRef.current;
+    svg.selectAll('.range').remove();
+    if (!rangeOverlay) return;
+    const path = d3.geoPath().projection(projection);
+    // Under the route and its markers, whichever of them are already drawn.
+    const below = '.flight-path, .comparison, .endpoint, .cross-track';
+    rangeOverlay.rings.forEach(ring => {
+        if (rangeOverlay.reach) {
+            svg.insert('path', below)
+                .datum(ring.area)
+                .attr('class', 'range')
+                .attr('d', path)
+                .attr('fill', '#22c55e')
+                .attr('fill-opacity', 0.12)
+                .style('pointer-events', 'none');
+        }
+        svg.insert('path', below)
+            .datum({ type: 'LineString', coordinates: ring.outline })
+            .attr('class', 'range')
+            .attr('d', path as any)
+            .attr('fill', 'none')
+            .attr('stroke', rangeOverlay.reach ? '#22c55e' : '#a78bfa')
+            .attr('stroke-width', 1.25)
+            .style('pointer-events', 'none');
+        svg.append('text')
+            .datum(ring.outline[0])
+            .attr('class', 'range range-label')
+            .attr('dy', '-0.4em')
+            .attr('text-anchor', 'middle')
+            .attr('fill', rangeOverlay.reach ? '#bbf7d0' : '#ddd6fe')
+            .attr('font-size', 11)
+            .attr('paint-order', 'stroke')
+            .attr('stroke', '#111827')
+            .attr('stroke-width', 3)
+            .style('pointer-events', 'none')
+            .text(formatDistance(ring.radius, preferences));
+    });
+    rangeOverlay.reach?.forEach(point => {
+        svg.append('circle')
+            .datum(point.coords)
+            .attr('class', 'range range-reach')
+            .attr('r', 9)
+            .attr('fill', 'none')
+            .attr('stroke', point.inRange ? '#4ade80' : '#f87171')
+            .attr('stroke-width', 2)
+            .style('pointer-events', 'none');
+    });
+    svg.selectAll('.cross-track-marker, .hover-marker, .vehicle').raise();
+    placeMarkers(svg, projection);
+  }, [rangeOverlay, preferences]);
 
-    svg.selectAll('.flight-path, .endpoint').remove();
+  useEffect(() => {
+    if (!svgRef.current || !projectionRef.current) return;
+    const svg = d3.select(svgRef.current);
+    const projection = projectionRef.current;
+    svg.selectAll('.crossing').remove();
+    if (!crossings) return;
+    svg.append('path')
+        .datum(pathToGeoJson(crossings.path))
+        .attr('class', 'crossing')
+        .attr('d', d3.geoPath().projection(projection))
+        .attr('fill', 'none')
+        .attr('stroke', '#e879f9')
+        .attr('stroke-width', 2)
+        .attr('stroke-dasharray', '8 3 2 3')
+        .style('pointer-events', 'none');
+    crossings.intersections.forEach(crossing => {
+        svg.append('circle')
+            .datum([crossing.coords.lon, crossing.coords.lat])
+            .attr('class', 'crossing crossing-point')
+            .attr('r', 5)
+            .attr('fill', '#e879f9')
+            .attr('stroke', '#111827')
+            .attr('stroke-width', 1.5)
+            .style('pointer-events', 'none');
+    });
+    svg.selectAll('.cross-track-marker, .hover-marker, .vehicle').raise();
+    placeMarkers(svg, projection);
+  }, [crossings]);
 
-    if (points) {
-        const [start, end] = points;
-        const startLonLat: [number, number] = [start.lon, start.lat];
-        const endLonLat: [number, number] = [end.lon, end.lat];
-        
-        let route: LineString;
-
-        if (pathType === 'loxodromic') {
-            const coords: [number, number][] = [];
-            const numPoints = 50;
-            const lat1 = (start.lat * Math.PI) / 180;
-            const lat2 = (end.lat * Math.PI) / 180;
-            const lon1 = (start.lon * Math.PI) / 180;
-            let lon2 = (end.lon * Math.PI) / 180;
-
-            if (Math.abs(lon2 - lon1) > Math.PI) {
-                lon2 += (lon2 > lon1) ? -2 * Math.PI : 2 * Math.PI;
-            }
+  useEffect(() => {
+    if (!svgRef.current || !projectionRef.current) return;
+    const svg = d3.select(svgRef.current);
+    const projection = projectionRef.current;
+    svg.selectAll('.cross-track').remove();
+    if (!crossTrack) return;
+    const position: LonLat = [crossTrack.position.lon, crossTrack.position.lat];
+    const closestPoint: LonLat = [crossTrack.result.closestPoint.lon, crossTrack.result.closestPoint.lat];
+    svg.append('path')
+        .datum({ type: 'LineString', coordinates: [position, closestPoint] })
+        .attr('class', 'cross-track')
+        .attr('d', d3.geoPath().projection(projection) as any)
+        .attr('fill', 'none')
+        .attr('stroke', '#f43f5e')
+        .attr('stroke-width', 1.5)
+        .attr('stroke-dasharray', '4 3')
+        .style('pointer-events', 'none');
+    const markers = appendCrossTrackMarkers(svg, crossTrack.result, preferences);
+    markers.position.datum(position);
+    markers.closestPoint.datum(closestPoint);
+    svg.selectAll('.hover-marker, .vehicle').raise();
+    placeMarkers(svg, projection);
+  }, [crossTrack, preferences]);
 
-            const dPsi = Math.log(Math.tan(lat2 / 2 + Math.PI / 4) / Math.tan(lat1 / 2 + Math.PI / 4));
+  useEffect(() => {
+    if (!svgRef.current || !projectionRef.current) return;
+    const svg = d3.select(svgRef.current);
+    const projection = projectionRef.current;
+    if (!vehicle) {
+        svg.selectAll('.vehicle').remove();
+        return;
+    }
+    let marker = svg.select<SVGPolygonElement>('.vehicle');
+    if (marker.empty()) {
+        marker = svg.append('polygon')
+            .attr('class', 'vehicle')
+            .attr('fill', '#facc15')
+            .attr('stroke', '#111827')
+            .attr('stroke-width', 1)
+            .style('pointer-events', 'none');
+    }
+    marker.datum(vehicle.position).attr('points', VEHICLE_ICONS[vehicle.kind]);
+    if (followVehicle) {
+        const [lon, lat] = vehicle.position.coords;
+        projection.rotate([-lon, -lat, projection.rotate()[2]]);
+        svg.selectAll<SVGPathElement, any>('path').attr('d', d3.geoPath().projection(projection));
+        reportView();
+    }
+    placeMarkers(svg, projection);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [vehicle, followVehicle]);
 
-            for (let i = 0; i <= numPoints; i++) {
-                const f = i / numPoints;
-                const lat_i = lat1 + (lat2 - lat1) * f;
-                let lon_i;
+  useEffect(() => {
+    if (!svgRef.current || !projectionRef.current || !centre) return;
+    const svg = d3.select(svgRef.current);
+    const projection = projectionRef.current;
+    projection.rotate([-centre.lon, -centre.lat, projection.rotate()[2]]);
+    const path = d3.geoPath().projection(projection);
+    svg.selectAll<SVGPathElement, any>('path').attr('d', path);
+    placeMarkers(svg, projection);
+    reportView();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [centre]);
 
-                if (Math.abs(dPsi) < 1e-10) { // E-W line
-                    lon_i = lon1 + (lon2 - lon1) * f;
-                } else {
-                    const psi_i = Math.log(Math.tan(lat_i / 2 + Math.PI / 4));
-                    const psi1 = Math.log(Math.tan(lat1 / 2 + Math.PI / 4));
-                    lon_i = lon1 + (lon2 - lon1) * (psi_i - psi1) / dPsi;
-                }
-                coords.push([(lon_i * 180) / Math.PI, (lat_i * 180) / Math.PI]);
-            }
-            route = { type: 'LineString', coordinates: coords };
-        } else {
-             route = {
-                type: 'LineString',
-                coordinates: [startLonLat, endLonLat]
-            };
-        }
+  useEffect(() => {
+    if (!svgRef.current || !projectionRef.current) return;
+    const svg = d3.select(svgRef.current);
+    const projection = projectionRef.current;
+
+    svg.selectAll('.flight-path, .comparison, .endpoint').remove();
+
+    const animate = !draggingRef.current && !pendingEditRef.current;
+    pendingEditRef.current = false;
+
+    routeLinesRef.current = [];
+
+    if (points && points.length > 0) {
+        const waypointsLonLat: LonLat[] = points.map((p): LonLat => [p.lon, p.lat]);
+        const routeLines = points.slice(1).map((end, i) =>
+            densifyPath(pathSpec(points[i], end, legPathTypes[i] ?? 'orthodromic', limitingLatitude, earthModel), DISPLAY_DENSIFY, earthModel)
+        );
+        routeLinesRef.current = routeLines;
+        const routes = routeLines.map(pathToGeoJson);
 
         const pathGenerator = d3.geoPath().projection(projection);
 
-        const flightPath = svg.append('path')
-            .datum(route)
-            .attr('class', 'flight-path')
-            .attr('d', pathGenerator)
-            .attr('fill', 'none')
-            .attr('stroke', '#06B6D4')
-            .attr('stroke-width', 2);
-        
-        const totalLength = flightPath.node()?.getTotalLength() || 0;
-        flightPath.attr('stroke-dasharray', `${totalLength} ${totalLength}`)
-            .attr('stroke-dashoffset', totalLength)
-            .transition()
-            .duration(1500)
-            .ease(d3.easeCubic)
-            .attr('stroke-dashoffset', 0);
+        // Compared, each leg shows both paths, shaded between, with where they are furthest apart.
+        comparison?.forEach(leg => {
+            if (leg.between) {
+                svg.append('path')
+                    .datum(leg.between)
+                    .attr('class', 'comparison')
+                    .attr('d', pathGenerator)
+                    .attr('fill', '#f59e0b')
+                    .attr('fill-opacity', 0.15)
+                    .style('pointer-events', 'none');
+            }
+            svg.append('path')
+                .datum(pathToGeoJson(leg.greatCircle))
+                .attr('class', 'comparison')
+                .attr('d', pathGenerator)
+                .attr('fill', 'none')
+                .attr('stroke', '#06B6D4')
+                .attr('stroke-width', 2);
+            svg.append('path')
+                .datum(pathToGeoJson(leg.rhumbLine))
+                .attr('class', 'comparison')
+                .attr('d', pathGenerator)
+                .attr('fill', 'none')
+                .attr('stroke', '#f59e0b')
+                .attr('stroke-width', 2)
+                .attr('stroke-dasharray', '6 4');
+            if (!leg.between) return;
+            const { greatCircle, rhumbLine, distance } = leg.maxSeparation;
+            svg.append('path')
+                .datum({ type: 'LineString', coordinates: [greatCircle, rhumbLine] })
+                .attr('class', 'comparison')
+                .attr('d', pathGenerator as any)
+                .attr('fill', 'none')
+                .attr('stroke', '#e5e7eb')
+                .attr('stroke-width', 1)
+                .attr('stroke-dasharray', '2 3');
+            svg.append('text')
+                .datum(greatCircle)
+                .attr('class', 'comparison separation-label')
+                .attr('dy', '-0.6em')
+                .attr('text-anchor', 'middle')
+                .attr('fill', '#e5e7eb')
+                .attr('font-size', 11)
+                .attr('paint-order', 'stroke')
+                .attr('stroke', '#111827')
+                .attr('stroke-width', 3)
+                .style('pointer-events', 'none')
+                .attr('data-distance', distance)
+                .text(separationLabel(distance, preferencesRef.current));
+        });
+        placeMarkers(svg, projection);
+
+        const legDuration = 1500 / routes.length;
+        (comparison ? [] : routes).forEach((route, i) => {
+            const flightPath = svg.append('path')
+                .datum(route)
+                .attr('class', 'flight-path')
+                .attr('d', pathGenerator)
+                .attr('fill', 'none')
+                .attr('stroke', '#06B6D4')
+                .attr('stroke-width', 2);
+
+            if (!animate) return;
+            const totalLength = flightPath.node()?.getTotalLength() || 0;
+            flightPath.attr('stroke-dasharray', `${totalLength} ${totalLength}`)
+                .attr('stroke-dashoffset', totalLength)
+                .transition()
+                .delay(i * legDuration)
+                .duration(legDuration)
+                .ease(routes.length > 1 ? d3.easeLinear : d3.easeCubic)
+                .attr('stroke-dashoffset', 0);
+        });
+
+        const endpointDrag: d3.DragBehavior<SVGCircleElement, LonLat, LonLat | d3.SubjectPosition> = d3.drag<SVGCircleElement, LonLat>()
+            .container(svgRef.current)
+            .subject((event) => ({ x: event.x, y: event.y }))
+            .on('start', () => { draggingRef.current = true; })
+            .on('drag', (event, d) => {
+                const lonLat = projection.invert?.([event.x, event.y]);
+                if (!lonLat || !lonLat.every(Number.isFinite)) return;
+                onWaypointMoveRef.current?.(waypointsLonLat.indexOf(d), { lat: lonLat[1], lon: lonLat[0] });
+            })
+            .on('end', () => { draggingRef.current = false; });
 
-        svg.selectAll('.endpoint')
-            .data([startLonLat, endLonLat])
+        const endpoints = svg.selectAll('.endpoint')
+            .data(waypointsLonLat)
             .enter().append('circle')
             .attr('class', 'endpoint')
             .each(function(d) {
                 const projected = projection(d as [number, number]);
+                const isVisible = d3.geoDistance(d, [-projection.rotate()[0], -projection.rotate()[1]]) <= Math.PI / 2;
                 d3.select(this)
                     .attr('cx', projected ? projected[0] : null)
-                    .attr('cy', projected ? projected[1] : null);
+                    .attr('cy', projected ? projected[1] : null)
+                    .style('display', isVisible ? 'inline' : 'none');
             })
-            .attr('r', 0)
             .attr('fill', '#f0f9ff')
             .attr('stroke', '#0ea5e9')
             .attr('stroke-width', 2)
+            .style('cursor', onWaypointMove ? 'grab' : null)
+            .on('click', (event) => event.stopPropagation());
+
+        if (onWaypointMove) {
+            endpoints.call(endpointDrag);
+        }
+        svg.selectAll('.crossing-point, .cross-track-marker, .hover-marker, .vehicle').raise();
+
+        if (!animate) {
+            endpoints.attr('r', 5);
+            return;
+        }
+
+        endpoints
+            .attr('r', 0)
             .transition()
             .duration(500)
             .delay(1000)
             .attr('r', 5);
 
-        const center = d3.geoInterpolate(startLonLat, endLonLat)(0.5);
+        const center = d3.geoCentroid({ type: 'MultiPoint', coordinates: waypointsLonLat });
         const targetRotation: [number, number] = [-center[0], -center[1]];
         
         d3.transition()
@@ -212,26 +578,33 @@ export const GlobeVisualization: React.FC<GlobeVisualizationProps> = ({ points,
                     projection.rotate(r(t) as [number, number, number]);
                     const path = d3.geoPath().projection(projection);
                     svg.selectAll<SVGPathElement, any>('path').attr('d', path);
-                    svg.selectAll<SVGCircleElement, [number, number]>(".endpoint")
-                       .each(function(d) {
-                            const projected = projection(d);
-                            const gdistance = d3.geoDistance(d, [-projection.rotate()[0], -projection.rotate()[1]]);
-                            const isVisible = gdistance <= Math.PI / 2;
-            
-                            d3.select(this)
-                              .attr('cx', projected ? projected[0] : null)
-                              .attr('cy', projected ? projected[1] : null)
-                              .style('display', isVisible ? 'inline' : 'none');
-                        });
+                    placeMarkers(svg, projection);
                 }
-            });
+            })
+            .on('end', reportView);
     }
 
-  }, [points, pathType]);
+  }, [points, legPathTypes, limitingLatitude, earthModel, comparison]);
+
+  // Relabelled in place, as redrawing the route would also turn the globe back to it.
+  useEffect(() => {
+    if (!svgRef.current) return;
+    d3.select(svgRef.current).selectAll<SVGTextElement, unknown>('.separation-label')
+        .text(function () { return separationLabel(Number(this.dataset.distance), preferences); });
+  }, [preferences]);
 
   return (
-    <div className="w-full h-full bg-gray-900 rounded-lg shadow-inner border border-gray-700 overflow-hidden">
-        <svg ref={svgRef} width="100%" height="100%"></svg>
+    <div className="relative w-full h-full bg-gray-900 rounded-lg shadow-inner border border-gray-700 overflow-hidden">
+        <svg ref={svgRef} width="100%" height="100%" style={{ cursor: onMapClick || onPositionPick ? 'crosshair' : undefined }}></svg>
+        {onPositionPick ? (
+          <p className="absolute bottom-2 left-3 text-xs text-rose-300 pointer-events-none">
+            Click to pick the position to check
+          </p>
+        ) : onMapClick && (
+          <p className="absolute bottom-2 left-3 text-xs text-gray-500 pointer-events-none">
+            Click to set the destination · Shift-click for the start · Drag a waypoint to move it
+          </p>
+        )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,22 +1,129 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
 import * as d3 from 'd3';
-import * as topojson from 'topojson-client';
-import type { Coordinates, PathType } from '../types';
-import type { FeatureCollection } from 'geojson';
+import type { Coordinates, DisplayPreferences, EarthModel, MapProjectionId, MapView, PathType, PlacementTarget, RouteCrossTrack, VehicleKind } from '../types';
+import { createMapProjection, mapProjectionCentre, projectedHeading } from '../utils/mapProjections';
+import { formatDistance } from '../utils/displayFormat';
+import type { PathComparison } from '../utils/pathComparison';
+import type { RouteCrossings } from '../utils/pathIntersection';
+import { DEFAULT_PREFERENCES } from '../utils/preferences';
+import type { RangeOverlay } from '../utils/rangeRings';
+import { densifyPath, DISPLAY_DENSIFY, nearestPointOnPath, pathSpec, pathToGeoJson } from '../utils/pathGeometry';
+import type { LonLat, PathHit, RouteProbe, RoutePosition } from '../utils/pathGeometry';
+import { VEHICLE_ICONS } from './PlaybackControls';
+import { appendCrossTrackMarkers, appendProbeMarker } from './probeMarker';
+import { basemapResolutionForZoom, loadBasemap } from '../services/basemap';
+import type { BasemapResolution } from '../services/basemap';
 
 interface MercatorVisualizationProps {
-  points: [Coordinates, Coordinates] | null;
-  pathType: PathType;
+  points: Coordinates[] | null;
+  legPathTypes: PathType[];
+  limitingLatitude: number;
+  earthModel: EarthModel;
+  projection: MapProjectionId;
+  /** Called with the clicked position; shift-click targets the start point. */
+  onMapClick?: (coords: Coordinates, target: PlacementTarget) => void;
+  /** When given, a click picks a position with this instead of placing a waypoint. */
+  onPositionPick?: (coords: Coordinates) => void;
+  /** Called continuously while a waypoint is dragged. */
+  onWaypointMove?: (index: number, coords: Coordinates) => void;
+  /** Zoom transform to start from instead of fitting the route. */
+  initialView?: MapView;
+  /** Called whenever the map is panned or zoomed. */
+  onViewChange?: (view: MapView) => void;
+  /** Each leg's great circle against its rhumb line, drawn instead of the route when given. */
+  comparison?: PathComparison[] | null;
+  /** The animated vehicle, where it is on the route and which kind to draw. */
+  vehicle?: { position: RoutePosition; kind: VehicleKind } | null;
+  /** A point to mark on the route, e.g. the one hovered in another view. */
+  highlight?: RouteProbe | null;
+  /** A checked position, joined to the closest point of the route by the perpendicular to it. */
+  crossTrack?: { position: Coordinates; result: RouteCrossTrack } | null;
+  /** Range rings, drawn under the route. */
+  rangeOverlay?: RangeOverlay | null;
+  /** A second path, with where it crosses the route marked. */
+  crossings?: RouteCrossings | null;
+  /** Called with the point of the route under the pointer, or null when the pointer leaves it. */
+  onPathHover?: (hit: PathHit | null) => void;
+  /** Pans the map, at its current zoom, to put this point in the middle. */
+  centre?: Coordinates;
+  /** Called when the user pans or zooms the map, with the point now in the middle. */
+  onCentreChange?: (centre: Coordinates) => void;
+  /** How distances, bearings and coordinates are labelled; the defaults when not given. */
+  preferences?: DisplayPreferences;
 }
 
-const WORLD_ATLAS_URL = 'https://cdn.jsdelivr.net/npm/world-atlas@2/countries-110m.json';
+const separationLabel = (distance: number, preferences: DisplayPreferences) => `${formatDistance(distance, preferences)} apart`;
 
-export const MercatorVisualization: React.FC<MercatorVisualizationProps> = ({ points, pathType }) => {
+/** How close (in pixels) the pointer must come to the route to hover it. */
+const HOVER_DISTANCE = 10;
+
+/** Where a marker sits on the map; the vehicle also turns to its on-screen heading, in degrees. */
+interface MarkerPlacement {
+  x: number;
+  y: number;
+  angle?: number;
+}
+
+/** Places a marker, keeping it the same size on screen at any zoom. */
+const markerTransform = ({ x, y, angle }: MarkerPlacement, k: number) =>
+  `translate(${x},${y})${angle !== undefined ? ` rotate(${angle})` : ''} scale(${1 / k})`;
+
+/** Whether a point lies inside the part of the world the projection draws. */
+const isDrawable = (projection: d3.GeoProjection, lonLat: [number, number]): boolean => {
+  const clipAngle = projection.clipAngle();
+  if (clipAngle == null) return true;
+  const [lambda, phi] = projection.rotate();
+  return d3.geoDistance(lonLat, [-lambda, -phi]) <= clipAngle * Math.PI / 180;
+};
+
+/**
+ * Converts a map position back to coordinates, or null if it is off the map.
+ * Off-map positions still invert to something in most projections, so the result
+ * must project back onto the same spot.
+ */
+const invertPoint = (projection: d3.GeoProjection, [x, y]: [number, number]): Coordinates | null => {
+  const lonLat = projection.invert!([x, y]);
+  if (!lonLat || !lonLat.every(Number.isFinite) || Math.abs(lonLat[0]) > 180 || Math.abs(lonLat[1]) > 90) return null;
+  if (!isDrawable(projection, lonLat)) return null;
+  const back = projection(lonLat);
+  if (!back || Math.hypot(back[0] - x, back[1] - y) > 1) return null;
+  return { lat: lonLat[1], lon: lonLat[0] };
+};
+
+export const MercatorVisualization: React.FC<MercatorVisualizationProps> = ({ points, legPathTypes, limitingLatitude, earthModel, projection: projectionId, onMapClick, onPositionPick, onWaypointMove, initialView, onViewChange, comparison, vehicle, highlight, crossTrack, rangeOverlay, crossings, onPathHover, centre, onCentreChange, preferences = DEFAULT_PREFERENCES }) => {
   const svgRef = useRef<SVGSVGElement | null>(null);
   const gRef = useRef<SVGGElement | null>(null);
   const projectionRef = useRef<d3.GeoProjection | null>(null);
   const pathGeneratorRef = useRef<d3.GeoPath | null>(null);
   const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  // Each leg's vertices with continuous longitudes, for finding where the route wraps.
+  const routeLines = useMemo(() => (points ?? []).slice(1).map((end, i) =>
+    densifyPath(pathSpec(points![i], end, legPathTypes[i] ?? 'orthodromic', limitingLatitude, earthModel), DISPLAY_DENSIFY, earthModel)
+  ), [points, legPathTypes, limitingLatitude, earthModel]);
+  const routes = useMemo(() => routeLines.map(pathToGeoJson), [routeLines]);
+  const pointsRef = useRef(points);
+  const routeLinesRef = useRef(routeLines);
+  const onMapClickRef = useRef(onMapClick);
+  const onPositionPickRef = useRef(onPositionPick);
+  const onWaypointMoveRef = useRef(onWaypointMove);
+  const onViewChangeRef = useRef(onViewChange);
+  const onPathHoverRef = useRef(onPathHover);
+  const onCentreChangeRef = useRef(onCentreChange);
+  const preferencesRef = useRef(preferences);
+  // Edits made on the map itself redraw in place instead of re-fitting the view.
+  const draggingRef = useRef(false);
+  const pendingEditRef = useRef(false);
+  // Bumped when a drag ends, so projections centred on the route catch up with it.
+  const [dragCount, setDragCount] = useState(0);
+  pointsRef.current = points;
+  routeLinesRef.current = routeLines;
+  onMapClickRef.current = onMapClick;
+  onPositionPickRef.current = onPositionPick;
+  onWaypointMoveRef.current = onWaypointMove;
+  onViewChangeRef.current = onViewChange;
+  onPathHoverRef.current = onPathHover;
+  onCentreChangeRef.current = onCentreChange;
+  preferencesRef.current = preferences;
 
   useEffect(() => {
     if (!svgRef.current) return;
@@ -25,9 +132,7 @@ export const MercatorVisualization: React.FC<MercatorVisualizationProps> = ({ po
     const { width, height } = svgNode.getBoundingClientRect();
     const svg = d3.select(svgNode);
 
-    const projection = d3.geoMercator()
-      .scale(width / (2 * Math.PI))
-      .translate([width / 2, height / 2]);
+    const projection = createMapProjection(projectionId, width, height, mapProjectionCentre(projectionId, pointsRef.current, routeLinesRef.current));
     projectionRef.current = projection;
 
     const pathGenerator = d3.geoPath().projection(projection);
@@ -36,11 +141,21 @@ export const MercatorVisualization: React.FC<MercatorVisualizationProps> = ({ po
     const g = svg.append('g');
     gRef.current = g.node();
 
-    g.append('rect')
-      .attr('class', 'ocean')
-      .attr('width', width)
-      .attr('height', height)
-      .attr('fill', '#111827');
+    if (projectionId === 'mercator') {
+      g.append('rect')
+        .attr('class', 'ocean')
+        .attr('width', width)
+        .attr('height', height)
+        .attr('fill', '#111827');
+    } else {
+      g.append('path')
+        .attr('class', 'sphere')
+        .datum({ type: 'Sphere' })
+        .attr('d', pathGenerator as any)
+        .attr('fill', '#111827')
+        .attr('stroke', '#4A5568')
+        .attr('stroke-width', 0.5);
+    }
 
     g.append('path')
       .attr('class', 'graticule')
@@ -49,35 +164,83 @@ export const MercatorVisualization: React.FC<MercatorVisualizationProps> = ({ po
       .attr('fill', 'none')
       .attr('stroke', 'rgba(75, 85, 99, 0.5)');
 
-    const countriesGroup = g.append('g').attr('class', 'countries');
+    const basemapGroup = g.append('g').attr('class', 'basemap');
+    let requestedResolution: BasemapResolution | null = null;
+    let disposed = false;
 
-    d3.json<any>(WORLD_ATLAS_URL).then(world => {
-      if (!world || !world.objects || !world.objects.countries) {
-        console.error("Invalid TopoJSON data loaded from " + WORLD_ATLAS_URL);
-        return;
-      }
-      const land = topojson.feature(world, world.objects.countries) as unknown as FeatureCollection;
-      countriesGroup.selectAll('path')
-        .data(land.features)
-        .enter().append('path')
-        .attr('d', pathGenerator as any)
-        .attr('fill', '#374151')
-        .attr('stroke', '#4b5563')
-        .attr('stroke-width', 0.5);
-    });
+    const showBasemap = (resolution: BasemapResolution) => {
+      if (resolution === requestedResolution) return;
+      requestedResolution = resolution;
+      loadBasemap(resolution).then(basemap => {
+        if (disposed || resolution !== requestedResolution) return;
+        basemapGroup.selectAll('*').remove();
+        basemapGroup.append('path')
+          .datum(basemap.land)
+          .attr('d', pathGenerator as any)
+          .attr('fill', '#374151');
+        basemapGroup.append('path')
+          .datum(basemap.borders)
+          .attr('d', pathGenerator as any)
+          .attr('fill', 'none')
+          .attr('stroke', '#4b5563')
+          .attr('stroke-width', 0.5);
+        basemapGroup.append('path')
+          .datum(basemap.coastlines)
+          .attr('d', pathGenerator as any)
+          .attr('fill', 'none')
+          .attr('stroke', '#4b5563')
+          .attr('stroke-width', 0.5);
+      }).catch(error => console.error(error));
+    };
+    showBasemap('110m');
     
     const zoom = d3.zoom<SVGSVGElement, unknown>()
       .scaleExtent([0.8, 18])
       .on('zoom', (event) => {
         g.attr('transform', event.transform.toString());
-      });
+      })
+      .on('zoom.basemap', (event) => showBasemap(basemapResolutionForZoom(event.transform.k)));
     zoomRef.current = zoom;
-    svg.call(zoom);
+    svg.call(zoom).on('dblclick.zoom', null);
+
+    if (initialView) {
+      svg.call(zoom.transform, d3.zoomIdentity.translate(initialView.x, initialView.y).scale(initialView.k));
+      // Keep the restored view instead of fitting the route.
+      pendingEditRef.current = true;
+    } else {
+      // A new projection starts from the whole-world view, whatever the previous one was zoomed to.
+      svg.call(zoom.transform, d3.zoomIdentity);
+    }
+
+    svg.on('click', (event) => {
+      if (!onMapClickRef.current && !onPositionPickRef.current) return;
+      const coords = invertPoint(projection, d3.pointer(event, g.node()));
+      if (!coords) return;
+      if (onPositionPickRef.current) {
+        onPositionPickRef.current(coords);
+        return;
+      }
+      if (!onMapClickRef.current) return;
+      pendingEditRef.current = true;
+      onMapClickRef.current(coords, event.shiftKey ? 'start' : 'end');
+    });
+
+    svg.on('mousemove', (event) => {
+      if (!onPathHoverRef.current) return;
+      const project = (lonLat: LonLat) => isDrawable(projection, lonLat) ? projection(lonLat) : null;
+      const hit = nearestPointOnPath(routeLinesRef.current, project, d3.pointer(event, g.node()));
+      // The hit distance is in map units, which the zoom scales up on screen.
+      const { k } = d3.zoomTransform(svgNode);
+      onPathHoverRef.current(hit && hit.distance * k <= HOVER_DISTANCE ? hit : null);
+    });
+    svg.on('mouseleave', () => onPathHoverRef.current?.(null));
 
     return () => {
+      disposed = true;
       svg.selectAll('*').remove();
     };
-  }, []);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectionId]);
 
   useEffect(() => {
     if (!svgRef.current || !gRef.current || !projectionRef.current || !pathGeneratorRef.current || !zoomRef.current) return;
@@ -89,34 +252,87 @@ export const MercatorVisualization: React.FC<MercatorVisualizationProps> = ({ po
     const { width, height } = svg.node()!.getBoundingClientRect();
     const projection = projectionRef.current;
 
-    g.selectAll('.flight-path, .endpoint').remove();
+    g.selectAll('.flight-path, .comparison, .endpoint').remove();
 
-    if (points) {
-      const [start, end] = points;
-      const startLonLat: [number, number] = [start.lon, start.lat];
-      const endLonLat: [number, number] = [end.lon, end.lat];
+    let refit = !draggingRef.current && !pendingEditRef.current;
+    pendingEditRef.current = false;
+
+    // The projection follows the route (azimuthal centres, or world maps turning so a route over the
+    // antimeridian is not cut in two), but not mid-drag, where the map would slide under the pointer.
+    const [centreLon, centreLat] = mapProjectionCentre(projectionId, points, routeLines) ?? [0, 0];
+    if (!draggingRef.current) {
+      const [lambda, phi] = projection.rotate();
+      if (Math.abs(lambda + centreLon) > 1e-9 || Math.abs(phi + centreLat) > 1e-9) {
+        projection.rotate([-centreLon, -centreLat]);
+        g.selectAll<SVGPathElement, any>('path').attr('d', pathGenerator);
+        // Everything has moved, so a kept zoom would be looking at somewhere else.
+        refit = true;
+      }
+    }
+
+    if (points && points.length > 0) {
+      const waypointsLonLat: LonLat[] = points.map((p): LonLat => [p.lon, p.lat]);
 
       const currentZoom = d3.zoomTransform(svg.node()!);
 
-      if (pathType === 'loxodromic') {
-        const p1 = projection(startLonLat);
-        const p2 = projection(endLonLat);
-
-        if (p1 && p2) {
-            g.append('line')
-                .attr('class', 'flight-path')
-                .attr('x1', p1[0])
-                .attr('y1', p1[1])
-                .attr('x2', p2[0])
-                .attr('y2', p2[1])
-                .attr('stroke', '#06B6D4')
-                .attr('stroke-width', 2 / Math.sqrt(currentZoom.k));
+      // Compared, each leg shows both paths, shaded between, with where they are furthest apart.
+      comparison?.forEach(leg => {
+        if (leg.between) {
+          g.append('path')
+            .datum(leg.between)
+            .attr('class', 'comparison')
+            .attr('d', pathGenerator)
+            .attr('fill', '#f59e0b')
+            .attr('fill-opacity', 0.15)
+            .style('pointer-events', 'none');
         }
-      } else { // orthodromic
-        const route = {
-          type: 'LineString' as const,
-          coordinates: [startLonLat, endLonLat]
-        };
+        g.append('path')
+          .datum(pathToGeoJson(leg.greatCircle))
+          .attr('class', 'comparison comparison-line')
+          .attr('d', pathGenerator)
+          .attr('fill', 'none')
+          .attr('stroke', '#06B6D4')
+          .attr('stroke-width', 2 / Math.sqrt(currentZoom.k));
+        g.append('path')
+          .datum(pathToGeoJson(leg.rhumbLine))
+          .attr('class', 'comparison comparison-line')
+          .attr('d', pathGenerator)
+          .attr('fill', 'none')
+          .attr('stroke', '#f59e0b')
+          .attr('stroke-width', 2 / Math.sqrt(currentZoom.k))
+          .attr('stroke-dasharray', '6 4');
+        if (!leg.between) return;
+        const { greatCircle, rhumbLine, distance } = leg.maxSeparation;
+        g.append('path')
+          .datum({ type: 'LineString', coordinates: [greatCircle, rhumbLine] })
+          .attr('class', 'comparison separation-line')
+          .attr('d', pathGenerator as any)
+          .attr('fill', 'none')
+          .attr('stroke', '#e5e7eb')
+          .attr('stroke-width', 1 / currentZoom.k)
+          .attr('stroke-dasharray', '2 3');
+        const labelAt = isDrawable(projection, greatCircle) ? projection(greatCircle) : null;
+        if (!labelAt) return;
+        g.append('text')
+          .attr('class', 'comparison separation-label')
+          .attr('x', labelAt[0])
+          .attr('y', labelAt[1])
+          .attr('dy', '-0.6em')
+          .attr('text-anchor', 'middle')
+          .attr('fill', '#e5e7eb')
+          .attr('font-size', 11 / currentZoom.k)
+          .attr('paint-order', 'stroke')
+          .attr('stroke', '#111827')
+          .attr('stroke-width', 3 / currentZoom.k)
+          .style('pointer-events', 'none')
+          .attr('data-distance', distance)
+          .text(separationLabel(distance, preferencesRef.current));
+      });
+
+      // Each leg is split at ±180° (pathToGeoJson), so rhumb lines and great circles over the dateline
+      // take the short way across it; with the map turned to the middle of such a route above, the
+      // pieces meet again in one line rather than leaving at one edge of the map and coming back at the other.
+      (comparison ? [] : routes).forEach(route => {
         g.append('path')
           .datum(route)
           .attr('class', 'flight-path')
@@ -124,36 +340,59 @@ export const MercatorVisualization: React.FC<MercatorVisualizationProps> = ({ po
           .attr('fill', 'none')
           .attr('stroke', '#06B6D4')
           .attr('stroke-width', 2 / Math.sqrt(currentZoom.k));
-      }
+      });
+
+      const endpointDrag: d3.DragBehavior<SVGCircleElement, LonLat, LonLat | d3.SubjectPosition> = d3.drag<SVGCircleElement, LonLat>()
+        .container(gRef.current)
+        .subject((event) => ({ x: event.x, y: event.y }))
+        .on('start', () => { draggingRef.current = true; })
+        .on('drag', (event, d) => {
+          const coords = invertPoint(projection, [event.x, event.y]);
+          if (!coords) return;
+          onWaypointMoveRef.current?.(waypointsLonLat.indexOf(d), coords);
+        })
+        .on('end', () => {
+          draggingRef.current = false;
+          pendingEditRef.current = true;
+          setDragCount(count => count + 1);
+        });
 
-      g.selectAll('.endpoint')
-        .data([startLonLat, endLonLat])
+      const endpoints = g.selectAll('.endpoint')
+        .data(waypointsLonLat.filter(d => isDrawable(projection, d)))
         .enter().append('circle')
         .attr('class', 'endpoint')
         .attr('cx', d => projection(d)![0])
         .attr('cy', d => projection(d)![1])
         .attr('r', 5 / Math.sqrt(currentZoom.k))
         .attr('fill', '#f0f9ff')
-        .attr('stroke', '#0ea5e9');
-
-      // Auto-zoom and pan to fit the path
-      const p1 = projection(startLonLat)!;
-      const p2 = projection(endLonLat)!;
-      const bounds: [[number, number], [number, number]] = [
-          [Math.min(p1[0], p2[0]), Math.min(p1[1], p2[1])],
-          [Math.max(p1[0], p2[0]), Math.max(p1[1], p2[1])]
-      ];
-      const dx = bounds[1][0] - bounds[0][0];
-      const dy = bounds[1][1] - bounds[0][1];
-      const x = (bounds[0][0] + bounds[1][0]) / 2;
-      const y = (bounds[0][1] + bounds[1][1]) / 2;
-      const scale = Math.max(0.8, Math.min(18, 0.9 / Math.max(dx / width, dy / height)));
-      const translate = [width / 2 - scale * x, height / 2 - scale * y];
-
-      svg.transition()
-        .duration(1250)
-        .call(zoom.transform, d3.zoomIdentity.translate(translate[0], translate[1]).scale(scale));
-    } else {
+        .attr('stroke', '#0ea5e9')
+        .style('cursor', onWaypointMove ? 'grab' : null)
+        .on('click', (event) => event.stopPropagation());
+
+      if (onWaypointMove) {
+        endpoints.call(endpointDrag);
+      }
+
+      // Auto-zoom and pan to fit the route, unless the route was just edited on the map
+      if (refit && points.length >= 2) {
+        // The bounds of the drawn route, so curved and clipped legs fit in every projection. A route
+        // across the antimeridian has been turned into the middle of the map above, so its pieces sit
+        // side by side and the bounds span the route rather than the whole map.
+        const bounds = pathGenerator.bounds({ type: 'GeometryCollection', geometries: routes });
+        const dx = bounds[1][0] - bounds[0][0];
+        const dy = bounds[1][1] - bounds[0][1];
+        const x = (bounds[0][0] + bounds[1][0]) / 2;
+        const y = (bounds[0][1] + bounds[1][1]) / 2;
+        if ([dx, dy, x, y].every(Number.isFinite)) {
+          const scale = Math.max(0.8, Math.min(18, 0.9 / Math.max(dx / width, dy / height)));
+          const translate = [width / 2 - scale * x, height / 2 - scale * y];
+
+          svg.transition()
+            .duration(1250)
+            .call(zoom.transform, d3.zoomIdentity.translate(translate[0], translate[1]).scale(scale));
+        }
+      }
+    } else if (refit) {
         // Reset view if points are cleared
         svg.transition()
            .duration(750)
@@ -164,15 +403,221 @@ export const MercatorVisualization: React.FC<MercatorVisualizationProps> = ({ po
     zoom.on('zoom', (event) => {
         g.attr('transform', event.transform.toString());
         const k = event.transform.k;
-        g.selectAll('.flight-path').attr('stroke-width', 2 / Math.sqrt(k));
-        g.selectAll('.endpoint').attr('r', 5 / Math.sqrt(k));
+        g.selectAll('.flight-path, .comparison-line, .crossing-line').attr('stroke-width', 2 / Math.sqrt(k));
+        g.selectAll('.separation-line').attr('stroke-width', 1 / k);
+        g.selectAll('.cross-track-line').attr('stroke-width', 1.5 / k);
+        g.selectAll('.separation-label, .range-label').attr('font-size', 11 / k).attr('stroke-width', 3 / k);
+        g.selectAll('.range-line').attr('stroke-width', 1.25 / k);
+        g.selectAll('.endpoint, .crossing-point').attr('r', 5 / Math.sqrt(k));
+        g.selectAll('.range-reach').attr('r', 9 / Math.sqrt(k)).attr('stroke-width', 2 / Math.sqrt(k));
+        g.selectAll<SVGGElement, MarkerPlacement>('.hover-marker, .cross-track-marker, .vehicle').attr('transform', d => markerTransform(d, k));
+        onViewChangeRef.current?.({ x: event.transform.x, y: event.transform.y, k });
+        // Only the user's own panning moves the other view; a centre applied from outside arrives without a source event.
+        if (event.sourceEvent && onCentreChangeRef.current) {
+          const middle = invertPoint(projection, event.transform.invert([width / 2, height / 2]));
+          if (middle) onCentreChangeRef.current(middle);
+        }
     });
 
-  }, [points, pathType]);
+  }, [points, routeLines, routes, comparison, projectionId, dragCount]);
+
+  // Relabelled in place, as redrawing the route would also fit the view to it again.
+  useEffect(() => {
+    if (!gRef.current) return;
+    d3.select(gRef.current).selectAll<SVGTextElement, unknown>('.separation-label')
+      .text(function () { return separationLabel(Number(this.dataset.distance), preferences); });
+  }, [preferences]);
+
+  // Drawn after the route, which may have turned the projection, so the marker lands on it.
+  useEffect(() => {
+    if (!svgRef.current || !gRef.current || !projectionRef.current) return;
+    const g = d3.select(gRef.current);
+    const projection = projectionRef.current;
+    g.selectAll('.hover-marker').remove();
+    if (!highlight) return;
+    const projected = isDrawable(projection, highlight.coords) ? projection(highlight.coords) : null;
+    if (!projected) return;
+    const placement: MarkerPlacement = { x: projected[0], y: projected[1] };
+    appendProbeMarker(g, highlight, legPathTypes[highlight.leg] ?? 'orthodromic', preferences)
+      .datum(placement)
+      .attr('transform', markerTransform(placement, d3.zoomTransform(svgRef.current).k));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [highlight, points, routeLines, routes, comparison, projectionId, dragCount, preferences]);
+
+  useEffect(() => {
+    if (!svgRef.current || !gRef.current || !projectionRef.current || !pathGeneratorRef.current) return;
+    const g = d3.select(gRef.current);
+    const projection = projectionRef.current;
+    const pathGenerator = pathGeneratorRef.current;
+    g.selectAll('.range').remove();
+    if (!rangeOverlay) return;
+    const { k } = d3.zoomTransform(svgRef.current);
+    // Under the route and its markers.
+    const below = '.flight-path, .comparison, .endpoint, .cross-track';
+    rangeOverlay.rings.forEach(ring => {
+      if (rangeOverlay.reach) {
+        g.insert('path', below)
+          .datum(ring.area)
+          .attr('class', 'range')
+          .attr('d', pathGenerator)
+          .attr('fill', '#22c55e')
+          .attr('fill-opacity', 0.12)
+          .style('pointer-events', 'none');
+      }
+      // Outlined separately from the fill, which the projection may cut along its edges.
+      g.insert('path', below)
+        .datum({ type: 'LineString', coordinates: ring.outline })
+        .attr('class', 'range range-line')
+        .attr('d', pathGenerator as any)
+        .attr('fill', 'none')
+        .attr('stroke', rangeOverlay.reach ? '#22c55e' : '#a78bfa')
+        .attr('stroke-width', 1.25 / k)
+        .style('pointer-events', 'none');
+      const labelAt = isDrawable(projection, ring.outline[0]) ? projection(ring.outline[0]) : null;
+      if (!labelAt) return;
+      g.append('text')
+        .attr('class', 'range range-label')
+        .attr('x', labelAt[0])
+        .attr('y', labelAt[1])
+        .attr('dy', '-0.4em')
+        .attr('text-anchor', 'middle')
+        .attr('fill', rangeOverlay.reach ? '#bbf7d0' : '#ddd6fe')
+        .attr('font-size', 11 / k)
+        .attr('paint-order', 'stroke')
+        .attr('stroke', '#111827')
+        .attr('stroke-width', 3 / k)
+        .style('pointer-events', 'none')
+        .text(formatDistance(ring.radius, preferences));
+    });
+    rangeOverlay.reach?.filter(point => isDrawable(projection, point.coords)).forEach(point => {
+      const projected = projection(point.coords);
+      if (!projected) return;
+      g.append('circle')
+        .attr('class', 'range range-reach')
+        .attr('cx', projected[0])
+        .attr('cy', projected[1])
+        .attr('r', 9 / Math.sqrt(k))
+        .attr('fill', 'none')
+        .attr('stroke', point.inRange ? '#4ade80' : '#f87171')
+        .attr('stroke-width', 2 / Math.sqrt(k))
+        .style('pointer-events', 'none');
+    });
+    g.selectAll('.cross-track-marker, .hover-marker, .vehicle').raise();
+  }, [rangeOverlay, points, routeLines, routes, comparison, projectionId, dragCount, preferences]);
+
+  useEffect(() => {
+    if (!svgRef.current || !gRef.current || !projectionRef.current || !pathGeneratorRef.current) return;
+    const g = d3.select(gRef.current);
+    const projection = projectionRef.current;
+    g.selectAll('.crossing').remove();
+    if (!crossings) return;
+    const { k } = d3.zoomTransform(svgRef.current);
+    g.append('path')
+      .datum(pathToGeoJson(crossings.path))
+      .attr('class', 'crossing crossing-line')
+      .attr('d', pathGeneratorRef.current)
+      .attr('fill', 'none')
+      .attr('stroke', '#e879f9')
+      .attr('stroke-width', 2 / Math.sqrt(k))
+      .attr('stroke-dasharray', '8 3 2 3')
+      .style('pointer-events', 'none');
+    crossings.intersections.forEach(crossing => {
+      const lonLat: LonLat = [crossing.coords.lon, crossing.coords.lat];
+      const projected = isDrawable(projection, lonLat) ? projection(lonLat) : null;
+      if (!projected) return;
+      g.append('circle')
+        .attr('class', 'crossing crossing-point')
+        .attr('cx', projected[0])
+        .attr('cy', projected[1])
+        .attr('r', 5 / Math.sqrt(k))
+        .attr('fill', '#e879f9')
+        .attr('stroke', '#111827')
+        .style('pointer-events', 'none');
+    });
+    g.selectAll('.cross-track-marker, .hover-marker, .vehicle').raise();
+  }, [crossings, points, routeLines, routes, comparison, projectionId, dragCount]);
+
+  useEffect(() => {
+    if (!svgRef.current || !gRef.current || !projectionRef.current || !pathGeneratorRef.current) return;
+    const g = d3.select(gRef.current);
+    const projection = projectionRef.current;
+    g.selectAll('.cross-track').remove();
+    if (!crossTrack) return;
+    const { k } = d3.zoomTransform(svgRef.current);
+    const position: LonLat = [crossTrack.position.lon, crossTrack.position.lat];
+    const closestPoint: LonLat = [crossTrack.result.closestPoint.lon, crossTrack.result.closestPoint.lat];
+    g.append('path')
+      .datum({ type: 'LineString', coordinates: [position, closestPoint] })
+      .attr('class', 'cross-track cross-track-line')
+      .attr('d', pathGeneratorRef.current as any)
+      .attr('fill', 'none')
+      .attr('stroke', '#f43f5e')
+      .attr('stroke-width', 1.5 / k)
+      .attr('stroke-dasharray', '4 3')
+      .style('pointer-events', 'none');
+    const markers = appendCrossTrackMarkers(g, crossTrack.result, preferences);
+    ([[markers.position, position], [markers.closestPoint, closestPoint]] as const).forEach(([marker, lonLat]) => {
+      const projected = isDrawable(projection, lonLat) ? projection(lonLat) : null;
+      if (!projected) {
+        marker.remove();
+        return;
+      }
+      const placement: MarkerPlacement = { x: projected[0], y: projected[1] };
+      marker.datum(placement).attr('transform', markerTransform(placement, k));
+    });
+    g.selectAll('.hover-marker, .vehicle').raise();
+  }, [crossTrack, points, routeLines, routes, comparison, projectionId, dragCount, preferences]);
+
+  useEffect(() => {
+    if (!svgRef.current || !gRef.current || !projectionRef.current) return;
+    const g = d3.select(gRef.current);
+    const projection = projectionRef.current;
+    const projected = vehicle && isDrawable(projection, vehicle.position.coords) ? projection(vehicle.position.coords) : null;
+    const angle = vehicle && projectedHeading(projection, vehicle.position.coords, vehicle.position.heading);
+    if (!vehicle || !projected || angle === null) {
+      g.selectAll('.vehicle').remove();
+      return;
+    }
+    let marker = g.select<SVGPolygonElement>('.vehicle');
+    if (marker.empty()) {
+      marker = g.append('polygon')
+        .attr('class', 'vehicle')
+        .attr('fill', '#facc15')
+        .attr('stroke', '#111827')
+        .attr('stroke-width', 1)
+        .style('pointer-events', 'none');
+    }
+    const placement: MarkerPlacement = { x: projected[0], y: projected[1], angle };
+    marker.datum(placement)
+      .attr('points', VEHICLE_ICONS[vehicle.kind])
+      .attr('transform', markerTransform(placement, d3.zoomTransform(svgRef.current).k))
+      .raise();
+  }, [vehicle, points, routeLines, routes, comparison, projectionId, dragCount]);
+
+  useEffect(() => {
+    if (!svgRef.current || !projectionRef.current || !zoomRef.current || !centre) return;
+    const projection = projectionRef.current;
+    const lonLat: LonLat = [centre.lon, centre.lat];
+    const projected = isDrawable(projection, lonLat) ? projection(lonLat) : null;
+    if (!projected) return;
+    const svg = d3.select(svgRef.current);
+    const { width, height } = svgRef.current.getBoundingClientRect();
+    const { k } = d3.zoomTransform(svgRef.current);
+    svg.interrupt().call(zoomRef.current.transform, d3.zoomIdentity.translate(width / 2 - k * projected[0], height / 2 - k * projected[1]).scale(k));
+  }, [centre]);
 
   return (
-    <div className="w-full h-full bg-gray-900 rounded-lg shadow-inner border border-gray-700 overflow-hidden">
-        <svg ref={svgRef} width="100%" height="100%"></svg>
+    <div className="relative w-full h-full bg-gray-900 rounded-lg shadow-inner border border-gray-700 overflow-hidden">
+        <svg ref={svgRef} width="100%" height="100%" style={{ cursor: onMapClick || onPositionPick ? 'crosshair' : undefined }}></svg>
+        {onPositionPick ? (
+          <p className="absolute bottom-2 left-3 text-xs text-rose-300 pointer-events-none">
+            Click to pick the position to check
+          </p>
+        ) : onMapClick && (
+          <p className="absolute bottom-2 left-3 text-xs text-gray-500 pointer-events-none">
+            Click to set the destination · Shift-click for the start · Drag a waypoint to move it
+          </p>
+        )}
     </div>
   );
 };
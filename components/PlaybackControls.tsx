@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { DisplayPreferences, RouteLeg, VehicleKind } from '../types';
+import { formatBearing, formatCoordinates, formatDistance } from '../utils/displayFormat';
+import type { RoutePosition } from '../utils/pathGeometry';
+
+interface PlaybackControlsProps {
+  legs: RouteLeg[];
+  /** Distance travelled from the first waypoint, in kilometers. */
+  distance: number;
+  onDistanceChange: (distance: number) => void;
+  /** Where the vehicle is at that distance. */
+  position: RoutePosition;
+  vehicle: VehicleKind;
+  onVehicleChange: (vehicle: VehicleKind) => void;
+  /** Whether the globe turns to keep the vehicle in view; omitted when the globe is not shown. */
+  follow?: boolean;
+  onFollowChange?: (follow: boolean) => void;
+  preferences: DisplayPreferences;
+}
+
+/**
+ * Outlines of the vehicles as SVG polygon points, nose up and centred on the origin, about 18 px long.
+ * Polygons rather than paths, so redrawing a view's geographic paths leaves them alone.
+ */
+export const VEHICLE_ICONS: Record<VehicleKind, string> = {
+  plane: '0,-9 1.5,-4 1.5,-1 8,3 8,5 1.5,3 1,7 3,8.5 3,9.5 0,9 -3,9.5 -3,8.5 -1,7 -1.5,3 -8,5 -8,3 -1.5,-1 -1.5,-4',
+  ship: '0,-9 3.5,-4 3.5,8 2.5,9 -2.5,9 -3.5,8 -3.5,-4',
+};
+
+const VEHICLE_LABELS: Record<VehicleKind, string> = {
+  plane: 'Plane',
+  ship: 'Ship',
+};
+
+/** Typical cruising speeds in km/h: a jet airliner, and a container ship at 20 knots. */
+const VEHICLE_SPEEDS: Record<VehicleKind, number> = {
+  plane: 900,
+  ship: 37,
+};
+
+/** How much travel time passes for each second of playback. */
+const TIME_SCALES: { label: string; hours: number }[] = [
+  { label: '1 s = 1 min', hours: 1 / 60 },
+  { label: '1 s = 10 min', hours: 1 / 6 },
+  { label: '1 s = 1 h', hours: 1 },
+  { label: '1 s = 6 h', hours: 6 },
+];
+
+const formatDuration = (hours: number) => {
+  const minutes = Math.round(hours * 60);
+  return `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, '0')} min`;
+};
+
+export const PlaybackControls: React.FC<PlaybackControlsProps> = ({ legs, distance, onDistanceChange, position, vehicle, onVehicleChange, follow, onFollowChange, preferences }) => {
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState<number>(VEHICLE_SPEEDS[vehicle]);
+  const [timeScale, setTimeScale] = useState<number>(1);
+  const total = legs[legs.length - 1].cumulativeDistance;
+
+  // The animation frame reads the latest values without restarting the loop.
+  const distanceRef = useRef(distance);
+  const onDistanceChangeRef = useRef(onDistanceChange);
+  distanceRef.current = distance;
+  onDistanceChangeRef.current = onDistanceChange;
+
+  useEffect(() => {
+    if (!playing || !(speed > 0)) return;
+    let frame = 0;
+    let last: number | null = null;
+    const step = (now: number) => {
+      const elapsedHours = last === null ? 0 : (now - last) / 1000 * timeScale;
+      last = now;
+      const next = Math.min(total, distanceRef.current + speed * elapsedHours);
+      onDistanceChangeRef.current(next);
+      if (next >= total) {
+        setPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed, timeScale, total]);
+
+  const togglePlaying = () => {
+    // Playing again from the destination starts over.
+    if (!playing && distance >= total) onDistanceChange(0);
+    setPlaying(!playing);
+  };
+
+  const changeVehicle = (kind: VehicleKind) => {
+    onVehicleChange(kind);
+    setSpeed(VEHICLE_SPEEDS[kind]);
+  };
+
+  const [lon, lat] = position.coords;
+  return (
+    <div className="mt-2 bg-gray-800/50 border border-gray-700 rounded-lg p-3 space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={togglePlaying}
+          className="w-20 px-3 py-1.5 text-sm font-medium rounded-md bg-cyan-600 hover:bg-cyan-700 text-white transition"
+        >
+          {playing ? 'Pause' : 'Play'}
+        </button>
+        <input
+          type="range"
+          aria-label="Position along the route"
+          min={0}
+          max={total}
+          step="any"
+          value={distance}
+          onChange={(e) => onDistanceChange(parseFloat(e.target.value))}
+          className="flex-1 min-w-[8rem] accent-cyan-500"
+        />
+        <select
+          aria-label="Vehicle"
+          value={vehicle}
+          onChange={(e) => changeVehicle(e.target.value as VehicleKind)}
+          className="bg-gray-900 border border-gray-600 rounded-md p-1.5 text-white text-sm"
+        >
+          {(Object.keys(VEHICLE_LABELS) as VehicleKind[]).map(kind => (
+            <option key={kind} value={kind}>{VEHICLE_LABELS[kind]}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 text-gray-400">
+          <input
+            type="number"
+            aria-label="Speed in km/h"
+            min={1}
+            step="any"
+            value={speed}
+            onChange={(e) => setSpeed(parseFloat(e.target.value))}
+            className="w-20 bg-gray-900 border border-gray-600 rounded-md p-1.5 text-white text-sm"
+          />
+          km/h
+        </label>
+        <select
+          aria-label="Playback speed"
+          value={timeScale}
+          onChange={(e) => setTimeScale(parseFloat(e.target.value))}
+          className="bg-gray-900 border border-gray-600 rounded-md p-1.5 text-white text-sm"
+        >
+          {TIME_SCALES.map(scale => (
+            <option key={scale.hours} value={scale.hours}>{scale.label}</option>
+          ))}
+        </select>
+        {onFollowChange && (
+          <label className="flex items-center gap-1 text-gray-300">
+            <input type="checkbox" checked={!!follow} onChange={(e) => onFollowChange(e.target.checked)} className="accent-cyan-500" />
+            Follow on globe
+          </label>
+        )}
+      </div>
+      <p className="text-xs text-gray-400">
+        {`(${formatCoordinates({ lat, lon }, preferences)})`}
+        {' · Heading '}<span className="text-gray-200">{formatBearing(position.heading, { lat, lon }, preferences)}</span>
+        {legs.length > 1 ? ` · Leg ${position.leg + 1} of ${legs.length}` : ''}
+        {' · Flown '}<span className="text-gray-200">{`${formatDistance(distance, preferences)} of ${formatDistance(total, preferences)}`}</span>
+        {' · Remaining '}<span className="text-gray-200">{speed > 0 ? formatDuration((total - distance) / speed) : '—'}</span>
+      </p>
+    </div>
+  );
+};
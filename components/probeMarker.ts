@@ -0,0 +1,100 @@
+import * as d3 from 'd3';
+import type { DisplayPreferences, PathType, RouteCrossTrack } from '../types';
+import { formatBearing, formatCoordinates, formatDistance } from '../utils/displayFormat';
+import type { RouteProbe } from '../utils/pathGeometry';
+
+/**
+ * Draws the hover probe around the origin, for the view to move into place: a dot on the route and a label
+ * with the position, the distances from the start and to go, and the heading there.
+ * @param parent - The element to draw into.
+ * @param probe - The hovered point.
+ * @param pathType - The path type of the leg it is on; rhumb lines keep the same heading throughout.
+ * @param preferences - How to show the position, distances and heading.
+ * @returns The probe's group, classed `hover-marker`.
+ */
+export function appendProbeMarker(parent: d3.Selection<SVGSVGElement | SVGGElement, unknown, null, undefined>, probe: RouteProbe, pathType: PathType, preferences: DisplayPreferences) {
+  const [lon, lat] = probe.coords;
+  const lines = [
+    `(${formatCoordinates({ lat, lon }, preferences)})`,
+    `From start ${formatDistance(probe.fromStart, preferences)}`,
+    `To go ${formatDistance(probe.toGo, preferences)}`,
+    `Heading ${formatBearing(probe.heading, { lat, lon }, preferences)}${pathType === 'loxodromic' && preferences.bearingReference === 'true' ? ' (constant)' : ''}`,
+  ];
+
+  const marker = parent.append('g')
+    .attr('class', 'hover-marker')
+    .style('pointer-events', 'none');
+  marker.append('circle')
+    .attr('r', 4)
+    .attr('fill', '#facc15')
+    .attr('stroke', '#111827')
+    .attr('stroke-width', 1.5);
+
+  const label = marker.append('g');
+  const background = label.append('rect')
+    .attr('rx', 4)
+    .attr('fill', '#111827')
+    .attr('fill-opacity', 0.9)
+    .attr('stroke', '#4b5563');
+  const text = label.append('text')
+    .attr('fill', '#e5e7eb')
+    .attr('font-size', 11);
+  lines.forEach((line, i) => {
+    text.append('tspan')
+      .attr('x', 6)
+      .attr('dy', i === 0 ? '1.2em' : '1.3em')
+      .text(line);
+  });
+
+  // Sized to the text once it is laid out, and set above and to the right of the dot.
+  const box = text.node()!.getBBox();
+  background.attr('width', box.width + 12).attr('height', box.height + 8);
+  label.attr('transform', `translate(10,${-(box.height + 18)})`);
+  return marker;
+}
+
+/**
+ * Draws the markers of a checked position around the origin, for the view to move into place: the position
+ * itself, labelled with its distance off track and the side it is on, and the closest point of the route.
+ * @param parent - The element to draw into.
+ * @param crossTrack - The position measured against the route.
+ * @param preferences - The unit to label the distance in.
+ * @returns Both markers' groups, classed `cross-track cross-track-marker`.
+ */
+export function appendCrossTrackMarkers(parent: d3.Selection<SVGSVGElement | SVGGElement, unknown, null, undefined>, crossTrack: RouteCrossTrack, preferences: DisplayPreferences) {
+  const { crossTrackDistance } = crossTrack;
+  const side = crossTrackDistance < 0 ? 'L' : 'R';
+
+  const closestPoint = parent.append('g')
+    .attr('class', 'cross-track cross-track-marker')
+    .style('pointer-events', 'none');
+  closestPoint.append('circle')
+    .attr('r', 3)
+    .attr('fill', '#f43f5e')
+    .attr('stroke', '#111827')
+    .attr('stroke-width', 1);
+
+  const position = parent.append('g')
+    .attr('class', 'cross-track cross-track-marker')
+    .style('pointer-events', 'none');
+  position.append('rect')
+    .attr('x', -5)
+    .attr('y', -5)
+    .attr('width', 10)
+    .attr('height', 10)
+    .attr('transform', 'rotate(45)')
+    .attr('fill', '#f43f5e')
+    .attr('stroke', '#f0f9ff')
+    .attr('stroke-width', 1.5);
+  position.append('text')
+    .attr('x', 9)
+    .attr('dy', '0.35em')
+    .attr('fill', '#fecdd3')
+    .attr('font-size', 11)
+    .attr('paint-order', 'stroke')
+    .attr('stroke', '#111827')
+    .attr('stroke-width', 3)
+    .text(`${formatDistance(Math.abs(crossTrackDistance), preferences, 1)} ${side}`);
+
+  return { position, closestPoint };
+}
@@ -0,0 +1,75 @@
+import * as d3 from 'd3';
+import * as topojson from 'topojson-client';
+import type { FeatureCollection, MultiLineString } from 'geojson';
+
+/** Natural Earth scale of the bundled world-atlas topology. */
+export type BasemapResolution = '110m' | '50m';
+
+export interface Basemap {
+    resolution: BasemapResolution;
+    land: FeatureCollection;
+    countries: FeatureCollection;
+    /** Land/sea boundaries. */
+    coastlines: MultiLineString;
+    /** Boundaries shared by two countries. */
+    borders: MultiLineString;
+}
+
+/** Served from public/basemap, so the maps work offline. */
+const BASEMAP_URLS: Record<BasemapResolution, string> = {
+    '110m': 'basemap/countries-110m.json',
+    '50m': 'basemap/countries-50m.json',
+};
+
+/** Zoom factor at and above which the more detailed 50m basemap is shown. */
+const DETAILED_BASEMAP_ZOOM = 2.5;
+
+// One shared load per resolution, however many views ask for it.
+const cache = new Map<BasemapResolution, Promise<Basemap>>();
+
+/** The parts of a world-atlas topology that the basemap is drawn from. */
+interface WorldTopology {
+    type: 'Topology';
+    arcs: unknown[];
+    objects: { countries: object; land: object };
+}
+
+const isWorldTopology = (value: unknown): value is WorldTopology => {
+    if (typeof value !== 'object' || value === null) return false;
+    const { type, arcs, objects } = value as Partial<Record<keyof WorldTopology, unknown>>;
+    if (type !== 'Topology' || !Array.isArray(arcs) || typeof objects !== 'object' || objects === null) return false;
+    const { countries, land } = objects as Partial<Record<keyof WorldTopology['objects'], unknown>>;
+    return typeof countries === 'object' && countries !== null && typeof land === 'object' && land !== null;
+};
+
+const fetchBasemap = async (resolution: BasemapResolution): Promise<Basemap> => {
+    const world: unknown = await d3.json(BASEMAP_URLS[resolution]);
+    if (!isWorldTopology(world)) {
+        throw new Error(`Invalid TopoJSON data loaded from ${BASEMAP_URLS[resolution]}`);
+    }
+    return {
+        resolution,
+        land: topojson.feature(world, world.objects.land) as unknown as FeatureCollection,
+        countries: topojson.feature(world, world.objects.countries) as unknown as FeatureCollection,
+        coastlines: topojson.mesh(world, world.objects.countries, (a: unknown, b: unknown) => a === b) as MultiLineString,
+        borders: topojson.mesh(world, world.objects.countries, (a: unknown, b: unknown) => a !== b) as MultiLineString,
+    };
+};
+
+/**
+ * Loads a bundled basemap, parsing it only once per resolution.
+ * A failed load is forgotten so that the next call retries it.
+ */
+export const loadBasemap = (resolution: BasemapResolution): Promise<Basemap> => {
+    let basemap = cache.get(resolution);
+    if (!basemap) {
+        basemap = fetchBasemap(resolution);
+        basemap.catch(() => cache.delete(resolution));
+        cache.set(resolution, basemap);
+    }
+    return basemap;
+};
+
+/** Picks the basemap detail for a view's zoom factor (1 = whole world in view). */
+export const basemapResolutionForZoom = (zoom: number): BasemapResolution =>
+    zoom >= DETAILED_BASEMAP_ZOOM ? '50m' : '110m';
@@ -0,0 +1,385 @@
+/**
+ * Bundled gazetteer used by the offline geocoder: major cities, international
+ * airports (IATA/ICAO) and container/passenger seaports. Coordinates are WGS-84
+ * decimal degrees to about 0.01°, which is well below what the maps can show.
+ */
+
+export type GazetteerKind = 'city' | 'airport' | 'seaport';
+
+export interface GazetteerEntry {
+    name: string;
+    kind: GazetteerKind;
+    /** ISO 3166-1 alpha-2 country code. */
+    country: string;
+    lat: number;
+    lon: number;
+    iata?: string;
+    icao?: string;
+    aliases?: string[];
+}
+
+const city = (name: string, country: string, lat: number, lon: number, aliases?: string[]): GazetteerEntry =>
+    ({ name, kind: 'city', country, lat, lon, aliases });
+
+const airport = (iata: string, icao: string, name: string, country: string, lat: number, lon: number, aliases?: string[]): GazetteerEntry =>
+    ({ name, kind: 'airport', country, lat, lon, iata, icao, aliases });
+
+const port = (name: string, country: string, lat: number, lon: number, aliases?: string[]): GazetteerEntry =>
+    ({ name, kind: 'seaport', country, lat, lon, aliases });
+
+/** Country names and common aliases, keyed by ISO code. */
+export const COUNTRY_NAMES: Record<string, string[]> = {
+    AE: ['United Arab Emirates', 'UAE', 'Emirates'],
+    AR: ['Argentina'],
+    AT: ['Austria'],
+    AU: ['Australia'],
+    BD: ['Bangladesh'],
+    BE: ['Belgium'],
+    BR: ['Brazil', 'Brasil'],
+    CA: ['Canada'],
+    CH: ['Switzerland'],
+    CL: ['Chile'],
+    CN: ['China', "People's Republic of China", 'PRC'],
+    CO: ['Colombia'],
+    CU: ['Cuba'],
+    CZ: ['Czech Republic', 'Czechia'],
+    DE: ['Germany', 'Deutschland'],
+    DK: ['Denmark'],
+    EC: ['Ecuador'],
+    EG: ['Egypt'],
+    ES: ['Spain', 'España'],
+    ET: ['Ethiopia'],
+    FI: ['Finland'],
+    FJ: ['Fiji'],
+    FR: ['France'],
+    GB: ['United Kingdom', 'UK', 'Great Britain', 'Britain', 'England', 'Scotland'],
+    GH: ['Ghana'],
+    GL: ['Greenland'],
+    GR: ['Greece'],
+    HK: ['Hong Kong'],
+    HU: ['Hungary'],
+    ID: ['Indonesia'],
+    IE: ['Ireland'],
+    IL: ['Israel'],
+    IN: ['India'],
+    IR: ['Iran'],
+    IS: ['Iceland'],
+    IT: ['Italy', 'Italia'],
+    JP: ['Japan'],
+    KE: ['Kenya'],
+    KR: ['South Korea', 'Korea', 'Republic of Korea'],
+    KZ: ['Kazakhstan'],
+    LK: ['Sri Lanka'],
+    MA: ['Morocco'],
+    MN: ['Mongolia'],
+    MX: ['Mexico', 'México'],
+    MY: ['Malaysia'],
+    NG: ['Nigeria'],
+    NL: ['Netherlands', 'Holland', 'The Netherlands'],
+    NO: ['Norway'],
+    NP: ['Nepal'],
+    NZ: ['New Zealand'],
+    PA: ['Panama', 'Panamá'],
+    PE: ['Peru', 'Perú'],
+    PH: ['Philippines'],
+    PK: ['Pakistan'],
+    PL: ['Poland'],
+    PT: ['Portugal'],
+    QA: ['Qatar'],
+    RO: ['Romania'],
+    RU: ['Russia', 'Russian Federation'],
+    SA: ['Saudi Arabia'],
+    SE: ['Sweden'],
+    SG: ['Singapore'],
+    SJ: ['Svalbard', 'Svalbard and Jan Mayen'],
+    SN: ['Senegal'],
+    TH: ['Thailand'],
+    TR: ['Turkey', 'Türkiye'],
+    TW: ['Taiwan'],
+    UA: ['Ukraine'],
+    US: ['United States', 'USA', 'US', 'United States of America', 'America'],
+    UY: ['Uruguay'],
+    UZ: ['Uzbekistan'],
+    VE: ['Venezuela'],
+    VN: ['Vietnam', 'Viet Nam'],
+    ZA: ['South Africa'],
+};
+
+/** Entries are ordered by prominence; ambiguous names resolve to the first match. */
+export const GAZETTEER: GazetteerEntry[] = [
+    // North America
+    city('New York', 'US', 40.7128, -74.0060, ['New York City', 'NYC']),
+    city('Los Angeles', 'US', 34.0522, -118.2437, ['LA']),
+    city('Chicago', 'US', 41.8781, -87.6298),
+    city('Washington', 'US', 38.9072, -77.0369, ['Washington DC', 'Washington D.C.']),
+    city('San Francisco', 'US', 37.7749, -122.4194),
+    city('Boston', 'US', 42.3601, -71.0589),
+    city('Miami', 'US', 25.7617, -80.1918),
+    city('Seattle', 'US', 47.6062, -122.3321),
+    city('Houston', 'US', 29.7604, -95.3698),
+    city('Dallas', 'US', 32.7767, -96.7970),
+    city('Atlanta', 'US', 33.7490, -84.3880),
+    city('Denver', 'US', 39.7392, -104.9903),
+    city('Philadelphia', 'US', 39.9526, -75.1652),
+    city('Phoenix', 'US', 33.4484, -112.0740),
+    city('Las Vegas', 'US', 36.1699, -115.1398),
+    city('Honolulu', 'US', 21.3069, -157.8583),
+    city('Anchorage', 'US', 61.2181, -149.9003),
+    city('Toronto', 'CA', 43.6532, -79.3832),
+    city('Montreal', 'CA', 45.5017, -73.5673, ['Montréal']),
+    city('Vancouver', 'CA', 49.2827, -123.1207),
+    city('Ottawa', 'CA', 45.4215, -75.6972),
+    city('Calgary', 'CA', 51.0447, -114.0719),
+    city('Halifax', 'CA', 44.6488, -63.5752),
+    city('Mexico City', 'MX', 19.4326, -99.1332, ['Ciudad de México', 'CDMX']),
+    city('Havana', 'CU', 23.1136, -82.3666, ['La Habana']),
+    city('Panama City', 'PA', 8.9824, -79.5199),
+    city('Nuuk', 'GL', 64.1814, -51.6941),
+
+    // South America
+    city('São Paulo', 'BR', -23.5505, -46.6333, ['Sao Paulo']),
+    city('Rio de Janeiro', 'BR', -22.9068, -43.1729, ['Rio']),
+    city('Brasília', 'BR', -15.7939, -47.8828, ['Brasilia']),
+    city('Buenos Aires', 'AR', -34.6037, -58.3816),
+    city('Santiago', 'CL', -33.4489, -70.6693, ['Santiago de Chile']),
+    city('Lima', 'PE', -12.0464, -77.0428),
+    city('Bogotá', 'CO', 4.7110, -74.0721, ['Bogota']),
+    city('Quito', 'EC', -0.1807, -78.4678),
+    city('Caracas', 'VE', 10.4806, -66.9036),
+    city('Montevideo', 'UY', -34.9011, -56.1645),
+    city('Ushuaia', 'AR', -54.8019, -68.3030),
+
+    // Europe
+    city('London', 'GB', 51.5074, -0.1278),
+    city('Paris', 'FR', 48.8566, 2.3522),
+    city('Berlin', 'DE', 52.5200, 13.4050),
+    city('Madrid', 'ES', 40.4168, -3.7038),
+    city('Rome', 'IT', 41.9028, 12.4964, ['Roma']),
+    city('Moscow', 'RU', 55.7558, 37.6173, ['Moskva']),
+    city('Istanbul', 'TR', 41.0082, 28.9784),
+    city('Amsterdam', 'NL', 52.3676, 4.9041),
+    city('Brussels', 'BE', 50.8503, 4.3517, ['Bruxelles', 'Brussel']),
+    city('Vienna', 'AT', 48.2082, 16.3738, ['Wien']),
+    city('Zurich', 'CH', 47.3769, 8.5417, ['Zürich']),
+    city('Geneva', 'CH', 46.2044, 6.1432, ['Genève']),
+    city('Munich', 'DE', 48.1351, 11.5820, ['München']),
+    city('Frankfurt', 'DE', 50.1109, 8.6821, ['Frankfurt am Main']),
+    city('Hamburg', 'DE', 53.5511, 9.9937),
+    city('Rotterdam', 'NL', 51.9244, 4.4777),
+    city('Barcelona', 'ES', 41.3851, 2.1734),
+    city('Lisbon', 'PT', 38.7223, -9.1393, ['Lisboa']),
+    city('Milan', 'IT', 45.4642, 9.1900, ['Milano']),
+    city('Venice', 'IT', 45.4408, 12.3155, ['Venezia']),
+    city('Dublin', 'IE', 53.3498, -6.2603),
+    city('Edinburgh', 'GB', 55.9533, -3.1883),
+    city('Manchester', 'GB', 53.4808, -2.2426),
+    city('Prague', 'CZ', 50.0755, 14.4378, ['Praha']),
+    city('Warsaw', 'PL', 52.2297, 21.0122, ['Warszawa']),
+    city('Budapest', 'HU', 47.4979, 19.0402),
+    city('Bucharest', 'RO', 44.4268, 26.1025, ['București']),
+    city('Copenhagen', 'DK', 55.6761, 12.5683, ['København']),
+    city('Oslo', 'NO', 59.9139, 10.7522),
+    city('Stockholm', 'SE', 59.3293, 18.0686),
+    city('Helsinki', 'FI', 60.1699, 24.9384),
+    city('Reykjavik', 'IS', 64.1466, -21.9426, ['Reykjavík']),
+    city('Athens', 'GR', 37.9838, 23.7275, ['Athina']),
+    city('Kyiv', 'UA', 50.4501, 30.5234, ['Kiev']),
+    city('Saint Petersburg', 'RU', 59.9311, 30.3609, ['St Petersburg', 'St. Petersburg']),
+    city('Longyearbyen', 'SJ', 78.2232, 15.6267),
+
+    // Africa and the Middle East
+    city('Cairo', 'EG', 30.0444, 31.2357),
+    city('Lagos', 'NG', 6.5244, 3.3792),
+    city('Nairobi', 'KE', -1.2921, 36.8219),
+    city('Johannesburg', 'ZA', -26.2041, 28.0473),
+    city('Cape Town', 'ZA', -33.9249, 18.4241),
+    city('Casablanca', 'MA', 33.5731, -7.5898),
+    city('Addis Ababa', 'ET', 8.9806, 38.7578),
+    city('Dakar', 'SN', 14.7167, -17.4677),
+    city('Accra', 'GH', 5.6037, -0.1870),
+    city('Dubai', 'AE', 25.2048, 55.2708),
+    city('Abu Dhabi', 'AE', 24.4539, 54.3773),
+    city('Doha', 'QA', 25.2854, 51.5310),
+    city('Riyadh', 'SA', 24.7136, 46.6753),
+    city('Tehran', 'IR', 35.6892, 51.3890),
+    city('Tel Aviv', 'IL', 32.0853, 34.7818),
+    city('Jerusalem', 'IL', 31.7683, 35.2137),
+
+    // Asia
+    city('Tokyo', 'JP', 35.6762, 139.6503),
+    city('Osaka', 'JP', 34.6937, 135.5023),
+    city('Beijing', 'CN', 39.9042, 116.4074, ['Peking']),
+    city('Shanghai', 'CN', 31.2304, 121.4737),
+    city('Guangzhou', 'CN', 23.1291, 113.2644, ['Canton']),
+    city('Shenzhen', 'CN', 22.5431, 114.0579),
+    city('Hong Kong', 'HK', 22.3193, 114.1694),
+    city('Taipei', 'TW', 25.0330, 121.5654),
+    city('Seoul', 'KR', 37.5665, 126.9780),
+    city('Busan', 'KR', 35.1796, 129.0756, ['Pusan']),
+    city('Singapore', 'SG', 1.3521, 103.8198),
+    city('Bangkok', 'TH', 13.7563, 100.5018),
+    city('Kuala Lumpur', 'MY', 3.1390, 101.6869, ['KL']),
+    city('Jakarta', 'ID', -6.2088, 106.8456),
+    city('Manila', 'PH', 14.5995, 120.9842),
+    city('Ho Chi Minh City', 'VN', 10.8231, 106.6297, ['Saigon']),
+    city('Hanoi', 'VN', 21.0278, 105.8342),
+    city('Delhi', 'IN', 28.6139, 77.2090, ['New Delhi']),
+    city('Mumbai', 'IN', 19.0760, 72.8777, ['Bombay']),
+    city('Bangalore', 'IN', 12.9716, 77.5946, ['Bengaluru']),
+    city('Chennai', 'IN', 13.0827, 80.2707, ['Madras']),
+    city('Kolkata', 'IN', 22.5726, 88.3639, ['Calcutta']),
+    city('Karachi', 'PK', 24.8607, 67.0011),
+    city('Dhaka', 'BD', 23.8103, 90.4125),
+    city('Kathmandu', 'NP', 27.7172, 85.3240),
+    city('Colombo', 'LK', 6.9271, 79.8612),
+    city('Ulaanbaatar', 'MN', 47.8864, 106.9057, ['Ulan Bator']),
+    city('Almaty', 'KZ', 43.2220, 76.8512),
+    city('Tashkent', 'UZ', 41.2995, 69.2401),
+
+    // Oceania
+    city('Sydney', 'AU', -33.8688, 151.2093),
+    city('Melbourne', 'AU', -37.8136, 144.9631),
+    city('Brisbane', 'AU', -27.4698, 153.0251),
+    city('Perth', 'AU', -31.9505, 115.8605),
+    city('Auckland', 'NZ', -36.8485, 174.7633),
+    city('Wellington', 'NZ', -41.2865, 174.7762),
+    city('Suva', 'FJ', -18.1248, 178.4501),
+
+    // Airports
+    airport('CDG', 'LFPG', 'Paris Charles de Gaulle Airport', 'FR', 49.0097, 2.5479, ['Charles de Gaulle', 'Roissy']),
+    airport('ORY', 'LFPO', 'Paris Orly Airport', 'FR', 48.7262, 2.3652, ['Orly']),
+    airport('LHR', 'EGLL', 'London Heathrow Airport', 'GB', 51.4700, -0.4543, ['Heathrow']),
+    airport('LGW', 'EGKK', 'London Gatwick Airport', 'GB', 51.1537, -0.1821, ['Gatwick']),
+    airport('JFK', 'KJFK', 'John F. Kennedy International Airport', 'US', 40.6413, -73.7781, ['JFK Airport', 'Kennedy']),
+    airport('EWR', 'KEWR', 'Newark Liberty International Airport', 'US', 40.6895, -74.1745, ['Newark']),
+    airport('LGA', 'KLGA', 'LaGuardia Airport', 'US', 40.7769, -73.8740, ['LaGuardia']),
+    airport('LAX', 'KLAX', 'Los Angeles International Airport', 'US', 33.9416, -118.4085),
+    airport('SFO', 'KSFO', 'San Francisco International Airport', 'US', 37.6213, -122.3790),
+    airport('ORD', 'KORD', "Chicago O'Hare International Airport", 'US', 41.9742, -87.9073, ["O'Hare"]),
+    airport('ATL', 'KATL', 'Hartsfield-Jackson Atlanta International Airport', 'US', 33.6407, -84.4277),
+    airport('DFW', 'KDFW', 'Dallas/Fort Worth International Airport', 'US', 32.8998, -97.0403),
+    airport('DEN', 'KDEN', 'Denver International Airport', 'US', 39.8561, -104.6737),
+    airport('SEA', 'KSEA', 'Seattle-Tacoma International Airport', 'US', 47.4502, -122.3088, ['Sea-Tac']),
+    airport('MIA', 'KMIA', 'Miami International Airport', 'US', 25.7959, -80.2870),
+    airport('BOS', 'KBOS', 'Boston Logan International Airport', 'US', 42.3656, -71.0096, ['Logan']),
+    airport('IAD', 'KIAD', 'Washington Dulles International Airport', 'US', 38.9531, -77.4565, ['Dulles']),
+    airport('IAH', 'KIAH', 'George Bush Intercontinental Airport', 'US', 29.9902, -95.3368),
+    airport('LAS', 'KLAS', 'Harry Reid International Airport', 'US', 36.0840, -115.1537),
+    airport('HNL', 'PHNL', 'Daniel K. Inouye International Airport', 'US', 21.3187, -157.9225, ['Honolulu Airport']),
+    airport('ANC', 'PANC', 'Ted Stevens Anchorage International Airport', 'US', 61.1743, -149.9962),
+    airport('YYZ', 'CYYZ', 'Toronto Pearson International Airport', 'CA', 43.6777, -79.6248, ['Pearson']),
+    airport('YVR', 'CYVR', 'Vancouver International Airport', 'CA', 49.1967, -123.1815),
+    airport('YUL', 'CYUL', 'Montréal-Trudeau International Airport', 'CA', 45.4706, -73.7408),
+    airport('MEX', 'MMMX', 'Mexico City International Airport', 'MX', 19.4361, -99.0719),
+    airport('GRU', 'SBGR', 'São Paulo/Guarulhos International Airport', 'BR', -23.4356, -46.4731, ['Guarulhos']),
+    airport('GIG', 'SBGL', 'Rio de Janeiro/Galeão International Airport', 'BR', -22.8100, -43.2506, ['Galeão']),
+    airport('EZE', 'SAEZ', 'Ministro Pistarini International Airport', 'AR', -34.8222, -58.5358, ['Ezeiza']),
+    airport('SCL', 'SCEL', 'Santiago International Airport', 'CL', -33.3930, -70.7858),
+    airport('BOG', 'SKBO', 'El Dorado International Airport', 'CO', 4.7016, -74.1469, ['El Dorado']),
+    airport('LIM', 'SPJC', 'Jorge Chávez International Airport', 'PE', -12.0219, -77.1143),
+    airport('KEF', 'BIKF', 'Keflavík International Airport', 'IS', 63.9850, -22.6056, ['Keflavik']),
+    airport('DUB', 'EIDW', 'Dublin Airport', 'IE', 53.4264, -6.2499),
+    airport('AMS', 'EHAM', 'Amsterdam Airport Schiphol', 'NL', 52.3105, 4.7683, ['Schiphol']),
+    airport('FRA', 'EDDF', 'Frankfurt Airport', 'DE', 50.0379, 8.5622),
+    airport('MUC', 'EDDM', 'Munich Airport', 'DE', 48.3537, 11.7750),
+    airport('BER', 'EDDB', 'Berlin Brandenburg Airport', 'DE', 52.3667, 13.5033),
+    airport('ZRH', 'LSZH', 'Zurich Airport', 'CH', 47.4582, 8.5555),
+    airport('GVA', 'LSGG', 'Geneva Airport', 'CH', 46.2370, 6.1091),
+    airport('VIE', 'LOWW', 'Vienna International Airport', 'AT', 48.1103, 16.5697),
+    airport('MAD', 'LEMD', 'Adolfo Suárez Madrid-Barajas Airport', 'ES', 40.4983, -3.5676, ['Barajas']),
+    airport('BCN', 'LEBL', 'Barcelona-El Prat Airport', 'ES', 41.2974, 2.0833, ['El Prat']),
+    airport('LIS', 'LPPT', 'Lisbon Humberto Delgado Airport', 'PT', 38.7813, -9.1359),
+    airport('FCO', 'LIRF', 'Rome Fiumicino Airport', 'IT', 41.8003, 12.2389, ['Fiumicino']),
+    airport('MXP', 'LIMC', 'Milan Malpensa Airport', 'IT', 45.6306, 8.7281, ['Malpensa']),
+    airport('CPH', 'EKCH', 'Copenhagen Airport', 'DK', 55.6180, 12.6508, ['Kastrup']),
+    airport('OSL', 'ENGM', 'Oslo Gardermoen Airport', 'NO', 60.1976, 11.1004, ['Gardermoen']),
+    airport('ARN', 'ESSA', 'Stockholm Arlanda Airport', 'SE', 59.6498, 17.9238, ['Arlanda']),
+    airport('HEL', 'EFHK', 'Helsinki-Vantaa Airport', 'FI', 60.3172, 24.9633),
+    airport('WAW', 'EPWA', 'Warsaw Chopin Airport', 'PL', 52.1657, 20.9671),
+    airport('ATH', 'LGAV', 'Athens International Airport', 'GR', 37.9364, 23.9445),
+    airport('IST', 'LTFM', 'Istanbul Airport', 'TR', 41.2753, 28.7519),
+    airport('SVO', 'UUEE', 'Sheremetyevo International Airport', 'RU', 55.9726, 37.4146, ['Sheremetyevo']),
+    airport('DXB', 'OMDB', 'Dubai International Airport', 'AE', 25.2532, 55.3657),
+    airport('AUH', 'OMAA', 'Abu Dhabi International Airport', 'AE', 24.4330, 54.6511),
+    airport('DOH', 'OTHH', 'Hamad International Airport', 'QA', 25.2731, 51.6081),
+    airport('CAI', 'HECA', 'Cairo International Airport', 'EG', 30.1219, 31.4056),
+    airport('JNB', 'FAOR', 'O. R. Tambo International Airport', 'ZA', -26.1392, 28.2460),
+    airport('CPT', 'FACT', 'Cape Town International Airport', 'ZA', -33.9715, 18.6021),
+    airport('NBO', 'HKJK', 'Jomo Kenyatta International Airport', 'KE', -1.3192, 36.9278),
+    airport('ADD', 'HAAB', 'Addis Ababa Bole International Airport', 'ET', 8.9779, 38.7993),
+    airport('LOS', 'DNMM', 'Murtala Muhammed International Airport', 'NG', 6.5774, 3.3212),
+    airport('DEL', 'VIDP', 'Indira Gandhi International Airport', 'IN', 28.5562, 77.1000),
+    airport('BOM', 'VABB', 'Chhatrapati Shivaji Maharaj International Airport', 'IN', 19.0896, 72.8656),
+    airport('SIN', 'WSSS', 'Singapore Changi Airport', 'SG', 1.3644, 103.9915, ['Changi']),
+    airport('BKK', 'VTBS', 'Suvarnabhumi Airport', 'TH', 13.6900, 100.7501),
+    airport('KUL', 'WMKK', 'Kuala Lumpur International Airport', 'MY', 2.7456, 101.7072),
+    airport('CGK', 'WIII', 'Soekarno-Hatta International Airport', 'ID', -6.1256, 106.6559),
+    airport('MNL', 'RPLL', 'Ninoy Aquino International Airport', 'PH', 14.5086, 121.0194),
+    airport('HKG', 'VHHH', 'Hong Kong International Airport', 'HK', 22.3080, 113.9185, ['Chek Lap Kok']),
+    airport('PEK', 'ZBAA', 'Beijing Capital International Airport', 'CN', 40.0799, 116.6031),
+    airport('PVG', 'ZSPD', 'Shanghai Pudong International Airport', 'CN', 31.1443, 121.8083, ['Pudong']),
+    airport('CAN', 'ZGGG', 'Guangzhou Baiyun International Airport', 'CN', 23.3924, 113.2988),
+    airport('TPE', 'RCTP', 'Taiwan Taoyuan International Airport', 'TW', 25.0797, 121.2342),
+    airport('ICN', 'RKSI', 'Incheon International Airport', 'KR', 37.4602, 126.4407, ['Incheon']),
+    airport('NRT', 'RJAA', 'Narita International Airport', 'JP', 35.7720, 140.3929, ['Narita']),
+    airport('HND', 'RJTT', 'Tokyo Haneda Airport', 'JP', 35.5494, 139.7798, ['Haneda']),
+    airport('KIX', 'RJBB', 'Kansai International Airport', 'JP', 34.4320, 135.2304, ['Kansai']),
+    airport('SYD', 'YSSY', 'Sydney Kingsford Smith Airport', 'AU', -33.9399, 151.1753),
+    airport('MEL', 'YMML', 'Melbourne Airport', 'AU', -37.6690, 144.8410, ['Tullamarine']),
+    airport('BNE', 'YBBN', 'Brisbane Airport', 'AU', -27.3842, 153.1175),
+    airport('PER', 'YPPH', 'Perth Airport', 'AU', -31.9385, 115.9672),
+    airport('AKL', 'NZAA', 'Auckland Airport', 'NZ', -37.0082, 174.7850),
+
+    // Seaports
+    port('Port of Shanghai', 'CN', 30.6267, 122.0650, ['Yangshan']),
+    port('Port of Singapore', 'SG', 1.2640, 103.8400),
+    port('Port of Ningbo-Zhoushan', 'CN', 29.9400, 121.8800, ['Ningbo']),
+    port('Port of Shenzhen', 'CN', 22.4800, 113.8800, ['Yantian']),
+    port('Port of Busan', 'KR', 35.1040, 129.0400),
+    port('Port of Hong Kong', 'HK', 22.3470, 114.1190, ['Kwai Tsing']),
+    port('Port of Qingdao', 'CN', 36.0200, 120.2200),
+    port('Port of Tianjin', 'CN', 38.9700, 117.7800),
+    port('Port of Kaohsiung', 'TW', 22.6100, 120.2800),
+    port('Port of Yokohama', 'JP', 35.4500, 139.6600),
+    port('Port Klang', 'MY', 3.0000, 101.3900, ['Port of Klang']),
+    port('Port of Tanjung Pelepas', 'MY', 1.3640, 103.5500),
+    port('Port of Colombo', 'LK', 6.9480, 79.8450),
+    port('Jawaharlal Nehru Port', 'IN', 18.9500, 72.9500, ['Nhava Sheva', 'JNPT']),
+    port('Port of Jebel Ali', 'AE', 25.0110, 55.0610, ['Jebel Ali']),
+    port('Port Said', 'EG', 31.2650, 32.3020),
+    port('Port of Suez', 'EG', 29.9660, 32.5490, ['Suez']),
+    port('Port of Rotterdam', 'NL', 51.9496, 4.1453),
+    port('Port of Antwerp-Bruges', 'BE', 51.2700, 4.3300, ['Port of Antwerp', 'Antwerp']),
+    port('Port of Hamburg', 'DE', 53.5400, 9.9700),
+    port('Port of Felixstowe', 'GB', 51.9550, 1.3050, ['Felixstowe']),
+    port('Port of Le Havre', 'FR', 49.4830, 0.1150, ['Le Havre']),
+    port('Port of Marseille', 'FR', 43.3270, 5.3600, ['Marseille']),
+    port('Port of Valencia', 'ES', 39.4450, -0.3170, ['Valencia']),
+    port('Port of Algeciras', 'ES', 36.1300, -5.4400, ['Algeciras']),
+    port('Port of Genoa', 'IT', 44.4050, 8.9100, ['Genoa', 'Genova']),
+    port('Port of Piraeus', 'GR', 37.9420, 23.6330, ['Piraeus']),
+    port('Port of Gdańsk', 'PL', 54.3950, 18.6700, ['Gdansk', 'Gdańsk']),
+    port('Port of Reykjavik', 'IS', 64.1530, -21.9500),
+    port('Port of Durban', 'ZA', -29.8700, 31.0300, ['Durban']),
+    port('Port of Cape Town', 'ZA', -33.9100, 18.4400),
+    port('Port of Mombasa', 'KE', -4.0600, 39.6600, ['Mombasa']),
+    port('Port of Lagos', 'NG', 6.4400, 3.3700, ['Apapa']),
+    port('Port of Los Angeles', 'US', 33.7361, -118.2639),
+    port('Port of Long Beach', 'US', 33.7542, -118.2165, ['Long Beach']),
+    port('Port of Oakland', 'US', 37.7950, -122.2800, ['Oakland']),
+    port('Port of Seattle', 'US', 47.5800, -122.3500),
+    port('Port of New York and New Jersey', 'US', 40.6780, -74.1500, ['Port Newark', 'Port of New York']),
+    port('Port of Savannah', 'US', 32.1260, -81.1420, ['Savannah']),
+    port('Port of Houston', 'US', 29.7300, -95.2650),
+    port('Port of Anchorage', 'US', 61.2400, -149.8900),
+    port('Port of Vancouver', 'CA', 49.2880, -123.1100),
+    port('Port of Montreal', 'CA', 45.5500, -73.5300),
+    port('Port of Halifax', 'CA', 44.6400, -63.5700),
+    port('Port of Balboa', 'PA', 8.9500, -79.5650, ['Balboa']),
+    port('Port of Colón', 'PA', 9.3590, -79.9010, ['Colon', 'Colón', 'Cristóbal']),
+    port('Port of Santos', 'BR', -23.9608, -46.3336, ['Santos']),
+    port('Port of Callao', 'PE', -12.0500, -77.1500, ['Callao']),
+    port('Port of Valparaíso', 'CL', -33.0330, -71.6270, ['Valparaiso', 'Valparaíso']),
+    port('Port Botany', 'AU', -33.9700, 151.2200, ['Port of Sydney']),
+    port('Port of Melbourne', 'AU', -37.8300, 144.9200),
+];
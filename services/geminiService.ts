@@ -1,12 +1,18 @@
-
 import { GoogleGenAI, Type } from "@google/genai";
 import type { Coordinates } from '../types';
+import type { GeocoderProvider } from './geocoder';
 
-if (!process.env.API_KEY) {
-    console.error("API_KEY environment variable not set.");
-}
+/** Gemini is an optional fallback; without an API key the app geocodes offline only. */
+export const isGeminiConfigured = (): boolean => !!process.env.API_KEY;
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+let ai: GoogleGenAI | null = null;
+
+const getClient = (): GoogleGenAI => {
+    if (!ai) {
+        ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    }
+    return ai;
+};
 
 const locationSchema = {
     type: Type.OBJECT,
@@ -24,8 +30,13 @@ const locationSchema = {
 };
 
 export const getCoordinatesForLocation = async (locationName: string): Promise<Coordinates | null> => {
+    if (!isGeminiConfigured()) {
+        console.error("API_KEY environment variable not set.");
+        return null;
+    }
+
     try {
-        const result = await ai.models.generateContent({
+        const result = await getClient().models.generateContent({
             model: 'gemini-2.5-flash',
             contents: `Provide the geographic coordinates (latitude and longitude) for the following location: ${locationName}.`,
             config: {
@@ -42,7 +53,8 @@ export const getCoordinatesForLocation = async (locationName: string): Promise<C
 
         const parsed = JSON.parse(jsonString);
 
-        if (typeof parsed.lat === 'number' && typeof parsed.lon === 'number') {
+        if (typeof parsed.lat === 'number' && typeof parsed.lon === 'number'
+            && Math.abs(parsed.lat) <= 90 && Math.abs(parsed.lon) <= 180) {
             return { lat: parsed.lat, lon: parsed.lon };
         } else {
             console.error(`Invalid coordinate format for ${locationName}:`, parsed);
@@ -53,3 +65,15 @@ export const getCoordinatesForLocation = async (locationName: string): Promise<C
         throw new Error(`Could not retrieve coordinates for "${locationName}".`);
     }
 };
+
+/** LLM answers are unverified, so they rank below any confident gazetteer match. */
+const GEMINI_CONFIDENCE = 0.65;
+
+export const geminiGeocoder: GeocoderProvider = {
+    source: 'gemini',
+    label: 'Gemini (AI estimate)',
+    geocode: async (query: string) => {
+        const coords = await getCoordinatesForLocation(query);
+        return coords ? { coords, label: query, source: 'gemini', confidence: GEMINI_CONFIDENCE } : null;
+    },
+};
@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { LocationSource } from '../types';
+import { createGeocoder, MIN_ACCEPTED_CONFIDENCE, type GeocodeResult, type GeocoderProvider } from './geocoder';
+
+const result = (source: LocationSource, confidence: number): GeocodeResult => ({
+    coords: { lat: 51.47, lon: -0.45 },
+    label: `${source} match`,
+    source,
+    confidence,
+});
+
+/** A provider that answers every query the same way and counts how often it is asked. */
+const stubProvider = (source: LocationSource, answer: GeocodeResult | null | Error) => {
+    const geocode = vi.fn(async () => {
+        if (answer instanceof Error) throw answer;
+        return answer;
+    });
+    const provider: GeocoderProvider = { source, label: source, geocode };
+    return { provider, geocode };
+};
+
+afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    vi.resetModules();
+});
+
+describe('createGeocoder', () => {
+    it('stops at the first confident match', async () => {
+        const first = stubProvider('gazetteer', result('gazetteer', MIN_ACCEPTED_CONFIDENCE));
+        const second = stubProvider('gemini', result('gemini', 0.9));
+        expect(await createGeocoder([first.provider, second.provider])('Heathrow')).toEqual(result('gazetteer', MIN_ACCEPTED_CONFIDENCE));
+        expect(first.geocode).toHaveBeenCalledWith('Heathrow');
+        expect(second.geocode).not.toHaveBeenCalled();
+    });
+
+    it('holds back tentative matches while later providers get a chance', async () => {
+        const tentative = stubProvider('gazetteer', result('gazetteer', MIN_ACCEPTED_CONFIDENCE - 0.01));
+        const confident = stubProvider('gemini', result('gemini', 0.8));
+        expect(await createGeocoder([tentative.provider, confident.provider])('Rotter')).toEqual(result('gemini', 0.8));
+
+        const weaker = stubProvider('gemini', result('gemini', 0.3));
+        expect(await createGeocoder([tentative.provider, weaker.provider])('Rotter')).toEqual(result('gazetteer', MIN_ACCEPTED_CONFIDENCE - 0.01));
+    });
+
+    it('rethrows provider errors only when nothing matched', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const failing = stubProvider('gemini', new Error('Quota exceeded'));
+        const tentative = stubProvider('gazetteer', result('gazetteer', 0.5));
+        expect(await createGeocoder([tentative.provider, failing.provider])('Rotter')).toEqual(result('gazetteer', 0.5));
+        await expect(createGeocoder([stubProvider('gazetteer', null).provider, failing.provider])('Rotter')).rejects.toThrow('Quota exceeded');
+        expect(await createGeocoder([stubProvider('gazetteer', null).provider])('Atlantis')).toBeNull();
+    });
+});
+
+describe('defaultGeocoderProviders', () => {
+    const sources = async () => (await import('./geocoder')).defaultGeocoderProviders.map(provider => provider.source);
+
+    it('skips Gemini when no API key is set', async () => {
+        vi.stubEnv('API_KEY', '');
+        expect(await sources()).toEqual(['gazetteer']);
+    });
+
+    it('falls back to Gemini after the gazetteer when an API key is set', async () => {
+        vi.stubEnv('API_KEY', 'test-key');
+        expect(await sources()).toEqual(['gazetteer', 'gemini']);
+    });
+});
@@ -0,0 +1,57 @@
+import type { Coordinates, LocationSource } from '../types';
+import { geminiGeocoder, isGeminiConfigured } from './geminiService';
+import { offlineGeocoder } from './offlineGeocoder';
+
+export interface GeocodeResult {
+    coords: Coordinates;
+    /** Human-readable name of the place that was matched. */
+    label: string;
+    source: LocationSource;
+    /** How sure the provider is of the match, from 0 to 1. */
+    confidence: number;
+}
+
+export interface GeocoderProvider {
+    source: LocationSource;
+    /** Short description shown to the user, e.g. "offline gazetteer". */
+    label: string;
+    geocode: (query: string) => Promise<GeocodeResult | null>;
+}
+
+/** Results below this confidence are held back while later providers get a chance. */
+export const MIN_ACCEPTED_CONFIDENCE = 0.6;
+
+/**
+ * Chains geocoder providers: each is asked in turn until one returns a confident match.
+ * If none is confident, the best tentative match is returned. Provider errors are only
+ * rethrown when no provider produced any result.
+ */
+export const createGeocoder = (providers: GeocoderProvider[]) => async (query: string): Promise<GeocodeResult | null> => {
+    let best: GeocodeResult | null = null;
+    let lastError: unknown = null;
+
+    for (const provider of providers) {
+        try {
+            const result = await provider.geocode(query);
+            if (!result) continue;
+            if (result.confidence >= MIN_ACCEPTED_CONFIDENCE) return result;
+            if (!best || result.confidence > best.confidence) best = result;
+        } catch (error) {
+            console.error(`Geocoder "${provider.label}" failed for ${query}:`, error);
+            lastError = error;
+        }
+    }
+
+    if (!best && lastError) {
+        throw lastError instanceof Error ? lastError : new Error(`Could not retrieve coordinates for "${query}".`);
+    }
+    return best;
+};
+
+/** The bundled gazetteer first, then Gemini when an API key is configured. */
+export const defaultGeocoderProviders: GeocoderProvider[] = [
+    offlineGeocoder,
+    ...(isGeminiConfigured() ? [geminiGeocoder] : []),
+];
+
+export const geocodeLocation = createGeocoder(defaultGeocoderProviders);
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { MIN_ACCEPTED_CONFIDENCE } from './geocoder';
+import { lookupGazetteer } from './offlineGeocoder';
+
+describe('lookupGazetteer', () => {
+    it('is certain of airport codes typed in capitals, less so in lower case', () => {
+        expect(lookupGazetteer('LHR')).toMatchObject({ label: 'London Heathrow Airport (LHR), GB — airport', confidence: 1 });
+        expect(lookupGazetteer('EGLL')?.coords).toEqual({ lat: 51.47, lon: -0.4543 });
+        expect(lookupGazetteer('lhr')?.confidence).toBe(0.8);
+    });
+
+    it('matches names and aliases regardless of case and accents', () => {
+        expect(lookupGazetteer('Heathrow')?.label).toBe('London Heathrow Airport (LHR), GB — airport');
+        expect(lookupGazetteer('Sao Paulo')?.label).toBe('São Paulo, BR — city');
+        expect(lookupGazetteer('zürich')?.label).toBe('Zurich, CH — city');
+    });
+
+    it('prefers the city unless the query names another kind of place', () => {
+        expect(lookupGazetteer('Frankfurt')?.label).toBe('Frankfurt, DE — city');
+        expect(lookupGazetteer('Frankfurt Airport')?.label).toBe('Frankfurt Airport (FRA), DE — airport');
+        expect(lookupGazetteer('Hamburg harbour')?.label).toBe('Port of Hamburg, DE — seaport');
+    });
+
+    it('uses a country qualifier to confirm or doubt the match', () => {
+        expect(lookupGazetteer('London, United Kingdom')?.confidence).toBe(0.95);
+        expect(lookupGazetteer('London, GB')?.confidence).toBe(0.95);
+        expect(lookupGazetteer('London, France')?.confidence).toBeLessThan(MIN_ACCEPTED_CONFIDENCE);
+        // An unknown qualifier is not enough to doubt the match.
+        expect(lookupGazetteer('Paris, Texas')?.confidence).toBeGreaterThanOrEqual(MIN_ACCEPTED_CONFIDENCE);
+    });
+
+    it('offers prefix matches only tentatively', () => {
+        const partial = lookupGazetteer('Rotter');
+        expect(partial?.label).toBe('Rotterdam, NL — city');
+        expect(partial?.confidence).toBeLessThan(MIN_ACCEPTED_CONFIDENCE);
+        expect(lookupGazetteer('Atlantis')).toBeNull();
+        expect(lookupGazetteer('  ')).toBeNull();
+    });
+});
@@ -0,0 +1,117 @@
+import type { GeocodeResult, GeocoderProvider } from './geocoder';
+import { COUNTRY_NAMES, GAZETTEER, type GazetteerEntry } from './gazetteerData';
+
+const normalize = (text: string): string =>
+    text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+
+/** Words that describe the kind of place rather than name it. */
+const NOISE_WORDS = /\b(international|intl|airport|aeroport|port of|port|harbour|harbor|city)\b/g;
+
+const stripNoise = (text: string): string => text.replace(NOISE_WORDS, ' ').replace(/\s+/g, ' ').trim();
+
+const kindHint = (text: string): GazetteerEntry['kind'] | null =>
+    /\b(airport|aeroport|intl)\b/.test(text) ? 'airport' : /\b(port|harbour|harbor)\b/.test(text) ? 'seaport' : null;
+
+interface IndexedEntry {
+    entry: GazetteerEntry;
+    keys: string[];
+}
+
+const INDEX: IndexedEntry[] = GAZETTEER.map(entry => {
+    const names = [entry.name, ...(entry.aliases ?? [])].map(normalize);
+    const keys = new Set([...names, ...names.map(stripNoise)].filter(Boolean));
+    return { entry, keys: [...keys] };
+});
+
+const COUNTRY_INDEX = new Map<string, string>();
+for (const [code, names] of Object.entries(COUNTRY_NAMES)) {
+    COUNTRY_INDEX.set(code.toLowerCase(), code);
+    for (const name of names) COUNTRY_INDEX.set(normalize(name), code);
+}
+
+const KIND_LABELS: Record<GazetteerEntry['kind'], string> = {
+    city: 'city',
+    airport: 'airport',
+    seaport: 'seaport',
+};
+
+const toResult = (entry: GazetteerEntry, confidence: number): GeocodeResult => ({
+    coords: { lat: entry.lat, lon: entry.lon },
+    label: `${entry.name}${entry.iata ? ` (${entry.iata})` : ''}, ${entry.country} — ${KIND_LABELS[entry.kind]}`,
+    source: 'gazetteer',
+    confidence,
+});
+
+const findByCode = (code: string): GazetteerEntry | undefined => {
+    const upper = code.toUpperCase();
+    return GAZETTEER.find(entry => (upper.length === 3 ? entry.iata : entry.icao) === upper);
+};
+
+/**
+ * Looks a place name, IATA or ICAO code up in the bundled gazetteer.
+ * "Name, Country" narrows ambiguous names; unmatched names fall back to a prefix search.
+ * @param query - The location as typed by the user.
+ * @returns The best match and a confidence score, or null if nothing matches.
+ */
+export const lookupGazetteer = (query: string): GeocodeResult | null => {
+    const trimmed = query.trim();
+    if (!trimmed) return null;
+
+    // Airport codes typed in capitals are unambiguous.
+    if (/^[A-Z]{3,4}$/.test(trimmed)) {
+        const entry = findByCode(trimmed);
+        if (entry) return toResult(entry, 1);
+    }
+
+    const [placePart, ...qualifierParts] = trimmed.split(',');
+    const place = normalize(placePart);
+    const bare = stripNoise(place);
+    const qualifiers = qualifierParts.map(normalize).filter(Boolean);
+    const countries = qualifiers.map(q => COUNTRY_INDEX.get(q)).filter((code): code is string => !!code);
+
+    const hint = kindHint(place);
+    let exact = INDEX.filter(({ keys }) => keys.includes(place)).map(({ entry }) => entry);
+    if (exact.length === 0 && bare) {
+        const matches = INDEX.filter(({ keys }) => keys.includes(bare)).map(({ entry }) => entry);
+        // "Frankfurt Airport" should prefer the airport over the city of the same name.
+        exact = hint ? [...matches.filter(entry => entry.kind === hint), ...matches.filter(entry => entry.kind !== hint)] : matches;
+    }
+    if (exact.length > 0) {
+        if (countries.length > 0) {
+            const inCountry = exact.filter(entry => countries.includes(entry.country));
+            if (inCountry.length > 0) return toResult(inCountry[0], 0.95);
+            return toResult(exact[0], 0.5);
+        }
+        const preferredKind = hint ?? 'city';
+        const ofKind = exact.filter(entry => entry.kind === preferredKind);
+        const preferred = ofKind[0] ?? exact[0];
+        const unique = exact.length === 1 || ofKind.length === 1;
+        return toResult(preferred, qualifiers.length > 0 ? 0.7 : unique ? 0.9 : 0.75);
+    }
+
+    // Codes typed in lower case, e.g. "lhr" or "egll".
+    if (/^[a-z]{3,4}$/i.test(trimmed)) {
+        const entry = findByCode(trimmed);
+        if (entry) return toResult(entry, 0.8);
+    }
+
+    if (bare.length >= 3) {
+        const partial = INDEX.find(({ entry, keys }) =>
+            (countries.length === 0 || countries.includes(entry.country)) &&
+            keys.some(key => key.startsWith(bare) || bare.startsWith(`${key} `)));
+        if (partial) return toResult(partial.entry, 0.5);
+    }
+
+    return null;
+};
+
+export const offlineGeocoder: GeocoderProvider = {
+    source: 'gazetteer',
+    label: 'offline gazetteer',
+    geocode: async (query: string) => lookupGazetteer(query),
+};
@@ -3,9 +3,157 @@ export interface Coordinates {
   lon: number;
 }
 
+export type LocationSource = 'gazetteer' | 'gemini' | 'coordinates' | 'import';
+
+export type CoordinateNotation = 'decimal' | 'dms' | 'ddm' | 'nmea' | 'utm' | 'mgrs' | 'maidenhead';
+
 export interface LocationPoint {
     name: string;
     coords: Coordinates;
+    /** Where the coordinates came from, if they were looked up. */
+    source?: LocationSource;
+    /** How sure the source is of the match, from 0 to 1. */
+    confidence?: number;
+    /** The place the source matched, when it differs from what was typed. */
+    matchedName?: string;
+    /** The notation the coordinates were typed in, when entered directly. */
+    notation?: CoordinateNotation;
+}
+
+export type PathType = 'orthodromic' | 'loxodromic' | 'composite';
+
+/** Which end of the route a click on the map places. */
+export type PlacementTarget = 'start' | 'end';
+
+/** Units a cruise speed can be entered in: knots, kilometers per hour, or Mach number. */
+export type SpeedUnit = 'kn' | 'kmh' | 'mach';
+
+/** The vehicle animated along the route. */
+export type VehicleKind = 'plane' | 'ship';
+
+/** A second path, e.g. a leg of an airspace boundary, checked for where it crosses the route. */
+export interface CrossingPath {
+  from: Coordinates;
+  to: Coordinates;
+  pathType: Exclude<PathType, 'composite'>;
+}
+
+/** Geodesic circles drawn around a waypoint. */
+export interface RangeRings {
+  /** Index of the waypoint at the centre. */
+  centre: number;
+  /** Radius of the innermost ring in kilometers; each further ring is that much wider. */
+  radius: number;
+  count: number;
+  /** A single ring around the start at this radius, shading the reachable area and marking which waypoints lie in it. */
+  maxRange: boolean;
 }
 
-export type PathType = 'orthodromic' | 'loxodromic';
+/** Units distances are shown in: kilometers, nautical miles or statute miles. */
+export type DistanceUnit = 'km' | 'nm' | 'mi';
+
+/** Whether bearings are shown from true north or from magnetic north. */
+export type BearingReference = 'true' | 'magnetic';
+
+/** Notations coordinates can be shown in. */
+export type CoordinateFormat = Extract<CoordinateNotation, 'decimal' | 'dms' | 'ddm'>;
+
+/** How distances, bearings and coordinates are shown; kept in the browser between visits. */
+export interface DisplayPreferences {
+  distanceUnit: DistanceUnit;
+  bearingReference: BearingReference;
+  coordinateFormat: CoordinateFormat;
+}
+
+/** Which visualizations are shown: one of them, or both side by side. */
+export type ViewMode = 'globe' | 'map' | 'split';
+
+/** Projections offered by the 2D map. */
+export type MapProjectionId = 'mercator' | 'equirectangular' | 'gnomonic' | 'azimuthalEquidistant' | 'robinson' | 'equalEarth';
+
+export interface GlobeView {
+  /** d3 orthographic rotation [λ, φ, γ] in degrees. */
+  rotation: [number, number, number];
+  /** Zoom factor relative to the fitted globe. */
+  zoom: number;
+}
+
+export interface MapView {
+  /** d3 zoom transform of the map layer. */
+  x: number;
+  y: number;
+  k: number;
+}
+
+export interface CourseInfo {
+  /** True course at departure along the great circle, degrees. */
+  initialCourse: number;
+  /** True course on arrival along the great circle, degrees. */
+  finalCourse: number;
+  /** Constant true course of the rhumb line, degrees. */
+  rhumbCourse: number;
+  /** Highest-latitude point of the great circle nearest the leg, or null if it follows the equator. */
+  vertex: Coordinates | null;
+  /** Whether the vertex lies between the two endpoints. */
+  vertexOnPath: boolean;
+  orthodromicDistance: number;
+  loxodromicDistance: number;
+  /** Kilometers saved by flying the great circle instead of the rhumb line. */
+  distanceSaved: number;
+}
+
+export interface CompositeSegment {
+  /** Great-circle arcs to and from the limiting parallel, or the run along it. */
+  kind: 'orthodromic' | 'parallel';
+  from: Coordinates;
+  to: Coordinates;
+  distance: number;
+}
+
+export interface CompositeSailing {
+  /** Great circle → parallel → great circle; a single great circle when the limit is not reached. */
+  segments: CompositeSegment[];
+  distance: number;
+  /** Whether the limiting latitude actually cut off the great circle. */
+  limited: boolean;
+}
+
+export interface CrossTrack {
+  /** Distance from the line to the position, km; positive to the right of the direction of travel, negative to the left. */
+  crossTrackDistance: number;
+  /** Distance along the line from its start to the closest point, km; negative if that lies behind the start. */
+  alongTrackDistance: number;
+  /** The point of the line closest to the position, at the foot of the perpendicular from it. */
+  closestPoint: Coordinates;
+}
+
+/** A position checked against a whole route, measured from the leg it is nearest. */
+export interface RouteCrossTrack extends CrossTrack {
+  /** Index of that leg. Along-track distances are measured from the first waypoint of the route. */
+  leg: number;
+  /** Whether the closest point lies within the leg, rather than on its extension before or past it. */
+  abeam: boolean;
+}
+
+export interface RouteLeg {
+  from: LocationPoint;
+  to: LocationPoint;
+  pathType: PathType;
+  /** Length of this leg in kilometers. */
+  distance: number;
+  /** Distance from the first waypoint to the end of this leg, in kilometers. */
+  cumulativeDistance: number;
+  course: CourseInfo;
+  /** Leg breakdown for composite legs; null if the leg is not composite or an endpoint lies beyond the limit. */
+  composite: CompositeSailing | null;
+}
+
+export type EarthModelId = 'sphere' | 'wgs84' | 'grs80' | 'custom';
+
+export interface EarthModel {
+  id: EarthModelId;
+  /** Equatorial radius (semi-major axis) in kilometers. */
+  a: number;
+  /** Flattening; 0 for a sphere. */
+  f: number;
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { formatDecimalDegrees, parseCoordinateInput } from './coordinateParser';
+
+const eiffelTower = { lat: 48.858194, lon: 2.294489 };
+const operaHouse = { lat: -33.856760, lon: 151.209555 };
+
+const expectParsed = (input: string, notation: string, coords: { lat: number; lon: number }, digits = 5) => {
+  const parsed = parseCoordinateInput(input);
+  expect(parsed?.notation, input).toBe(notation);
+  expect(parsed!.coords.lat, input).toBeCloseTo(coords.lat, digits);
+  expect(parsed!.coords.lon, input).toBeCloseTo(coords.lon, digits);
+};
+
+describe('parseCoordinateInput', () => {
+  it('leaves place names to the geocoder', () => {
+    expect(parseCoordinateInput('Paris')).toBeNull();
+    expect(parseCoordinateInput('  ')).toBeNull();
+  });
+
+  it('reads decimal degrees, signed or with hemispheres', () => {
+    expectParsed('-33.8688, 151.2093', 'decimal', { lat: -33.8688, lon: 151.2093 });
+    expectParsed('48.8566N 2.3522E', 'decimal', { lat: 48.8566, lon: 2.3522 });
+    expectParsed('N48.8566 E2.3522', 'decimal', { lat: 48.8566, lon: 2.3522 });
+    expectParsed('2.3522E, 48.8566N', 'decimal', { lat: 48.8566, lon: 2.3522 });
+    expectParsed(formatDecimalDegrees(operaHouse), 'decimal', operaHouse);
+  });
+
+  it('reads degrees, minutes and seconds', () => {
+    const paris = { lat: 48.856667, lon: 2.352222 };
+    expectParsed(`48°51'24"N 2°21'8"E`, 'dms', paris);
+    expectParsed('48°51′24″N, 2°21′8″E', 'dms', paris);
+    expectParsed(`48°51'24''N, 2°21'08''E`, 'dms', paris);
+    expectParsed('48d51m24s N 2d21m8s E', 'dms', paris);
+    expectParsed('48 51 24 N 2 21 8 E', 'dms', paris);
+    expectParsed('48 51 24 2 21 8', 'dms', paris);
+  });
+
+  it('reads degrees and decimal minutes, with lowercase hemispheres', () => {
+    expectParsed(`48°51.4'N 2°21.13'E`, 'ddm', { lat: 48.856667, lon: 2.352167 });
+    expectParsed('N48 51.400 E002 21.133', 'ddm', { lat: 48.856667, lon: 2.352217 });
+    expectParsed('33 52 s 151 12 e', 'ddm', { lat: -33.866667, lon: 151.2 });
+    expectParsed('33 52 S, 151 12 w', 'ddm', { lat: -33.866667, lon: -151.2 });
+  });
+
+  it('reads NMEA fields and sentences', () => {
+    const position = { lat: 48.856667, lon: 2.352217 };
+    expectParsed('4851.400,N,00221.133,E', 'nmea', position);
+    expectParsed('$GPGGA,123519,4851.400,N,00221.133,E,1,08,0.9,545.4,M,46.9,M,,*47', 'nmea', position);
+    expectParsed('$GPRMC,123519,A,3351.405,S,15112.573,E,022.4,084.4,230394,003.1,W*6A', 'nmea', { lat: -33.856750, lon: 151.209550 });
+  });
+
+  it('reads UTM in either hemisphere', () => {
+    expectParsed('31U 448251 5411932', 'utm', eiffelTower);
+    expectParsed('56H 334369 6252284', 'utm', operaHouse);
+  });
+
+  it('reads MGRS, taking the centre of a truncated square', () => {
+    expectParsed('31U DQ 48251 11932', 'mgrs', eiffelTower);
+    expectParsed('31UDQ4825111932', 'mgrs', eiffelTower);
+    expectParsed('56H LH 34369 52284', 'mgrs', operaHouse);
+    expectParsed('56HLH3452', 'mgrs', { lat: -33.854833, lon: 151.211011 });
+  });
+
+  it('reads Maidenhead locators as the centre of their square', () => {
+    expectParsed('JN18du', 'maidenhead', { lat: 48.854167, lon: 2.291667 });
+    expectParsed('JN18du45', 'maidenhead', { lat: 48.85625, lon: 2.2875 });
+    expectParsed('qf56od', 'maidenhead', { lat: -33.854167, lon: 151.208333 });
+  });
+
+  it('explains what is wrong with angles', () => {
+    const cases: [string, RegExp][] = [
+      ['48.5 N', /both a latitude and a longitude/],
+      ['48 51 24', /Cannot tell latitude from longitude/],
+      ['48.5, 2.5, 3', /Too many values/],
+      ['-48 -51, 2', /Only the degrees/],
+      ['-48 S, 2 E', /either a minus sign or S/],
+      ['48 N 2 N', /one latitude \(N\/S\) and one longitude \(E\/W\)/],
+      ['59 60 N 2 E', /minutes must be less than 60 \(got 60\)/],
+      ['48 51 60 N 2 E', /seconds must be less than 60 \(got 60\)/],
+      ['48.5 30 N, 2 E', /degrees must be a whole number/],
+      ['91, 10', /Latitude 91° is out of range/],
+      ['10, 181', /Longitude 181° is out of range/],
+      [`48.5, ''2`, /Unexpected "'"/],
+    ];
+    for (const [input, message] of cases) {
+      expect(() => parseCoordinateInput(input), input).toThrow(message);
+    }
+  });
+
+  it('explains what is wrong with grid references and NMEA', () => {
+    const cases: [string, RegExp][] = [
+      ['61U 448251 5411932', /UTM zone 61 is invalid/],
+      ['31I 448251 5411932', /Latitude band "I" is invalid/],
+      ['31U 50000 5411932', /easting 50000 is outside the valid range/],
+      ['31C 448251 5411932', /outside latitude band C/],
+      ['31U ZZ 48251 11932', /square "ZZ" does not exist in zone 31/],
+      ['31U DQ 482 1193', /same number of digits/],
+      ['4860.000,N,00221.133,E', /NMEA minutes must be less than 60/],
+      ['$GPGGA,bad', /no valid position fields/],
+    ];
+    for (const [input, message] of cases) {
+      expect(() => parseCoordinateInput(input), input).toThrow(message);
+    }
+  });
+});
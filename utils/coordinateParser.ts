@@ -0,0 +1,416 @@
+import type { Coordinates, CoordinateNotation } from '../types';
+
+/**
+ * Parses coordinates typed into a location field, so they can be used directly
+ * instead of being geocoded. Recognised notations:
+ *   - decimal degrees:        48.8566, 2.3522 · 48.8566N 2.3522E · N48.8566 E2.3522
+ *   - degrees-minutes-seconds: 48°51'24"N 2°21'8"E · 48 51 24 N 2 21 8 E
+ *   - degrees-decimal-minutes: 48°51.4'N 2°21.13'E · N48 51.400 E002 21.133
+ *   - NMEA:                    4851.400,N,00221.133,E or a $--GGA/RMC/GLL sentence
+ *   - UTM:                     31U 448251 5411932
+ *   - MGRS:                    31U DQ 48251 11932 · 31UDQ4825111932
+ *   - Maidenhead locator:      JN18du
+ */
+
+export interface ParsedCoordinates {
+  coords: Coordinates;
+  notation: CoordinateNotation;
+}
+
+/**
+ * Parses a coordinate string in any supported notation.
+ * @param input - The text typed by the user.
+ * @returns The parsed coordinates, or null if the text does not look like coordinates (e.g. a place name).
+ * @throws Error with a user-facing message if the text looks like coordinates but is invalid.
+ */
+export function parseCoordinateInput(input: string): ParsedCoordinates | null {
+  const text = input.trim();
+  if (!text) return null;
+
+  return parseNmea(text)
+    ?? parseMgrs(text)
+    ?? parseUtm(text)
+    ?? parseMaidenhead(text)
+    ?? parseAngles(text);
+}
+
+/**
+ * Formats coordinates as decimal degrees that parse back with `parseCoordinateInput`.
+ * @param coords - The coordinates to format.
+ * @returns A "lat, lon" string with five decimals (about a meter).
+ */
+export function formatDecimalDegrees(coords: Coordinates): string {
+  return `${coords.lat.toFixed(5)}, ${coords.lon.toFixed(5)}`;
+}
+
+// --- Degrees: decimal, DMS and DDM -----------------------------------------
+
+const ANGLE_TEXT = /^[\s\d.,;/+\-°º'′’"″”NSEWnsewdms]+$/;
+
+type Hemisphere = 'N' | 'S' | 'E' | 'W';
+
+interface Angle {
+  values: number[];
+  negative: boolean;
+  hemisphere?: Hemisphere;
+}
+
+type Token =
+  | { kind: 'number'; value: number; negative: boolean; unit?: 'deg' | 'min' | 'sec' }
+  | { kind: 'hemisphere'; value: Hemisphere }
+  | { kind: 'separator' };
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  // Two apostrophes are tried before one, as seconds rather than minutes and a stray quote.
+  const pattern = /\s*(?:(-|\+)?(\d+(?:\.\d+)?)\s*([°ºd]|''|['′’m]|["″”s])?|([NSEWnsew])|([,;/]))/y;
+  let index = 0;
+  while (index < text.length) {
+    pattern.lastIndex = index;
+    const match = pattern.exec(text);
+    if (!match || match[0].length === 0) {
+      if (/^\s+$/.test(text.slice(index))) break;
+      throw new Error(`Unexpected "${text.slice(index).trimStart()[0]}" in coordinates.`);
+    }
+    index = pattern.lastIndex;
+    if (match[2] !== undefined) {
+      let symbol = match[3];
+      // A lowercase s is the seconds unit only straight after minutes, as in 48d51m24s; otherwise it is south.
+      const previous = tokens[tokens.length - 1];
+      if (symbol === 's' && !(previous?.kind === 'number' && previous.unit === 'min')) {
+        symbol = undefined;
+        index -= 1;
+      }
+      const unit = !symbol ? undefined
+        : /[°ºd]/.test(symbol) ? 'deg'
+        : /^(["″”s]|'')$/.test(symbol) ? 'sec'
+        : 'min';
+      tokens.push({ kind: 'number', value: parseFloat(match[2]), negative: match[1] === '-', unit });
+    } else if (match[4]) {
+      tokens.push({ kind: 'hemisphere', value: match[4].toUpperCase() as Hemisphere });
+    } else if (match[5]) {
+      tokens.push({ kind: 'separator' });
+    }
+  }
+  return tokens;
+}
+
+/** Groups tokens into a latitude and a longitude angle. */
+function groupAngles(tokens: Token[]): Angle[] {
+  // Bare numbers without units, hemispheres or separators: split them evenly, e.g. "48 51 24 2 21 8".
+  if (tokens.every(t => t.kind === 'number' && !t.unit)) {
+    if (tokens.length === 1) throw new Error('Enter both a latitude and a longitude.');
+    if (tokens.length % 2 !== 0) {
+      throw new Error('Cannot tell latitude from longitude: separate them with a comma or add N/S and E/W.');
+    }
+    const half = tokens.length / 2;
+    return [tokens.slice(0, half), tokens.slice(half)].map(group => {
+      const numbers = group as Extract<Token, { kind: 'number' }>[];
+      if (numbers.slice(1).some(t => t.negative)) throw new Error('Only the degrees of a coordinate may be negative.');
+      return { values: numbers.map(t => t.value), negative: numbers[0].negative };
+    });
+  }
+
+  const angles: Angle[] = [];
+  let current: Angle | null = null;
+  let closed = false;
+
+  const start = (): Angle => {
+    current = { values: [], negative: false };
+    angles.push(current);
+    closed = false;
+    return current;
+  };
+
+  for (const token of tokens) {
+    if (token.kind === 'separator') {
+      if (current) closed = true;
+      continue;
+    }
+    if (token.kind === 'hemisphere') {
+      if (current && !closed && current.values.length > 0 && !current.hemisphere) {
+        current.hemisphere = token.value;
+        closed = true;
+      } else {
+        start().hemisphere = token.value;
+      }
+      continue;
+    }
+    const angle: Angle = !current || closed || (token.unit === 'deg' && current.values.length > 0) || current.values.length === 3
+      ? (current && !closed && current.values.length === 0 ? current : start())
+      : current;
+    if (token.negative) {
+      if (angle.values.length > 0) throw new Error('Only the degrees of a coordinate may be negative.');
+      angle.negative = true;
+    }
+    angle.values.push(token.value);
+  }
+
+  return angles;
+}
+
+function angleToDegrees(angle: Angle, label: string): number {
+  const [degrees, minutes = 0, seconds = 0] = angle.values;
+  if (angle.values.length > 1 && !Number.isInteger(degrees)) {
+    throw new Error(`${label}: degrees must be a whole number when minutes are given.`);
+  }
+  if (minutes >= 60) throw new Error(`${label}: minutes must be less than 60 (got ${minutes}).`);
+  if (angle.values.length > 2 && !Number.isInteger(minutes)) {
+    throw new Error(`${label}: minutes must be a whole number when seconds are given.`);
+  }
+  if (seconds >= 60) throw new Error(`${label}: seconds must be less than 60 (got ${seconds}).`);
+  const value = degrees + minutes / 60 + seconds / 3600;
+  const southOrWest = angle.hemisphere === 'S' || angle.hemisphere === 'W';
+  if (angle.negative && southOrWest) {
+    throw new Error(`${label}: use either a minus sign or ${angle.hemisphere}, not both.`);
+  }
+  return angle.negative || southOrWest ? -value : value;
+}
+
+function parseAngles(text: string): ParsedCoordinates | null {
+  if (!ANGLE_TEXT.test(text) || !/\d/.test(text)) return null;
+
+  const angles = groupAngles(tokenize(text));
+  if (angles.length !== 2) {
+    throw new Error(angles.length < 2
+      ? 'Enter both a latitude and a longitude.'
+      : 'Too many values: enter one latitude and one longitude.');
+  }
+  if (angles.some(angle => angle.values.length === 0)) {
+    throw new Error('Each of latitude and longitude needs a number.');
+  }
+
+  let [lat, lon] = angles;
+  const isLat = (a: Angle) => a.hemisphere === 'N' || a.hemisphere === 'S';
+  const isLon = (a: Angle) => a.hemisphere === 'E' || a.hemisphere === 'W';
+  if (isLon(lat) || isLat(lon)) [lat, lon] = [lon, lat];
+  if (isLon(lat) || isLat(lon)) {
+    throw new Error('Give one latitude (N/S) and one longitude (E/W).');
+  }
+
+  const coords = validateCoordinates(angleToDegrees(lat, 'Latitude'), angleToDegrees(lon, 'Longitude'));
+  const parts = Math.max(lat.values.length, lon.values.length);
+  return { coords, notation: parts === 3 ? 'dms' : parts === 2 ? 'ddm' : 'decimal' };
+}
+
+// --- NMEA ------------------------------------------------------------------
+
+const NMEA_POSITION = /(\d{2})(\d{2}(?:\.\d+)?),\s*([NS]),\s*(\d{3})(\d{2}(?:\.\d+)?),\s*([EW])/i;
+
+function parseNmea(text: string): ParsedCoordinates | null {
+  const isSentence = /^\$[A-Z]{2}(GGA|RMC|GLL)\b/i.test(text);
+  const match = NMEA_POSITION.exec(text);
+  if (!match) {
+    if (isSentence) throw new Error('NMEA sentence has no valid position fields.');
+    return null;
+  }
+  if (!isSentence && match[0].length !== text.length) return null;
+
+  const lat = toNmeaDegrees(match[1], match[2], 'Latitude') * (match[3].toUpperCase() === 'S' ? -1 : 1);
+  const lon = toNmeaDegrees(match[4], match[5], 'Longitude') * (match[6].toUpperCase() === 'W' ? -1 : 1);
+  return { coords: validateCoordinates(lat, lon), notation: 'nmea' };
+}
+
+function toNmeaDegrees(degrees: string, minutes: string, label: string): number {
+  const m = parseFloat(minutes);
+  if (m >= 60) throw new Error(`${label}: NMEA minutes must be less than 60 (got ${minutes}).`);
+  return parseInt(degrees, 10) + m / 60;
+}
+
+// --- UTM and MGRS ----------------------------------------------------------
+
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const UTM_K0 = 0.9996;
+const UTM_FALSE_EASTING = 500000;
+const UTM_FALSE_NORTHING_SOUTH = 10000000;
+const LATITUDE_BANDS = 'CDEFGHJKLMNPQRSTUVWX';
+
+function parseUtm(text: string): ParsedCoordinates | null {
+  const match = /^(\d{1,2})\s*([A-Z])\s+(\d+(?:\.\d+)?)\s*(?:m\s*)?E?\s+(\d+(?:\.\d+)?)\s*(?:m\s*)?N?$/i.exec(text);
+  if (!match) return null;
+
+  const zone = parseUtmZone(match[1]);
+  const band = parseLatitudeBand(match[2]);
+  const easting = parseFloat(match[3]);
+  const northing = parseFloat(match[4]);
+  if (easting < 100000 || easting > 900000) {
+    throw new Error(`UTM easting ${match[3]} is outside the valid range (100000–900000 m).`);
+  }
+  if (northing > 10000000) {
+    throw new Error(`UTM northing ${match[4]} is outside the valid range (0–10000000 m).`);
+  }
+
+  const coords = utmToLatLon(zone, band >= 'N', easting, northing);
+  checkBand(coords.lat, band);
+  return { coords, notation: 'utm' };
+}
+
+function parseMgrs(text: string): ParsedCoordinates | null {
+  const compact = text.replace(/\s+/g, '').toUpperCase();
+  const match = /^(\d{1,2})([A-Z])([A-Z])([A-Z])(\d*)$/.exec(compact);
+  if (!match) return null;
+
+  const zone = parseUtmZone(match[1]);
+  const band = parseLatitudeBand(match[2]);
+  const digits = match[5];
+  if (digits.length % 2 !== 0 || digits.length > 10) {
+    throw new Error('MGRS easting and northing must have the same number of digits (up to 5 each).');
+  }
+
+  const set = (zone - 1) % 3;
+  const columnLetters = ['ABCDEFGH', 'JKLMNPQR', 'STUVWXYZ'][set];
+  const rowLetters = zone % 2 === 0 ? 'FGHJKLMNPQRSTUVABCDE' : 'ABCDEFGHJKLMNPQRSTUV';
+  const column = columnLetters.indexOf(match[3]);
+  const row = rowLetters.indexOf(match[4]);
+  if (column < 0 || row < 0) {
+    throw new Error(`MGRS 100 km square "${match[3]}${match[4]}" does not exist in zone ${zone}.`);
+  }
+
+  const precision = digits.length / 2;
+  const scale = Math.pow(10, 5 - precision);
+  // A truncated grid reference names a square; use its centre.
+  const offset = precision < 5 ? scale / 2 : 0;
+  const easting = (column + 1) * 100000 + (precision ? parseInt(digits.slice(0, precision), 10) * scale : 0) + offset;
+  let northing = row * 100000 + (precision ? parseInt(digits.slice(precision), 10) * scale : 0) + offset;
+
+  // The row letters repeat every 2000 km; pick the cycle that lands in the latitude band.
+  const bandSouthLat = -80 + LATITUDE_BANDS.indexOf(band) * 8;
+  const north = band >= 'N';
+  const bandMinNorthing = Math.floor(
+    ((north ? 0 : UTM_FALSE_NORTHING_SOUTH) + UTM_K0 * meridianDistance(bandSouthLat)) / 100000,
+  ) * 100000 - 100000;
+  while (northing < bandMinNorthing) northing += 2000000;
+
+  const coords = utmToLatLon(zone, north, easting, northing);
+  checkBand(coords.lat, band);
+  return { coords, notation: 'mgrs' };
+}
+
+function parseUtmZone(text: string): number {
+  const zone = parseInt(text, 10);
+  if (zone < 1 || zone > 60) throw new Error(`UTM zone ${text} is invalid (must be 1–60).`);
+  return zone;
+}
+
+function parseLatitudeBand(text: string): string {
+  const band = text.toUpperCase();
+  if (!LATITUDE_BANDS.includes(band)) {
+    throw new Error(`Latitude band "${text}" is invalid (must be a letter C–X, excluding I and O).`);
+  }
+  return band;
+}
+
+function checkBand(lat: number, band: string): void {
+  const south = -80 + LATITUDE_BANDS.indexOf(band) * 8;
+  const north = band === 'X' ? 84 : south + 8;
+  // Allow a little slack for points right on a band edge.
+  if (lat < south - 0.5 || lat > north + 0.5) {
+    throw new Error(`Position falls at latitude ${lat.toFixed(2)}°, outside latitude band ${band} (${south}° to ${north}°).`);
+  }
+}
+
+/** Distance along the WGS-84 meridian from the equator to a latitude, in meters. */
+function meridianDistance(latDeg: number): number {
+  const n = WGS84_F / (2 - WGS84_F);
+  const phi = latDeg * Math.PI / 180;
+  const n2 = n * n;
+  const n3 = n2 * n;
+  return WGS84_A / (1 + n) * (1 + n2 / 4) * (
+    phi
+    - (3 * n / 2 - 9 * n3 / 16) * Math.sin(2 * phi)
+    + (15 * n2 / 16) * Math.sin(4 * phi)
+    - (35 * n3 / 48) * Math.sin(6 * phi)
+  );
+}
+
+/** Inverse transverse Mercator using Krüger's series in the third flattening. */
+function utmToLatLon(zone: number, north: boolean, easting: number, northing: number): Coordinates {
+  const n = WGS84_F / (2 - WGS84_F);
+  const n2 = n * n;
+  const n3 = n2 * n;
+  const n4 = n3 * n;
+  const A = WGS84_A / (1 + n) * (1 + n2 / 4 + n4 / 64);
+
+  const beta = [
+    n / 2 - 2 * n2 / 3 + 37 * n3 / 96 - n4 / 360,
+    n2 / 48 + n3 / 15 - 437 * n4 / 1440,
+    17 * n3 / 480 - 37 * n4 / 840,
+    4397 * n4 / 161280,
+  ];
+  const delta = [
+    2 * n - 2 * n2 / 3 - 2 * n3 + 116 * n4 / 45,
+    7 * n2 / 3 - 8 * n3 / 5 - 227 * n4 / 45,
+    56 * n3 / 15 - 136 * n4 / 35,
+    4279 * n4 / 630,
+  ];
+
+  const xi = (northing - (north ? 0 : UTM_FALSE_NORTHING_SOUTH)) / (UTM_K0 * A);
+  const eta = (easting - UTM_FALSE_EASTING) / (UTM_K0 * A);
+
+  let xiPrime = xi;
+  let etaPrime = eta;
+  beta.forEach((b, i) => {
+    const j = 2 * (i + 1);
+    xiPrime -= b * Math.sin(j * xi) * Math.cosh(j * eta);
+    etaPrime -= b * Math.cos(j * xi) * Math.sinh(j * eta);
+  });
+
+  const chi = Math.asin(Math.sin(xiPrime) / Math.cosh(etaPrime));
+  let phi = chi;
+  delta.forEach((d, i) => {
+    phi += d * Math.sin(2 * (i + 1) * chi);
+  });
+
+  const centralMeridian = (zone - 1) * 6 - 180 + 3;
+  const lon = centralMeridian + Math.atan2(Math.sinh(etaPrime), Math.cos(xiPrime)) * 180 / Math.PI;
+  return validateCoordinates(phi * 180 / Math.PI, ((lon + 540) % 360) - 180);
+}
+
+// --- Maidenhead ------------------------------------------------------------
+
+function parseMaidenhead(text: string): ParsedCoordinates | null {
+  const match = /^([A-R]{2})(\d{2})([A-X]{2})?(\d{2})?$/i.exec(text);
+  if (!match || (match[4] && !match[3])) return null;
+
+  const field = match[1].toUpperCase();
+  const square = match[2];
+  const subsquare = match[3]?.toUpperCase();
+  const extended = match[4];
+
+  let lon = (field.charCodeAt(0) - 65) * 20 - 180 + parseInt(square[0], 10) * 2;
+  let lat = (field.charCodeAt(1) - 65) * 10 - 90 + parseInt(square[1], 10);
+  let lonSize = 2;
+  let latSize = 1;
+  if (subsquare) {
+    lonSize /= 24;
+    latSize /= 24;
+    lon += (subsquare.charCodeAt(0) - 65) * lonSize;
+    lat += (subsquare.charCodeAt(1) - 65) * latSize;
+  }
+  if (extended) {
+    lonSize /= 10;
+    latSize /= 10;
+    lon += parseInt(extended[0], 10) * lonSize;
+    lat += parseInt(extended[1], 10) * latSize;
+  }
+
+  // A locator names a rectangle; use its centre.
+  return { coords: validateCoordinates(lat + latSize / 2, lon + lonSize / 2), notation: 'maidenhead' };
+}
+
+// --- Shared ----------------------------------------------------------------
+
+function validateCoordinates(lat: number, lon: number): Coordinates {
+  if (!Number.isFinite(lat) || lat < -90 || lat > 90) {
+    throw new Error(`Latitude ${formatNumber(lat)}° is out of range (must be between -90° and 90°).`);
+  }
+  if (!Number.isFinite(lon) || lon < -180 || lon > 180) {
+    throw new Error(`Longitude ${formatNumber(lon)}° is out of range (must be between -180° and 180°).`);
+  }
+  return { lat, lon };
+}
+
+function formatNumber(value: number): string {
+  return Number.isFinite(value) ? String(Math.round(value * 1e6) / 1e6) : String(value);
+}
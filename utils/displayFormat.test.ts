@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { DisplayPreferences } from '../types';
+import { parseCoordinateInput } from './coordinateParser';
+import { formatBearing, formatCoordinates, formatDistance, fromKilometers, magneticVariation, referenceBearing, toKilometers } from './displayFormat';
+import { DEFAULT_PREFERENCES } from './preferences';
+
+const london = { lat: 51.47, lon: -0.45 };
+const newYork = { lat: 40.64, lon: -73.78 };
+
+const preferences = (change: Partial<DisplayPreferences>): DisplayPreferences => ({ ...DEFAULT_PREFERENCES, ...change });
+
+describe('distances', () => {
+  it('converts between kilometers and nautical or statute miles', () => {
+    expect(fromKilometers(1852, 'nm')).toBeCloseTo(1000, 9);
+    expect(fromKilometers(1609.344, 'mi')).toBeCloseTo(1000, 9);
+    expect(toKilometers(fromKilometers(5570.2, 'nm'), 'nm')).toBeCloseTo(5570.2, 9);
+  });
+
+  it('formats in the preferred unit', () => {
+    expect(formatDistance(5570.2, DEFAULT_PREFERENCES)).toBe('5,570 km');
+    expect(formatDistance(5570.2, preferences({ distanceUnit: 'nm' }))).toBe('3,008 NM');
+    expect(formatDistance(12.5, preferences({ distanceUnit: 'mi' }), 1)).toBe('7.8 mi');
+  });
+});
+
+describe('bearings', () => {
+  it('takes the variation from the World Magnetic Model', () => {
+    const date = new Date('2026-06-01T00:00:00Z');
+    // About 1° east in London and 13° west in New York.
+    expect(magneticVariation(london, date)).toBeGreaterThan(0);
+    expect(magneticVariation(london, date)).toBeLessThan(2);
+    expect(magneticVariation(newYork, date)).toBeGreaterThan(-14);
+    expect(magneticVariation(newYork, date)).toBeLessThan(-12);
+  });
+
+  it('refers bearings to true or magnetic north', () => {
+    expect(formatBearing(47.25, newYork, DEFAULT_PREFERENCES)).toBe('047.3°T');
+    const magnetic = preferences({ bearingReference: 'magnetic' });
+    expect(referenceBearing(47.25, newYork, magnetic)).toBeCloseTo(47.25 - magneticVariation(newYork), 9);
+    expect(formatBearing(47.25, newYork, magnetic)).toMatch(/^0[56]\d\.\d°M$/);
+    // A westerly variation takes bearings just short of north past 360°, back round to the start.
+    expect(referenceBearing(355, newYork, magnetic)).toBeLessThan(10);
+  });
+});
+
+describe('formatCoordinates', () => {
+  it('writes decimal degrees, DMS and DDM', () => {
+    expect(formatCoordinates(london, DEFAULT_PREFERENCES)).toBe('51.4700, -0.4500');
+    expect(formatCoordinates(london, preferences({ coordinateFormat: 'dms' }))).toBe('51°28′12.0″N, 0°27′00.0″W');
+    expect(formatCoordinates({ lat: -33.9461, lon: 151.1772 }, preferences({ coordinateFormat: 'ddm' }))).toBe('33°56.766′S, 151°10.632′E');
+  });
+
+  it('carries rounded minutes and seconds into the degrees', () => {
+    expect(formatCoordinates({ lat: 59.999999, lon: 190 }, preferences({ coordinateFormat: 'dms' }))).toBe('60°00′00.0″N, 170°00′00.0″W');
+    expect(formatCoordinates({ lat: 59.999999, lon: -0.0000001 }, preferences({ coordinateFormat: 'ddm' }))).toBe('60°00.000′N, 0°00.000′W');
+  });
+
+  it('reads back with the coordinate parser', () => {
+    for (const coordinateFormat of ['decimal', 'dms', 'ddm'] as const) {
+      for (const coords of [london, newYork, { lat: -33.9461, lon: 151.1772 }, { lat: -0.5, lon: 179.99 }]) {
+        const parsed = parseCoordinateInput(formatCoordinates(coords, preferences({ coordinateFormat })))!;
+        expect(parsed.coords.lat).toBeCloseTo(coords.lat, 4);
+        expect(parsed.coords.lon).toBeCloseTo(coords.lon, 4);
+      }
+    }
+  });
+});
@@ -0,0 +1,139 @@
+import { magvar } from 'magvar';
+import type { Coordinates, DisplayPreferences, DistanceUnit } from '../types';
+import { normalizeLongitude } from './geo';
+
+/** Kilometers in one of each unit: the international nautical and statute miles. */
+const KM_PER_UNIT: Record<DistanceUnit, number> = {
+  km: 1,
+  nm: 1.852,
+  mi: 1.609344,
+};
+
+export const DISTANCE_UNIT_LABELS: Record<DistanceUnit, string> = {
+  km: 'km',
+  nm: 'NM',
+  mi: 'mi',
+};
+
+/**
+ * Converts a distance from kilometers.
+ * @param km - The distance in kilometers.
+ * @param unit - The unit to convert to.
+ * @returns The distance in that unit.
+ */
+export function fromKilometers(km: number, unit: DistanceUnit): number {
+  return km / KM_PER_UNIT[unit];
+}
+
+/**
+ * Converts a distance to kilometers.
+ * @param value - The distance in the given unit.
+ * @param unit - The unit it is in.
+ * @returns The distance in kilometers.
+ */
+export function toKilometers(value: number, unit: DistanceUnit): number {
+  return value * KM_PER_UNIT[unit];
+}
+
+/**
+ * Formats a distance in the preferred unit, e.g. "3,021 NM".
+ * @param km - The distance in kilometers.
+ * @param preferences - The display preferences.
+ * @param fractionDigits - Decimals to show at most; none by default.
+ * @returns The distance with its unit.
+ */
+export function formatDistance(km: number, preferences: DisplayPreferences, fractionDigits: number = 0): string {
+  const value = fromKilometers(km, preferences.distanceUnit);
+  return `${value.toLocaleString('en-US', { maximumFractionDigits: fractionDigits })} ${DISTANCE_UNIT_LABELS[preferences.distanceUnit]}`;
+}
+
+/**
+ * Looks up the magnetic variation (declination) at a position from the World Magnetic Model 2025,
+ * valid to the end of 2029.
+ * @param coords - The position, at sea level.
+ * @param date - When; defaults to now, as the field drifts by up to a few tenths of a degree a year.
+ * @returns Degrees from true to magnetic north; positive when magnetic north lies east of true north.
+ */
+export function magneticVariation(coords: Coordinates, date: Date = new Date()): number {
+  return magvar(coords.lat, normalizeLongitude(coords.lon), 0, date);
+}
+
+/**
+ * Refers a true bearing to north as preferred: magnetic bearings are the true bearing less the
+ * variation where it is taken.
+ * @param trueBearing - Degrees clockwise from true north.
+ * @param at - Where the bearing is taken.
+ * @param preferences - The display preferences.
+ * @returns Degrees clockwise from true or magnetic north, from 0 up to 360.
+ */
+export function referenceBearing(trueBearing: number, at: Coordinates, preferences: DisplayPreferences): number {
+  if (preferences.bearingReference === 'true') return trueBearing;
+  return ((trueBearing - magneticVariation(at)) % 360 + 360) % 360;
+}
+
+/**
+ * Formats a bearing as three-figure degrees from true or magnetic north, e.g. "047.3°T" or "051.0°M".
+ * @param trueBearing - Degrees clockwise from true north.
+ * @param at - Where the bearing is taken, for its magnetic variation.
+ * @param preferences - The display preferences.
+ * @returns The bearing with its reference.
+ */
+export function formatBearing(trueBearing: number, at: Coordinates, preferences: DisplayPreferences): string {
+  const bearing = referenceBearing(trueBearing, at, preferences);
+  return `${bearing.toFixed(1).padStart(5, '0')}°${preferences.bearingReference === 'true' ? 'T' : 'M'}`;
+}
+
+/** Splits an angle into whole degrees and the rest in sixtieths, rounded to `decimals` of the smallest part. */
+function sexagesimal(angle: number, parts: 2 | 3, decimals: number): number[] {
+  // Rounded as a whole number of the smallest part first, so that 59.96′ carries into the degrees.
+  const scale = 60 ** (parts - 1) * 10 ** decimals;
+  const total = Math.round(Math.abs(angle) * scale);
+  const smallest = (total % (60 * 10 ** decimals)) / 10 ** decimals;
+  return parts === 2
+    ? [Math.floor(total / scale), smallest]
+    : [Math.floor(total / scale), Math.floor(total / (60 * 10 ** decimals)) % 60, smallest];
+}
+
+function formatAngle(angle: number, hemispheres: [string, string], preferences: DisplayPreferences): string {
+  const hemisphere = angle < 0 ? hemispheres[1] : hemispheres[0];
+  if (preferences.coordinateFormat === 'dms') {
+    const [degrees, minutes, seconds] = sexagesimal(angle, 3, 1);
+    return `${degrees}°${String(minutes).padStart(2, '0')}′${seconds.toFixed(1).padStart(4, '0')}″${hemisphere}`;
+  }
+  const [degrees, minutes] = sexagesimal(angle, 2, 3);
+  return `${degrees}°${minutes.toFixed(3).padStart(6, '0')}′${hemisphere}`;
+}
+
+/**
+ * Formats a latitude in the preferred notation, e.g. "51.4700", "51°28′12.0″N" or "51°28.200′N".
+ * @param lat - The latitude in degrees.
+ * @param preferences - The display preferences.
+ * @param decimals - Decimals for decimal degrees; four (about 10 m) by default.
+ * @returns The latitude; signed in decimal degrees, with its hemisphere otherwise.
+ */
+export function formatLatitude(lat: number, preferences: DisplayPreferences, decimals: number = 4): string {
+  return preferences.coordinateFormat === 'decimal' ? lat.toFixed(decimals) : formatAngle(lat, ['N', 'S'], preferences);
+}
+
+/**
+ * Formats a longitude in the preferred notation, within ±180°.
+ * @param lon - The longitude in degrees.
+ * @param preferences - The display preferences.
+ * @param decimals - Decimals for decimal degrees; four (about 10 m) by default.
+ * @returns The longitude; signed in decimal degrees, with its hemisphere otherwise.
+ */
+export function formatLongitude(lon: number, preferences: DisplayPreferences, decimals: number = 4): string {
+  const normalized = normalizeLongitude(lon);
+  return preferences.coordinateFormat === 'decimal' ? normalized.toFixed(decimals) : formatAngle(normalized, ['E', 'W'], preferences);
+}
+
+/**
+ * Formats a position in the preferred notation: "51.4700, -0.4500", "51°28′12.0″N, 0°27′00.0″W"
+ * or "51°28.200′N, 0°27.000′W". Each reads back with parseCoordinateInput.
+ * @param coords - The position.
+ * @param preferences - The display preferences.
+ * @returns Latitude then longitude, to about 10 m in decimal degrees and a few meters otherwise.
+ */
+export function formatCoordinates(coords: Coordinates, preferences: DisplayPreferences): string {
+  return `${formatLatitude(coords.lat, preferences)}, ${formatLongitude(coords.lon, preferences)}`;
+}
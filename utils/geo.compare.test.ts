@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { Coordinates, PathType } from '../types';
+import { calculatePathDistance } from './geo';
+import { EARTH_MODELS } from './geodesic';
+
+/**
+ * Comparison mode: how far the 6371 km sphere is from the WGS-84 ellipsoid for a spread of routes.
+ * `npm run test:compare` prints the table; a plain `npm test` only checks the errors stay within bounds.
+ */
+
+const ROUTES: { name: string; from: Coordinates; to: Coordinates }[] = [
+  { name: 'London – New York', from: { lat: 51.47, lon: -0.45 }, to: { lat: 40.64, lon: -73.78 } },
+  { name: 'Tokyo – San Francisco', from: { lat: 35.55, lon: 139.78 }, to: { lat: 37.62, lon: -122.38 } },
+  { name: 'Sydney – Santiago', from: { lat: -33.95, lon: 151.18 }, to: { lat: -33.39, lon: -70.79 } },
+  { name: 'Quito – Singapore (equatorial)', from: { lat: -0.13, lon: -78.36 }, to: { lat: 1.36, lon: 103.99 } },
+  { name: 'Cape Town – Oslo (meridional)', from: { lat: -33.97, lon: 18.6 }, to: { lat: 60.19, lon: 11.1 } },
+  { name: 'Reykjavík – Anchorage (high latitude)', from: { lat: 64.13, lon: -21.94 }, to: { lat: 61.17, lon: -149.99 } },
+  { name: 'Paris – Lyon (short)', from: { lat: 49.01, lon: 2.55 }, to: { lat: 45.73, lon: 5.08 } },
+];
+
+const PATH_TYPES: PathType[] = ['orthodromic', 'loxodromic', 'composite'];
+
+/** Largest relative error of the sphere; the flattening is about 0.34%, so this is its ceiling with some margin. */
+const MAX_RELATIVE_ERROR = 0.006;
+
+const rows = ROUTES.flatMap(({ name, from, to }) => PATH_TYPES.map(pathType => {
+  const reference = calculatePathDistance(from, to, pathType, EARTH_MODELS.wgs84);
+  const spherical = calculatePathDistance(from, to, pathType, EARTH_MODELS.sphere);
+  return {
+    route: name,
+    path: pathType,
+    'WGS-84 km': Number(reference.toFixed(3)),
+    'sphere km': Number(spherical.toFixed(3)),
+    'error km': Number((spherical - reference).toFixed(3)),
+    'error %': Number((100 * (spherical - reference) / reference).toFixed(3)),
+  };
+}));
+
+describe('sphere versus the WGS-84 ellipsoid', () => {
+  it.each(rows)('$route, $path', row => {
+    expect(Math.abs(row['error km']) / row['WGS-84 km']).toBeLessThan(MAX_RELATIVE_ERROR);
+  });
+
+  it.runIf(process.env.GEO_COMPARE)('reports the error of each route', () => {
+    console.table(rows);
+  });
+});
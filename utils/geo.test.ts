@@ -0,0 +1,286 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import type { Coordinates, EarthModel } from '../types';
+import {
+  calculateCompositeSailing,
+  calculateCourseInfo,
+  calculateCrossTrack,
+  calculateLoxodromicDistance,
+  calculateOrthodromicDistance,
+  calculatePathDistance,
+  calculateRouteCrossTrack,
+  calculateRouteLegs,
+  normalizeLongitude,
+} from './geo';
+import { createCustomEarthModel, EARTH_MODELS, MIN_INVERSE_FLATTENING, solveGeodesicDirect, solveGeodesicInverse, solveRhumbDirect, solveRhumbInverse } from './geodesic';
+
+const sphere = EARTH_MODELS.sphere;
+const wgs84 = EARTH_MODELS.wgs84;
+const grs80 = EARTH_MODELS.grs80;
+const bessel: EarthModel = { id: 'custom', a: 6377.397155, f: 1 / 299.1528128 };
+
+const dms = (degrees: number, minutes: number, seconds: number) =>
+  Math.sign(degrees || 1) * (Math.abs(degrees) + minutes / 60 + seconds / 3600);
+
+/** Difference between two angles in degrees, ignoring whole turns. */
+const angleError = (a: number, b: number) => Math.abs(normalizeLongitude(a - b));
+
+const latitude = fc.double({ min: -90, max: 90, noNaN: true });
+const longitude = fc.double({ min: -180, max: 180, noNaN: true });
+const point = fc.record({ lat: latitude, lon: longitude });
+const model = fc.constantFrom(sphere, wgs84);
+
+describe('known answers', () => {
+  // Published results, each stated to about 1 mm (or 0.01″ for courses).
+  const geodesicCases: { name: string; model: EarthModel; p1: Coordinates; p2: Coordinates; distance: number; initial: number; final: number }[] = [
+    {
+      name: 'GeographicLib, JFK to LHR (WGS-84)',
+      model: wgs84,
+      p1: { lat: 40.6, lon: -73.8 },
+      p2: { lat: 51.6, lon: -0.5 },
+      distance: 5551.7594,
+      initial: 51.198882845579,
+      final: 107.821776735514,
+    },
+    {
+      name: 'Karney (2013), nearly antipodal (WGS-84)',
+      model: wgs84,
+      p1: { lat: -30, lon: 0 },
+      p2: { lat: 29.9, lon: 179.8 },
+      distance: 19989.832827610,
+      initial: 161.890524736,
+      final: 18.090737246,
+    },
+    {
+      name: 'Vincenty (1975) line (a) (Bessel)',
+      model: bessel,
+      p1: { lat: dms(55, 45, 0), lon: 0 },
+      p2: { lat: -dms(33, 26, 0), lon: dms(108, 13, 0) },
+      distance: 14110.526170,
+      initial: dms(96, 36, 8.79960),
+      final: dms(137, 52, 22.01454),
+    },
+    {
+      name: 'Geoscience Australia, Flinders Peak to Buninyong (GRS-80)',
+      model: grs80,
+      p1: { lat: -dms(37, 57, 3.72030), lon: dms(144, 25, 29.52440) },
+      p2: { lat: -dms(37, 39, 10.15610), lon: dms(143, 55, 35.38390) },
+      distance: 54.972271,
+      initial: dms(306, 52, 5.37),
+      // Published as the reverse azimuth, 127°10′25.07″.
+      final: dms(307, 10, 25.07),
+    },
+  ];
+
+  it.each(geodesicCases)('$name', ({ model, p1, p2, distance, initial, final }) => {
+    expect(calculateOrthodromicDistance(p1, p2, model)).toBeCloseTo(distance, 6);
+    const course = calculateCourseInfo(p1, p2, model);
+    expect(angleError(course.initialCourse, initial)).toBeLessThan(0.01 / 3600);
+    expect(angleError(course.finalCourse, final)).toBeLessThan(0.01 / 3600);
+  });
+
+  it("great circle from Land's End to John o' Groats on the 6371 km sphere", () => {
+    // Veness, "Calculate distance, bearing and more between Latitude/Longitude points".
+    const landsEnd = { lat: dms(50, 3, 59), lon: -dms(5, 42, 53) };
+    const johnOGroats = { lat: dms(58, 38, 38), lon: -dms(3, 4, 12) };
+    expect(calculateOrthodromicDistance(landsEnd, johnOGroats)).toBeCloseTo(968.9, 1);
+    const course = calculateCourseInfo(landsEnd, johnOGroats);
+    expect(angleError(course.initialCourse, dms(9, 7, 11))).toBeLessThan(1 / 3600);
+    expect(angleError(course.finalCourse, dms(11, 16, 31))).toBeLessThan(1 / 3600);
+  });
+
+  it('rhumb line from Plymouth to Boston on the 6371 km sphere', () => {
+    // Veness, same source, rhumb-line section.
+    const plymouth = { lat: dms(50, 21, 59), lon: -dms(4, 8, 2) };
+    const boston = { lat: dms(42, 21, 4), lon: -dms(71, 2, 27) };
+    expect(calculateLoxodromicDistance(plymouth, boston)).toBeCloseTo(5198, 0);
+    expect(angleError(calculateCourseInfo(plymouth, boston).rhumbCourse, dms(260, 7, 38))).toBeLessThan(1 / 3600);
+  });
+
+  it('follows the equator and the meridians exactly', () => {
+    const quarterMeridian = 10001.965729; // WGS-84
+    expect(calculateOrthodromicDistance({ lat: 0, lon: 10 }, { lat: 90, lon: 10 }, wgs84)).toBeCloseTo(quarterMeridian, 5);
+    expect(calculateLoxodromicDistance({ lat: 0, lon: 10 }, { lat: 90, lon: 10 }, wgs84)).toBeCloseTo(quarterMeridian, 5);
+    // The shortest way between antipodes on the equator is over a pole.
+    expect(calculateOrthodromicDistance({ lat: 0, lon: 0 }, { lat: 0, lon: 180 }, wgs84)).toBeCloseTo(2 * quarterMeridian, 5);
+    expect(calculateLoxodromicDistance({ lat: 0, lon: 0 }, { lat: 0, lon: 1 }, wgs84)).toBeCloseTo(2 * Math.PI * wgs84.a / 360, 6);
+    expect(calculateOrthodromicDistance({ lat: 0, lon: 0 }, { lat: 0, lon: 180 })).toBeCloseTo(Math.PI * 6371, 6);
+  });
+
+  it('runs an E-W rhumb line along the parallel, the short way across the antimeridian', () => {
+    expect(calculateLoxodromicDistance({ lat: 60, lon: 10 }, { lat: 60, lon: 40 })).toBeCloseTo(6371 * Math.PI / 6 * 0.5, 6);
+    expect(calculateLoxodromicDistance({ lat: 0, lon: 179 }, { lat: 0, lon: -179 })).toBeCloseTo(6371 * 2 * Math.PI / 180, 6);
+    expect(calculateLoxodromicDistance({ lat: -45, lon: -170 }, { lat: -45, lon: 170 })).toBeCloseTo(6371 * Math.cos(Math.PI / 4) * 20 * Math.PI / 180, 6);
+  });
+
+  it('keeps the full precision of Δψ between latitudes a few micro-radians apart', () => {
+    // Δψ = Δφ sec φm (1 + (sec² φm + tan² φm) Δφ² / 24) to well within a rounding error here, whereas
+    // ln(tan a2 / tan a1) loses all but about ten significant figures to cancellation.
+    for (const lat of [-70, -35, 5, 40, 75]) {
+      for (const deltaPhi of [1.5e-6, 4e-6, -7e-6]) {
+        const phiM = lat * Math.PI / 180;
+        const [phi1, phi2] = [phiM - deltaPhi / 2, phiM + deltaPhi / 2];
+        const deltaPsi = deltaPhi / Math.cos(phiM) * (1 + (1 / Math.cos(phiM) ** 2 + Math.tan(phiM) ** 2) * deltaPhi ** 2 / 24);
+        const deltaLon = Math.PI / 2;
+        const exact = 6371 * Math.hypot(deltaPhi, deltaPhi / deltaPsi * deltaLon);
+        const distance = calculateLoxodromicDistance({ lat: phi1 * 180 / Math.PI, lon: 0 }, { lat: phi2 * 180 / Math.PI, lon: 90 });
+        expect(Math.abs(distance - exact) / exact).toBeLessThan(1e-13);
+      }
+    }
+  });
+});
+
+describe('properties', () => {
+  it('distances are symmetric', () => {
+    fc.assert(fc.property(point, point, model, (p1, p2, m) => {
+      expect(calculateOrthodromicDistance(p1, p2, m)).toBeCloseTo(calculateOrthodromicDistance(p2, p1, m), 6);
+      expect(calculateLoxodromicDistance(p1, p2, m)).toBeCloseTo(calculateLoxodromicDistance(p2, p1, m), 6);
+    }));
+  });
+
+  it('great-circle distances obey the triangle inequality', () => {
+    fc.assert(fc.property(point, point, point, model, (a, b, c, m) => {
+      expect(calculateOrthodromicDistance(a, c, m)).toBeLessThanOrEqual(calculateOrthodromicDistance(a, b, m) + calculateOrthodromicDistance(b, c, m) + 1e-6);
+    }));
+  });
+
+  it('the great circle is never longer than the rhumb line or the composite sailing', () => {
+    fc.assert(fc.property(point, point, model, (p1, p2, m) => {
+      const greatCircle = calculateOrthodromicDistance(p1, p2, m);
+      expect(greatCircle).toBeLessThanOrEqual(calculateLoxodromicDistance(p1, p2, m) + 1e-6);
+      expect(greatCircle).toBeLessThanOrEqual(calculatePathDistance(p1, p2, 'composite', m, 60) + 1e-6);
+    }));
+  });
+
+  it('no great circle is longer than half the way round the earth', () => {
+    fc.assert(fc.property(point, point, (p1, p2) => {
+      expect(calculateOrthodromicDistance(p1, p2)).toBeLessThanOrEqual(Math.PI * 6371 + 1e-9);
+    }));
+  });
+
+  it('distances do not depend on where the antimeridian is', () => {
+    fc.assert(fc.property(point, point, fc.double({ min: -360, max: 360, noNaN: true }), model, (p1, p2, shift, m) => {
+      const q1 = { lat: p1.lat, lon: normalizeLongitude(p1.lon + shift) };
+      const q2 = { lat: p2.lat, lon: normalizeLongitude(p2.lon + shift) };
+      expect(calculateOrthodromicDistance(q1, q2, m)).toBeCloseTo(calculateOrthodromicDistance(p1, p2, m), 6);
+      expect(calculateLoxodromicDistance(q1, q2, m)).toBeCloseTo(calculateLoxodromicDistance(p1, p2, m), 6);
+    }));
+  });
+
+  it('nearly E-W rhumb lines agree with the exactly E-W one', () => {
+    const tiny = fc.double({ min: 0, max: 1e-6, noNaN: true });
+    fc.assert(fc.property(fc.double({ min: -80, max: 80, noNaN: true }), longitude, longitude, tiny, model, (lat, lon1, lon2, dLat, m) => {
+      const exact = calculateLoxodromicDistance({ lat, lon: lon1 }, { lat, lon: lon2 }, m);
+      const nearly = calculateLoxodromicDistance({ lat, lon: lon1 }, { lat: lat + dLat, lon: lon2 }, m);
+      // Moving one end by dLat changes the N-S part by dLat of meridian and the E-W part, whose
+      // scale varies with latitude, by at most dLat of meridian per radian of longitude; plus 1 mm.
+      const meridian = dLat * Math.PI / 180 * m.a * 1.01;
+      expect(Math.abs(nearly - exact)).toBeLessThanOrEqual(meridian * (1 + Math.PI) + 1e-6);
+    }));
+  });
+
+  it('every path to a pole runs along the meridian', () => {
+    fc.assert(fc.property(point, fc.constantFrom(90, -90), longitude, (p, poleLat, poleLon) => {
+      const pole = { lat: poleLat, lon: poleLon };
+      const meridian = Math.abs(poleLat - p.lat) * Math.PI / 180 * 6371;
+      expect(calculateOrthodromicDistance(p, pole)).toBeCloseTo(meridian, 6);
+      expect(calculateLoxodromicDistance(p, pole)).toBeCloseTo(meridian, 6);
+      expect(calculateLoxodromicDistance(p, pole, wgs84)).toBeCloseTo(calculateOrthodromicDistance(p, pole, wgs84), 6);
+    }));
+  });
+
+  it('antipodes are half a great circle apart', () => {
+    fc.assert(fc.property(point, p => {
+      const antipode = { lat: -p.lat, lon: normalizeLongitude(p.lon + 180) };
+      expect(calculateOrthodromicDistance(p, antipode)).toBeCloseTo(Math.PI * 6371, 6);
+    }));
+  });
+
+  it('a composite sailing never goes poleward of its limiting latitude', () => {
+    const below = fc.record({ lat: fc.double({ min: -59, max: 59, noNaN: true }), lon: longitude });
+    fc.assert(fc.property(below, below, model, (p1, p2, m) => {
+      const sailing = calculateCompositeSailing(p1, p2, 60, m);
+      expect(sailing).not.toBeNull();
+      for (const segment of sailing!.segments) {
+        expect(Math.abs(segment.from.lat)).toBeLessThanOrEqual(60 + 1e-9);
+        expect(Math.abs(segment.to.lat)).toBeLessThanOrEqual(60 + 1e-9);
+      }
+    }));
+  });
+});
+
+describe('cross-track', () => {
+  it('matches the spherical textbook example', () => {
+    // Veness, "Calculate distance, bearing and more between Latitude/Longitude points": -307.5 m and 62.331 km.
+    const result = calculateCrossTrack({ lat: 53.3206, lon: -1.7297 }, { lat: 53.1887, lon: 0.1334 }, { lat: 53.2611, lon: -0.7972 }, 'orthodromic');
+    expect(result.crossTrackDistance).toBeCloseTo(-0.3075, 4);
+    expect(result.alongTrackDistance).toBeCloseTo(62.331, 3);
+  });
+
+  it('the closest point is on the line and nearer than its neighbours', () => {
+    const offset = fc.double({ min: -20, max: 20, noNaN: true });
+    const start = fc.record({ lat: fc.double({ min: -60, max: 60, noNaN: true }), lon: longitude });
+    fc.assert(fc.property(start, offset, offset, offset, offset, fc.constantFrom('orthodromic' as const, 'loxodromic' as const), model,
+      (p1, dLat, dLon, pLat, pLon, pathType, m) => {
+        const p2 = { lat: p1.lat + dLat, lon: normalizeLongitude(p1.lon + dLon) };
+        const position = { lat: p1.lat + pLat, lon: normalizeLongitude(p1.lon + pLon) };
+        fc.pre(calculateOrthodromicDistance(p1, p2, m) > 1);
+        const { crossTrackDistance, alongTrackDistance, closestPoint } = calculateCrossTrack(p1, p2, position, pathType, m);
+        const along = (distance: number) => pathType === 'loxodromic'
+          ? solveRhumbDirect(p1, solveRhumbInverse(p1, p2, m).bearing, distance, m)
+          : solveGeodesicDirect(p1, solveGeodesicInverse(p1, p2, m).initialBearing, distance, m).point;
+        expect(calculateOrthodromicDistance(closestPoint, along(alongTrackDistance), m)).toBeLessThan(1e-6);
+        expect(calculateOrthodromicDistance(position, closestPoint, m)).toBeCloseTo(Math.abs(crossTrackDistance), 6);
+        for (const step of [-1, 1]) {
+          expect(calculateOrthodromicDistance(position, along(alongTrackDistance + step), m)).toBeGreaterThan(Math.abs(crossTrackDistance) - 1e-6);
+        }
+      }));
+  });
+
+  it('measures a route from its nearest leg', () => {
+    const waypoints = [
+      { name: 'A', coords: { lat: 0, lon: 0 } },
+      { name: 'B', coords: { lat: 0, lon: 10 } },
+      { name: 'C', coords: { lat: 10, lon: 10 } },
+    ];
+    const legs = calculateRouteLegs(waypoints, ['orthodromic', 'orthodromic']);
+    const degree = Math.PI / 180 * 6371;
+
+    // North of the first leg, heading east: to the left.
+    const first = calculateRouteCrossTrack(legs, { lat: 1, lon: 3 })!;
+    expect(first.leg).toBe(0);
+    expect(first.abeam).toBe(true);
+    expect(first.crossTrackDistance).toBeCloseTo(-degree, 6);
+    expect(first.alongTrackDistance).toBeCloseTo(3 * degree, 6);
+
+    // East of the second leg, heading north: to the right, and along-track from the start of the route.
+    const second = calculateRouteCrossTrack(legs, { lat: 5, lon: 10.5 })!;
+    expect(second.leg).toBe(1);
+    expect(second.crossTrackDistance).toBeGreaterThan(0);
+    expect(second.alongTrackDistance).toBeCloseTo(legs[0].distance + calculateOrthodromicDistance({ lat: 0, lon: 10 }, second.closestPoint), 6);
+
+    // Past the destination, the closest point of the line lies beyond the last leg.
+    const beyond = calculateRouteCrossTrack(legs, { lat: 12, lon: 10 })!;
+    expect(beyond.leg).toBe(1);
+    expect(beyond.abeam).toBe(false);
+    expect(beyond.alongTrackDistance).toBeGreaterThan(legs[1].cumulativeDistance);
+  });
+});
+
+describe('createCustomEarthModel', () => {
+  it('builds ellipsoids the solver can handle', () => {
+    expect(createCustomEarthModel(6377.397155, 299.1528128)).toEqual(bessel);
+    expect(createCustomEarthModel(6371, 0)).toEqual({ id: 'custom', a: 6371, f: 0 });
+    const flattest = createCustomEarthModel(6378, MIN_INVERSE_FLATTENING);
+    expect(calculateOrthodromicDistance({ lat: 0, lon: 0 }, { lat: 0, lon: 179.5 }, flattest)).toBeGreaterThan(0);
+  });
+
+  it('rejects an infinite or non-positive axis and too great a flattening', () => {
+    for (const a of [0, -1, Infinity, NaN]) {
+      expect(() => createCustomEarthModel(a, 298.257223563)).toThrow(/Semi-major axis/);
+    }
+    for (const inverseFlattening of [1.0001, 2, MIN_INVERSE_FLATTENING - 1, -300, Infinity, NaN]) {
+      expect(() => createCustomEarthModel(6378, inverseFlattening)).toThrow(new RegExp(`at least ${MIN_INVERSE_FLATTENING}`));
+    }
+  });
+});
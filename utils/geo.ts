@@ -1,22 +1,35 @@
-import type { Coordinates } from '../types';
+import type { CompositeSailing, Coordinates, CourseInfo, CrossTrack, EarthModel, LocationPoint, PathType, RouteCrossTrack, RouteLeg } from '../types';
+import { DEFAULT_EARTH_MODEL, solveGeodesicDirect, solveGeodesicInverse, solveGeodesicVertices, solveRhumbDirect, solveRhumbInverse } from './geodesic';
+
+/** Default limiting latitude for composite sailing, in degrees. */
+export const DEFAULT_LIMITING_LATITUDE = 60;
 
 /**
  * Calculates the great-circle distance between two points on the Earth.
+ * On an ellipsoidal model this is the geodesic (shortest path) distance.
  * @param p1 - The first point with latitude and longitude.
  * @param p2 - The second point with latitude and longitude.
+ * @param model - The earth model; defaults to the 6371 km sphere.
  * @returns The distance in kilometers.
  */
-export function calculateOrthodromicDistance(p1: Coordinates, p2: Coordinates): number {
-  const R = 6371; // Radius of the Earth in kilometers
-  const dLat = deg2rad(p2.lat - p1.lat);
+export function calculateOrthodromicDistance(p1: Coordinates, p2: Coordinates, model: EarthModel = DEFAULT_EARTH_MODEL): number {
+  if (model.f !== 0) {
+    return solveGeodesicInverse(p1, p2, model).distance;
+  }
+
+  const R = model.a; // Radius of the Earth in kilometers
+  const phi1 = deg2rad(p1.lat);
+  const phi2 = deg2rad(p2.lat);
   const dLon = deg2rad(p2.lon - p1.lon);
-  
-  const a = 
-    Math.sin(dLat/2) * Math.sin(dLat/2) +
-    Math.cos(deg2rad(p1.lat)) * Math.cos(deg2rad(p2.lat)) * 
-    Math.sin(dLon/2) * Math.sin(dLon/2);
-    
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a)); 
+
+  // Vincenty's form of the spherical law: unlike the haversine, it stays accurate for
+  // nearly antipodal points as well as close ones.
+  const y = Math.hypot(
+    Math.cos(phi2) * Math.sin(dLon),
+    Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLon)
+  );
+  const x = Math.sin(phi1) * Math.sin(phi2) + Math.cos(phi1) * Math.cos(phi2) * Math.cos(dLon);
+  const c = Math.atan2(y, x);
   const d = R * c; // Distance in km
   return d;
 }
@@ -25,10 +38,15 @@ export function calculateOrthodromicDistance(p1: Coordinates, p2: Coordinates):
  * Calculates the loxodromic (rhumb line) distance between two points on the Earth.
  * @param p1 - The first point with latitude and longitude.
  * @param p2 - The second point with latitude and longitude.
+ * @param model - The earth model; defaults to the 6371 km sphere.
  * @returns The distance in kilometers.
  */
-export function calculateLoxodromicDistance(p1: Coordinates, p2: Coordinates): number {
-  const R = 6371; // Radius of the Earth in kilometers
+export function calculateLoxodromicDistance(p1: Coordinates, p2: Coordinates, model: EarthModel = DEFAULT_EARTH_MODEL): number {
+  if (model.f !== 0) {
+    return solveRhumbInverse(p1, p2, model).distance;
+  }
+
+  const R = model.a; // Radius of the Earth in kilometers
   const phi1 = deg2rad(p1.lat);
   const phi2 = deg2rad(p2.lat);
   const deltaPhi = phi2 - phi1;
@@ -39,17 +57,252 @@ export function calculateLoxodromicDistance(p1: Coordinates, p2: Coordinates): n
     deltaLon = deltaLon > 0 ? -(2 * Math.PI - deltaLon) : (2 * Math.PI + deltaLon);
   }
 
-  const deltaPsi = Math.log(Math.tan(phi2 / 2 + Math.PI / 4) / Math.tan(phi1 / 2 + Math.PI / 4));
-  
-  // Check for straight E-W line (deltaPsi is 0)
-  const q = Math.abs(deltaPsi) > 10e-12 ? deltaPhi / deltaPsi : Math.cos(phi1);
+  // Δψ = ln(tan a2 / tan a1) with a = π/4 + φ/2, written as ln(1 + (tan a2 - tan a1) / tan a1) so that
+  // nearby latitudes do not cancel: tan a2 - tan a1 = sin(Δφ/2) / (cos a2 cos a1). Taken northward,
+  // where the logarithm's argument is positive, then given the direction's sign.
+  const south = Math.min(phi1, phi2);
+  const north = Math.max(phi1, phi2);
+  const northwardPsi = Math.log1p(Math.sin((north - south) / 2) / (Math.cos(Math.PI / 4 + north / 2) * Math.sin(Math.PI / 4 + south / 2)));
+  const deltaPsi = deltaPhi < 0 ? -northwardPsi : northwardPsi;
+
+  // q = Δφ/Δψ scales the E-W part of the line. A line to a pole reaches it heading due north or
+  // south (Δψ is infinite), so q is 0. As Δφ and Δψ vanish together for nearly E-W lines, their
+  // ratio tends to 0/0; use its limit, the cosine of the mean latitude, once Δφ is below a
+  // micro-radian (about 6 m).
+  const reachesPole = Math.abs(p1.lat) === 90 || Math.abs(p2.lat) === 90;
+  const q = reachesPole ? 0 : Math.abs(deltaPhi) > 1e-6 ? deltaPhi / deltaPsi : Math.cos((phi1 + phi2) / 2);
 
   const d = Math.sqrt(deltaPhi * deltaPhi + q * q * deltaLon * deltaLon) * R;
 
   return d;
 }
 
+/**
+ * Calculates a composite great-circle sailing that does not go poleward of a limiting latitude:
+ * a great circle to the limiting parallel, along the parallel, then a great circle to the destination.
+ * @param p1 - The departure point.
+ * @param p2 - The destination point.
+ * @param limitingLatitude - The highest latitude allowed, in degrees (applies to either hemisphere).
+ * @param model - The earth model; defaults to the 6371 km sphere.
+ * @returns The sailing, or null if either endpoint already lies beyond the limiting latitude.
+ */
+export function calculateCompositeSailing(p1: Coordinates, p2: Coordinates, limitingLatitude: number, model: EarthModel = DEFAULT_EARTH_MODEL): CompositeSailing | null {
+  const limit = Math.abs(limitingLatitude);
+  if (Math.abs(p1.lat) > limit || Math.abs(p2.lat) > limit) return null;
+
+  const greatCircle: CompositeSailing = {
+    segments: [{ kind: 'orthodromic', from: p1, to: p2, distance: calculateOrthodromicDistance(p1, p2, model) }],
+    distance: calculateOrthodromicDistance(p1, p2, model),
+    limited: false,
+  };
+
+  const { vertex, vertexOnPath } = calculateCourseInfo(p1, p2, model);
+  if (!vertex || !vertexOnPath || Math.abs(vertex.lat) <= limit) return greatCircle;
+
+  const north = vertex.lat > 0;
+  const eastbound = normalizeLongitude(p2.lon - p1.lon) > 0;
+
+  // Clairaut: a geodesic whose vertex is at reduced latitude βL leaves latitude β with sin α = cos βL / cos β.
+  const cosReduced = (lat: number) => 1 / Math.hypot(1, (1 - model.f) * Math.tan(deg2rad(lat)));
+  const tangentVertex = (from: Coordinates, towardEast: boolean): Coordinates | null => {
+    const alpha = rad2deg(Math.asin(Math.min(1, cosReduced(limit) / cosReduced(from.lat))));
+    const azimuth = north ? (towardEast ? alpha : 360 - alpha) : (towardEast ? 180 - alpha : 180 + alpha);
+    const vertices = solveGeodesicVertices(from, azimuth, model);
+    return vertices ? vertices[north ? 0 : 1].point : null;
+  };
+
+  const v1 = tangentVertex(p1, eastbound);
+  const v2 = tangentVertex(p2, !eastbound);
+  if (!v1 || !v2) return greatCircle;
+
+  // The tangent arcs must leave a run along the parallel in the direction of travel.
+  const parallelLon = normalizeLongitude(v2.lon - v1.lon);
+  if (parallelLon !== 0 && (parallelLon > 0) !== eastbound) return greatCircle;
+
+  const segments: CompositeSailing['segments'] = [
+    { kind: 'orthodromic', from: p1, to: v1, distance: calculateOrthodromicDistance(p1, v1, model) },
+    { kind: 'parallel', from: v1, to: v2, distance: calculateLoxodromicDistance(v1, v2, model) },
+    { kind: 'orthodromic', from: v2, to: p2, distance: calculateOrthodromicDistance(v2, p2, model) },
+  ];
+  return {
+    segments,
+    distance: segments.reduce((sum, segment) => sum + segment.distance, 0),
+    limited: true,
+  };
+}
+
+/**
+ * Calculates the distance of a single leg using the formula for its path type.
+ * @param p1 - The start of the leg.
+ * @param p2 - The end of the leg.
+ * @param pathType - Whether the leg is flown as a great circle, a rhumb line or a composite sailing.
+ * @param model - The earth model; defaults to the 6371 km sphere.
+ * @param limitingLatitude - The limiting latitude for composite legs, in degrees.
+ * @returns The distance in kilometers. Composite legs with an endpoint beyond the limit fall back to the great circle.
+ */
+export function calculatePathDistance(p1: Coordinates, p2: Coordinates, pathType: PathType, model: EarthModel = DEFAULT_EARTH_MODEL, limitingLatitude: number = DEFAULT_LIMITING_LATITUDE): number {
+  switch (pathType) {
+    case 'loxodromic':
+      return calculateLoxodromicDistance(p1, p2, model);
+    case 'composite':
+      return calculateCompositeSailing(p1, p2, limitingLatitude, model)?.distance ?? calculateOrthodromicDistance(p1, p2, model);
+    default:
+      return calculateOrthodromicDistance(p1, p2, model);
+  }
+}
+
+/**
+ * Calculates the navigational courses between two points for both path types.
+ * @param p1 - The departure point.
+ * @param p2 - The destination point.
+ * @param model - The earth model; defaults to the 6371 km sphere.
+ * @returns Great-circle and rhumb courses, the great-circle vertex and the distance comparison.
+ */
+export function calculateCourseInfo(p1: Coordinates, p2: Coordinates, model: EarthModel = DEFAULT_EARTH_MODEL): CourseInfo {
+  const geodesic = solveGeodesicInverse(p1, p2, model);
+  const rhumb = solveRhumbInverse(p1, p2, model);
+  const orthodromicDistance = calculateOrthodromicDistance(p1, p2, model);
+  const loxodromicDistance = calculateLoxodromicDistance(p1, p2, model);
+
+  // Of the two vertices, keep the one closest to (ideally within) the leg.
+  const vertices = solveGeodesicVertices(p1, geodesic.initialBearing, model);
+  const gap = (d: number) => Math.max(0, -d, d - geodesic.distance);
+  const vertex = vertices ? (gap(vertices[0].distance) <= gap(vertices[1].distance) ? vertices[0] : vertices[1]) : null;
+
+  return {
+    initialCourse: geodesic.initialBearing,
+    finalCourse: geodesic.finalBearing,
+    rhumbCourse: rhumb.bearing,
+    vertex: vertex ? vertex.point : null,
+    vertexOnPath: vertex !== null && gap(vertex.distance) === 0,
+    orthodromicDistance,
+    loxodromicDistance,
+    distanceSaved: loxodromicDistance - orthodromicDistance,
+  };
+}
+
+/**
+ * Splits an ordered list of waypoints into legs with per-leg and cumulative distances.
+ * @param waypoints - The waypoints in travel order.
+ * @param legPathTypes - The path type of each leg; `legPathTypes[i]` joins waypoints `i` and `i + 1`.
+ * @param model - The earth model; defaults to the 6371 km sphere.
+ * @param limitingLatitude - The limiting latitude for composite legs, in degrees.
+ * @returns One entry per leg, in travel order.
+ */
+export function calculateRouteLegs(waypoints: LocationPoint[], legPathTypes: PathType[], model: EarthModel = DEFAULT_EARTH_MODEL, limitingLatitude: number = DEFAULT_LIMITING_LATITUDE): RouteLeg[] {
+  const legs: RouteLeg[] = [];
+  let cumulativeDistance = 0;
+  for (let i = 0; i < waypoints.length - 1; i++) {
+    const pathType = legPathTypes[i] ?? 'orthodromic';
+    const composite = pathType === 'composite'
+      ? calculateCompositeSailing(waypoints[i].coords, waypoints[i + 1].coords, limitingLatitude, model)
+      : null;
+    const distance = composite ? composite.distance : calculatePathDistance(waypoints[i].coords, waypoints[i + 1].coords, pathType, model, limitingLatitude);
+    cumulativeDistance += distance;
+    const course = calculateCourseInfo(waypoints[i].coords, waypoints[i + 1].coords, model);
+    legs.push({ from: waypoints[i], to: waypoints[i + 1], pathType, distance, cumulativeDistance, course, composite });
+  }
+  return legs;
+}
+
+/** The foot of a perpendicular is refined until it moves less than this, in km (i.e. 1 mm). */
+const CROSS_TRACK_TOLERANCE = 1e-6;
+
+const CROSS_TRACK_MAX_ITERATIONS = 100;
+
+/**
+ * Calculates where a position lies relative to a great circle or a rhumb line through two points:
+ * how far it is off the line, and how far along the line it is abeam.
+ * @param p1 - The start of the line.
+ * @param p2 - A second point, giving the line its direction.
+ * @param position - The position to check.
+ * @param pathType - Whether the line is a great circle or a rhumb line.
+ * @param model - The earth model; defaults to the 6371 km sphere.
+ * @returns The cross-track and along-track distances and the closest point of the line.
+ */
+export function calculateCrossTrack(p1: Coordinates, p2: Coordinates, position: Coordinates, pathType: Exclude<PathType, 'composite'>, model: EarthModel = DEFAULT_EARTH_MODEL): CrossTrack {
+  const rhumbCourse = pathType === 'loxodromic' ? solveRhumbInverse(p1, p2, model).bearing : 0;
+  const initialCourse = pathType === 'orthodromic' ? solveGeodesicInverse(p1, p2, model).initialBearing : 0;
+  // The point of the line a given distance from its start, and its course there.
+  const along = (distance: number): { point: Coordinates; course: number } => {
+    if (pathType === 'loxodromic') return { point: solveRhumbDirect(p1, rhumbCourse, distance, model), course: rhumbCourse };
+    const { point, finalBearing } = solveGeodesicDirect(p1, initialCourse, distance, model);
+    return { point, course: finalBearing };
+  };
+
+  // Slide along the line until the geodesic to the position leaves it at right angles. On a sphere the
+  // right triangle gives tan(along) = tan(distance) · cos(angle), so a great circle takes a single step;
+  // the ellipsoid and rhumb lines converge on it in a few more.
+  let distance = 0;
+  let foot = along(0);
+  let toPosition = solveGeodesicInverse(foot.point, position, model);
+  if (calculateOrthodromicDistance(p1, p2, model) > 0) {
+    for (let i = 0; i < CROSS_TRACK_MAX_ITERATIONS; i++) {
+      const angle = deg2rad(toPosition.initialBearing - foot.course);
+      const sigma = toPosition.distance / model.a;
+      const step = Math.atan2(Math.sin(sigma) * Math.cos(angle), Math.cos(sigma)) * model.a;
+      distance += step;
+      foot = along(distance);
+      toPosition = solveGeodesicInverse(foot.point, position, model);
+      if (Math.abs(step) < CROSS_TRACK_TOLERANCE) break;
+    }
+  }
+
+  const side = Math.sin(deg2rad(toPosition.initialBearing - foot.course)) < 0 ? -1 : 1;
+  return {
+    crossTrackDistance: side * toPosition.distance,
+    alongTrackDistance: distance,
+    closestPoint: foot.point,
+  };
+}
+
+/**
+ * Checks a position against a route: finds the leg it is nearest and measures it from that leg's line.
+ * Composite legs are checked against each of their great-circle arcs and their run along the parallel.
+ * @param legs - The legs of the route, in travel order.
+ * @param position - The position to check.
+ * @param model - The earth model; defaults to the 6371 km sphere.
+ * @returns The cross-track distance from the nearest leg, the along-track distance from the start of the route
+ *   and the closest point, or null if the route has no legs.
+ */
+export function calculateRouteCrossTrack(legs: RouteLeg[], position: Coordinates, model: EarthModel = DEFAULT_EARTH_MODEL): RouteCrossTrack | null {
+  let best: { result: RouteCrossTrack; gap: number } | null = null;
+  for (let index = 0; index < legs.length; index++) {
+    const leg = legs[index];
+    const segments = leg.composite
+      ? leg.composite.segments.map(segment => ({ ...segment, pathType: segment.kind === 'parallel' ? 'loxodromic' as const : 'orthodromic' as const }))
+      : [{ from: leg.from.coords, to: leg.to.coords, distance: leg.distance, pathType: leg.pathType === 'loxodromic' ? 'loxodromic' as const : 'orthodromic' as const }];
+    let offset = leg.cumulativeDistance - leg.distance;
+    for (const segment of segments) {
+      const result = calculateCrossTrack(segment.from, segment.to, position, segment.pathType, model);
+      const abeam = result.alongTrackDistance >= 0 && result.alongTrackDistance <= segment.distance;
+      // How far the position is from this stretch of the route itself, not its extension.
+      const gap = abeam
+        ? Math.abs(result.crossTrackDistance)
+        : Math.min(calculateOrthodromicDistance(position, segment.from, model), calculateOrthodromicDistance(position, segment.to, model));
+      if (!best || gap < best.gap) {
+        best = { result: { ...result, alongTrackDistance: offset + result.alongTrackDistance, leg: index, abeam }, gap };
+      }
+      offset += segment.distance;
+    }
+  }
+  return best?.result ?? null;
+}
+
+/**
+ * Wraps a longitude into the range [-180, 180].
+ * @param lon - Longitude in degrees.
+ * @returns The equivalent longitude within [-180, 180].
+ */
+export function normalizeLongitude(lon: number): number {
+  const x = ((lon + 180) % 360 + 360) % 360 - 180;
+  return x === -180 ? 180 : x;
+}
 
 function deg2rad(deg: number): number {
   return deg * (Math.PI/180);
 }
+
+function rad2deg(rad: number): number {
+  return rad * (180/Math.PI);
+}
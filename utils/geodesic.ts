@@ -0,0 +1,875 @@
+import type { Coordinates, EarthModel } from '../types';
+
+/**
+ * Geodesic and rhumb-line solutions on an ellipsoid of revolution.
+ *
+ * The geodesic solver follows C. F. F. Karney, "Algorithms for geodesics",
+ * J. Geodesy 87, 43-55 (2013): series expansions to sixth order in the third
+ * flattening, Newton's method on the azimuth for the inverse problem, and the
+ * astroid starting guess that keeps near-antipodal pairs convergent.
+ * All lengths use the units of `model.a` (kilometers throughout this app).
+ */
+
+export const EARTH_MODELS: Record<Exclude<EarthModel['id'], 'custom'>, EarthModel> = {
+  sphere: { id: 'sphere', a: 6371, f: 0 },
+  wgs84: { id: 'wgs84', a: 6378.137, f: 1 / 298.257223563 },
+  grs80: { id: 'grs80', a: 6378.137, f: 1 / 298.257222101 },
+};
+
+export const DEFAULT_EARTH_MODEL: EarthModel = EARTH_MODELS.sphere;
+
+/** Smallest inverse flattening of a custom ellipsoid: the series expansions are accurate for |f| ≤ 1/50. */
+export const MIN_INVERSE_FLATTENING = 50;
+
+/**
+ * Builds a custom earth model, e.g. from the model selector or a shared link.
+ * @param a - The semi-major axis in kilometers.
+ * @param inverseFlattening - 1/f, or 0 for a sphere.
+ * @returns The model.
+ * @throws Error with a user-facing message if the solver cannot handle the ellipsoid.
+ */
+export function createCustomEarthModel(a: number, inverseFlattening: number): EarthModel {
+  if (!(Number.isFinite(a) && a > 0)) {
+    throw new Error('Semi-major axis must be a positive number of kilometers.');
+  }
+  if (!(inverseFlattening === 0 || (Number.isFinite(inverseFlattening) && inverseFlattening >= MIN_INVERSE_FLATTENING))) {
+    throw new Error(`Inverse flattening must be 0 (sphere) or at least ${MIN_INVERSE_FLATTENING}.`);
+  }
+  return { id: 'custom', a, f: inverseFlattening === 0 ? 0 : 1 / inverseFlattening };
+}
+
+export interface GeodesicInverseResult {
+  /** Length of the geodesic, in the units of the model's semi-major axis. */
+  distance: number;
+  /** True azimuth at the first point, degrees in [0, 360). */
+  initialBearing: number;
+  /** True azimuth at the second point, degrees in [0, 360). */
+  finalBearing: number;
+}
+
+export interface GeodesicDirectResult {
+  point: Coordinates;
+  /** True azimuth at the destination, degrees in [0, 360). */
+  finalBearing: number;
+}
+
+export interface GeodesicVertex {
+  point: Coordinates;
+  /** Signed distance from the start along the initial bearing; negative if the vertex lies behind. */
+  distance: number;
+}
+
+export interface RhumbInverseResult {
+  distance: number;
+  /** Constant true course of the rhumb line, degrees in [0, 360). */
+  bearing: number;
+}
+
+const DEGREE = Math.PI / 180;
+const TINY = Math.sqrt(Number.MIN_VALUE);
+const TOL0 = Number.EPSILON;
+const TOL1 = 200 * TOL0;
+const TOL2 = Math.sqrt(TOL0);
+const TOLB = TOL0 * TOL2;
+const XTHRESH = 1000 * TOL2;
+const MAXIT1 = 20;
+const MAXIT2 = MAXIT1 + 53 + 10;
+
+interface EllipsoidConstants {
+  a: number;
+  f: number;
+  f1: number;
+  e2: number;
+  ep2: number;
+  n: number;
+  b: number;
+  etol2: number;
+  /** Coefficients of eps^0..eps^5 in A3. */
+  a3x: number[];
+  /** c3x[l][k] is the coefficient of eps^k in C3[l]. */
+  c3x: number[][];
+}
+
+const constantsCache = new Map<string, EllipsoidConstants>();
+
+function ellipsoidConstants(model: EarthModel): EllipsoidConstants {
+  const key = `${model.a}/${model.f}`;
+  const cached = constantsCache.get(key);
+  if (cached) return cached;
+
+  const { a, f } = model;
+  if (!(Number.isFinite(a) && a > 0) || !(f >= 0 && f <= 1 / MIN_INVERSE_FLATTENING)) {
+    throw new Error(`Invalid ellipsoid: a=${a}, f=${f}.`);
+  }
+  const f1 = 1 - f;
+  const e2 = f * (2 - f);
+  const n = f / (2 - f);
+  const constants: EllipsoidConstants = {
+    a,
+    f,
+    f1,
+    e2,
+    ep2: e2 / (f1 * f1),
+    n,
+    b: a * f1,
+    etol2: 0.1 * TOL2 / Math.sqrt(Math.max(0.001, Math.abs(f)) * Math.min(1, 1 - f / 2) / 2),
+    a3x: [1, (n - 1) / 2, (n * (3 * n - 1) - 2) / 8, ((-n - 3) * n - 1) / 16, (-2 * n - 3) / 64, -3 / 128],
+    c3x: [
+      [],
+      [0, (1 - n) / 4, (1 - n * n) / 8, ((3 - n) * n + 3) / 64, (2 * n + 5) / 128, 3 / 128],
+      [0, 0, ((n - 3) * n + 2) / 32, ((-3 * n - 2) * n + 3) / 64, (n + 3) / 128, 5 / 256],
+      [0, 0, 0, ((5 * n - 9) * n + 5) / 192, (9 - 10 * n) / 384, 7 / 512],
+      [0, 0, 0, 0, (7 - 14 * n) / 512, 7 / 512],
+      [0, 0, 0, 0, 0, 21 / 2560],
+    ],
+  };
+  constantsCache.set(key, constants);
+  return constants;
+}
+
+// --- Angle helpers ---------------------------------------------------------
+
+function sq(x: number): number {
+  return x * x;
+}
+
+function polyval(coeffs: number[], x: number): number {
+  let y = 0;
+  for (let k = coeffs.length - 1; k >= 0; k--) y = y * x + coeffs[k];
+  return y;
+}
+
+function angNormalize(x: number): number {
+  const y = x % 360;
+  return y <= -180 ? y + 360 : y > 180 ? y - 360 : y;
+}
+
+function to360(x: number): number {
+  const y = x % 360;
+  return y < 0 ? y + 360 : y + 0;
+}
+
+function latFix(x: number): number {
+  return Math.abs(x) > 90 ? NaN : x;
+}
+
+/** Rounds tiny angles so that nearly-coincident inputs give symmetric results. */
+function angRound(x: number): number {
+  const z = 1 / 16;
+  const y = Math.abs(x);
+  const r = y < z ? z - (z - y) : y;
+  return x < 0 ? -r : r;
+}
+
+/** Error-free sum: returns the rounded sum and its rounding error. */
+function twoSum(u: number, v: number): [number, number] {
+  const s = u + v;
+  let up = s - v;
+  let vpp = s - up;
+  up -= u;
+  vpp -= v;
+  return [s, -(up + vpp)];
+}
+
+/** Exact difference y - x reduced to [-180, 180], with its rounding error. */
+function angDiff(x: number, y: number): [number, number] {
+  const [r, t] = twoSum(angNormalize(-x), angNormalize(y));
+  const d = angNormalize(r);
+  return twoSum(d === 180 && t > 0 ? -180 : d, t);
+}
+
+/** Sine and cosine of an angle in degrees, exact at multiples of 90°. */
+function sincosd(x: number): [number, number] {
+  let r = x % 360;
+  const q = Math.round(r / 90);
+  r = (r - 90 * q) * DEGREE;
+  const s = Math.sin(r);
+  const c = Math.cos(r);
+  let sinx: number;
+  let cosx: number;
+  switch (((q % 4) + 4) % 4) {
+    case 0: sinx = s; cosx = c; break;
+    case 1: sinx = c; cosx = -s; break;
+    case 2: sinx = -s; cosx = -c; break;
+    default: sinx = -c; cosx = s; break;
+  }
+  return [sinx + 0, cosx + 0];
+}
+
+function atan2d(y: number, x: number): number {
+  let q = 0;
+  if (Math.abs(y) > Math.abs(x)) {
+    [y, x] = [x, y];
+    q = 2;
+  }
+  if (x < 0) {
+    x = -x;
+    q++;
+  }
+  let ang = Math.atan2(y, x) / DEGREE;
+  switch (q) {
+    case 1: ang = (y >= 0 ? 180 : -180) - ang; break;
+    case 2: ang = 90 - ang; break;
+    case 3: ang = -90 + ang; break;
+  }
+  return ang;
+}
+
+function normalize(s: number, c: number): [number, number] {
+  const h = Math.hypot(s, c);
+  return [s / h, c / h];
+}
+
+// --- Series ----------------------------------------------------------------
+
+/** Clenshaw summation of sum(c[l] * sin(2 * l * x), l = 1..n). */
+function sinSeries(sinx: number, cosx: number, c: number[]): number {
+  let k = c.length;
+  let n = k - 1;
+  const ar = 2 * (cosx - sinx) * (cosx + sinx);
+  let y0 = n & 1 ? c[--k] : 0;
+  let y1 = 0;
+  n >>= 1;
+  while (n--) {
+    y1 = ar * y0 - y1 + c[--k];
+    y0 = ar * y1 - y0 + c[--k];
+  }
+  return 2 * sinx * cosx * y0;
+}
+
+function a1m1f(eps: number): number {
+  const t = sq(eps);
+  return (t * (t * (t + 4) + 64) / 256 + eps) / (1 - eps);
+}
+
+function c1f(eps: number): number[] {
+  const e2 = sq(eps);
+  const e3 = e2 * eps;
+  const e4 = e2 * e2;
+  return [
+    0,
+    eps * (-1 / 2 + e2 * (3 / 16 - e2 / 32)),
+    e2 * (-1 / 16 + e2 * (1 / 32 - e2 * 9 / 2048)),
+    e3 * (-1 / 48 + e2 * 3 / 256),
+    e4 * (-5 / 512 + e2 * 3 / 512),
+    e4 * eps * (-7 / 1280),
+    e4 * e2 * (-7 / 2048),
+  ];
+}
+
+function c1pf(eps: number): number[] {
+  const e2 = sq(eps);
+  const e3 = e2 * eps;
+  const e4 = e2 * e2;
+  return [
+    0,
+    eps * (1 / 2 + e2 * (-9 / 32 + e2 * 205 / 1536)),
+    e2 * (5 / 16 + e2 * (-37 / 96 + e2 * 1335 / 4096)),
+    e3 * (29 / 96 - e2 * 75 / 128),
+    e4 * (539 / 1536 - e2 * 2391 / 2560),
+    e4 * eps * (3467 / 7680),
+    e4 * e2 * (38081 / 61440),
+  ];
+}
+
+function a2m1f(eps: number): number {
+  const t = sq(eps);
+  return (t * (t * (-11 * t - 28) - 192) / 256 - eps) / (1 + eps);
+}
+
+function c2f(eps: number): number[] {
+  const e2 = sq(eps);
+  const e3 = e2 * eps;
+  const e4 = e2 * e2;
+  return [
+    0,
+    eps * (1 / 2 + e2 * (1 / 16 + e2 / 32)),
+    e2 * (3 / 16 + e2 * (1 / 32 + e2 * 35 / 2048)),
+    e3 * (5 / 48 + e2 * 5 / 256),
+    e4 * (35 / 512 + e2 * 7 / 512),
+    e4 * eps * (63 / 1280),
+    e4 * e2 * (77 / 2048),
+  ];
+}
+
+function a3f(k: EllipsoidConstants, eps: number): number {
+  return polyval(k.a3x, eps);
+}
+
+function c3f(k: EllipsoidConstants, eps: number): number[] {
+  return k.c3x.map((coeffs, l) => (l === 0 ? 0 : polyval(coeffs, eps)));
+}
+
+function epsilonFor(k2: number): number {
+  return k2 / (2 * (1 + Math.sqrt(1 + k2)) + k2);
+}
+
+// --- Inverse problem -------------------------------------------------------
+
+interface Lengths {
+  s12b: number;
+  m12b: number;
+}
+
+/** Reduced distance s12/b and reduced length m12/b along a geodesic segment. */
+function lengths(
+  eps: number, sig12: number,
+  ssig1: number, csig1: number, dn1: number,
+  ssig2: number, csig2: number, dn2: number,
+): Lengths {
+  const c1a = c1f(eps);
+  const c2a = c2f(eps);
+  const a1m1 = a1m1f(eps);
+  const a2m1 = a2m1f(eps);
+  const m0x = a1m1 - a2m1;
+  const a1 = 1 + a1m1;
+  const a2 = 1 + a2m1;
+  const b1 = sinSeries(ssig2, csig2, c1a) - sinSeries(ssig1, csig1, c1a);
+  const b2 = sinSeries(ssig2, csig2, c2a) - sinSeries(ssig1, csig1, c2a);
+  const j12 = m0x * sig12 + (a1 * b1 - a2 * b2);
+  return {
+    s12b: a1 * (sig12 + b1),
+    m12b: dn2 * (csig1 * ssig2) - dn1 * (ssig1 * csig2) - csig1 * csig2 * j12,
+  };
+}
+
+/** Solves the astroid problem k^4 + 2k^3 - (x^2 + y^2 - 1)k^2 - 2y^2k - y^2 = 0 for its positive root. */
+function astroid(x: number, y: number): number {
+  const p = sq(x);
+  const q = sq(y);
+  const r = (p + q - 1) / 6;
+  if (q === 0 && r <= 0) return 0;
+
+  const s = p * q / 4;
+  const r2 = sq(r);
+  const r3 = r * r2;
+  const disc = s * (s + 2 * r3);
+  let u = r;
+  if (disc >= 0) {
+    let t3 = s + r3;
+    t3 += t3 < 0 ? -Math.sqrt(disc) : Math.sqrt(disc);
+    const t = Math.cbrt(t3);
+    u += t + (t !== 0 ? r2 / t : 0);
+  } else {
+    const ang = Math.atan2(Math.sqrt(-disc), -(s + r3));
+    u += 2 * r * Math.cos(ang / 3);
+  }
+  const v = Math.sqrt(sq(u) + q);
+  const uv = u < 0 ? q / (v - u) : u + v;
+  const w = (uv - q) / (2 * v);
+  return uv / (Math.sqrt(uv + sq(w)) + w);
+}
+
+interface InverseStart {
+  sig12: number;
+  salp1: number;
+  calp1: number;
+  salp2: number;
+  calp2: number;
+  dnm: number;
+}
+
+function inverseStart(
+  k: EllipsoidConstants,
+  sbet1: number, cbet1: number, dn1: number,
+  sbet2: number, cbet2: number, dn2: number,
+  lam12: number, slam12: number, clam12: number,
+): InverseStart {
+  const out: InverseStart = { sig12: -1, salp1: 0, calp1: 0, salp2: 0, calp2: 0, dnm: 1 };
+  const sbet12 = sbet2 * cbet1 - cbet2 * sbet1;
+  const cbet12 = cbet2 * cbet1 + sbet2 * sbet1;
+  const sbet12a = sbet2 * cbet1 + cbet2 * sbet1;
+  const shortline = cbet12 >= 0 && sbet12 < 0.5 && cbet2 * lam12 < 0.5;
+  let somg12: number;
+  let comg12: number;
+  if (shortline) {
+    let sbetm2 = sq(sbet1 + sbet2);
+    sbetm2 /= sbetm2 + sq(cbet1 + cbet2);
+    out.dnm = Math.sqrt(1 + k.ep2 * sbetm2);
+    const omg12 = lam12 / (k.f1 * out.dnm);
+    somg12 = Math.sin(omg12);
+    comg12 = Math.cos(omg12);
+  } else {
+    somg12 = slam12;
+    comg12 = clam12;
+  }
+
+  let salp1 = cbet2 * somg12;
+  let calp1 = comg12 >= 0
+    ? sbet12 + cbet2 * sbet1 * sq(somg12) / (1 + comg12)
+    : sbet12a - cbet2 * sbet1 * sq(somg12) / (1 - comg12);
+  const ssig12 = Math.hypot(salp1, calp1);
+  const csig12 = sbet1 * sbet2 + cbet1 * cbet2 * comg12;
+
+  if (shortline && ssig12 < k.etol2) {
+    // Really short lines: the spherical solution on the auxiliary sphere is good enough.
+    const salp2 = cbet1 * somg12;
+    const calp2 = sbet12 - cbet1 * sbet2 * (comg12 >= 0 ? sq(somg12) / (1 + comg12) : 1 - comg12);
+    [out.salp2, out.calp2] = normalize(salp2, calp2);
+    out.sig12 = Math.atan2(ssig12, csig12);
+  } else if (Math.abs(k.n) > 0.1 || csig12 >= 0 || ssig12 >= 6 * Math.abs(k.n) * Math.PI * sq(cbet1)) {
+    // Not nearly antipodal: the zeroth-order spherical guess is fine.
+  } else {
+    // Nearly antipodal: scale to the astroid problem.
+    const lam12x = Math.atan2(-slam12, -clam12);
+    const k2 = sq(sbet1) * k.ep2;
+    const eps = epsilonFor(k2);
+    const lamscale = k.f * cbet1 * a3f(k, eps) * Math.PI;
+    const betscale = lamscale * cbet1;
+    const x = lam12x / lamscale;
+    const y = sbet12a / betscale;
+    if (y > -TOL1 && x > -1 - XTHRESH) {
+      salp1 = Math.min(1, -x);
+      calp1 = -Math.sqrt(1 - sq(salp1));
+    } else {
+      const kr = astroid(x, y);
+      const omg12a = lamscale * (-x * kr / (1 + kr));
+      somg12 = Math.sin(omg12a);
+      comg12 = -Math.cos(omg12a);
+      salp1 = cbet2 * somg12;
+      calp1 = sbet12a - cbet2 * sbet1 * sq(somg12) / (1 - comg12);
+    }
+  }
+
+  if (!(salp1 <= 0)) {
+    [out.salp1, out.calp1] = normalize(salp1, calp1);
+  } else {
+    out.salp1 = 1;
+    out.calp1 = 0;
+  }
+  return out;
+}
+
+interface Lambda12 {
+  lam12: number;
+  dlam12: number;
+  salp2: number;
+  calp2: number;
+  sig12: number;
+  ssig1: number;
+  csig1: number;
+  ssig2: number;
+  csig2: number;
+  eps: number;
+}
+
+/** Longitude difference reached by the geodesic leaving point 1 at azimuth alp1, minus the target. */
+function lambda12(
+  k: EllipsoidConstants,
+  sbet1: number, cbet1: number, dn1: number,
+  sbet2: number, cbet2: number, dn2: number,
+  salp1: number, calp1: number, slam120: number, clam120: number,
+  diffp: boolean,
+): Lambda12 {
+  if (sbet1 === 0 && calp1 === 0) calp1 = -TINY;
+
+  const salp0 = salp1 * cbet1;
+  const calp0 = Math.hypot(calp1, salp1 * sbet1);
+
+  const somg1 = salp0 * sbet1;
+  const comg1 = calp1 * cbet1;
+  const [ssig1, csig1] = normalize(sbet1, comg1);
+
+  const salp2 = cbet2 !== cbet1 ? salp0 / cbet2 : salp1;
+  const calp2 = cbet2 !== cbet1 || Math.abs(sbet2) !== -sbet1
+    ? Math.sqrt(sq(calp1 * cbet1) + (cbet1 < -sbet1
+        ? (cbet2 - cbet1) * (cbet1 + cbet2)
+        : (sbet1 - sbet2) * (sbet1 + sbet2))) / cbet2
+    : Math.abs(calp1);
+
+  const somg2 = salp0 * sbet2;
+  const comg2 = calp2 * cbet2;
+  const [ssig2, csig2] = normalize(sbet2, comg2);
+
+  const sig12 = Math.atan2(Math.max(0, csig1 * ssig2 - ssig1 * csig2), csig1 * csig2 + ssig1 * ssig2);
+  const somg12 = Math.max(0, comg1 * somg2 - somg1 * comg2);
+  const comg12 = comg1 * comg2 + somg1 * somg2;
+  const eta = Math.atan2(somg12 * clam120 - comg12 * slam120, comg12 * clam120 + somg12 * slam120);
+
+  const k2 = sq(calp0) * k.ep2;
+  const eps = epsilonFor(k2);
+  const c3a = c3f(k, eps);
+  const b312 = sinSeries(ssig2, csig2, c3a) - sinSeries(ssig1, csig1, c3a);
+  const domg12 = -k.f * a3f(k, eps) * salp0 * (sig12 + b312);
+  const lam12 = eta + domg12;
+
+  let dlam12 = NaN;
+  if (diffp) {
+    if (calp2 === 0) {
+      dlam12 = -2 * k.f1 * dn1 / sbet1;
+    } else {
+      dlam12 = lengths(eps, sig12, ssig1, csig1, dn1, ssig2, csig2, dn2).m12b * k.f1 / (calp2 * cbet2);
+    }
+  }
+
+  return { lam12, dlam12, salp2, calp2, sig12, ssig1, csig1, ssig2, csig2, eps };
+}
+
+/**
+ * Solves the inverse geodesic problem: the shortest path between two points on the ellipsoid.
+ * @param p1 - The first point with latitude and longitude.
+ * @param p2 - The second point with latitude and longitude.
+ * @param model - The ellipsoid to solve on.
+ * @returns The geodesic distance and the true azimuths at both ends.
+ */
+export function solveGeodesicInverse(p1: Coordinates, p2: Coordinates, model: EarthModel): GeodesicInverseResult {
+  const k = ellipsoidConstants(model);
+
+  let [lon12, lon12s] = angDiff(p1.lon, p2.lon);
+  let lonsign = lon12 >= 0 ? 1 : -1;
+  lon12 = lonsign * angRound(lon12);
+  lon12s = angRound((180 - lon12) - lonsign * lon12s);
+  const lam12 = lon12 * DEGREE;
+  let slam12: number;
+  let clam12: number;
+  if (lon12 > 90) {
+    [slam12, clam12] = sincosd(lon12s);
+    clam12 = -clam12;
+  } else {
+    [slam12, clam12] = sincosd(lon12);
+  }
+
+  let lat1 = angRound(latFix(p1.lat));
+  let lat2 = angRound(latFix(p2.lat));
+  // Make |lat1| >= |lat2| and lat1 <= 0 so that only one quadrant needs handling.
+  const swapp = Math.abs(lat1) < Math.abs(lat2) ? -1 : 1;
+  if (swapp < 0) {
+    lonsign *= -1;
+    [lat1, lat2] = [lat2, lat1];
+  }
+  const latsign = lat1 < 0 ? 1 : -1;
+  lat1 *= latsign;
+  lat2 *= latsign;
+
+  let [sbet1, cbet1] = sincosd(lat1);
+  [sbet1, cbet1] = normalize(sbet1 * k.f1, cbet1);
+  cbet1 = Math.max(TINY, cbet1);
+  let [sbet2, cbet2] = sincosd(lat2);
+  [sbet2, cbet2] = normalize(sbet2 * k.f1, cbet2);
+  cbet2 = Math.max(TINY, cbet2);
+
+  if (cbet1 < -sbet1) {
+    if (cbet2 === cbet1) sbet2 = sbet2 < 0 ? sbet1 : -sbet1;
+  } else if (Math.abs(sbet2) === -sbet1) {
+    cbet2 = cbet1;
+  }
+
+  const dn1 = Math.sqrt(1 + k.ep2 * sq(sbet1));
+  const dn2 = Math.sqrt(1 + k.ep2 * sq(sbet2));
+
+  let salp1 = 0;
+  let calp1 = 0;
+  let salp2 = 0;
+  let calp2 = 0;
+  let s12x = 0;
+
+  let meridian = lat1 === -90 || slam12 === 0;
+  if (meridian) {
+    calp1 = clam12;
+    salp1 = slam12;
+    calp2 = 1;
+    salp2 = 0;
+    const ssig1 = sbet1;
+    const csig1 = calp1 * cbet1;
+    const ssig2 = sbet2;
+    const csig2 = calp2 * cbet2;
+    let sig12 = Math.atan2(Math.max(0, csig1 * ssig2 - ssig1 * csig2), csig1 * csig2 + ssig1 * ssig2);
+    const { s12b, m12b } = lengths(k.n, sig12, ssig1, csig1, dn1, ssig2, csig2, dn2);
+    let m12x = m12b;
+    s12x = s12b;
+    if (sig12 < 1 || m12x >= 0) {
+      if (sig12 < 3 * TINY || (sig12 < TOL0 && (s12x < 0 || m12x < 0))) {
+        sig12 = m12x = s12x = 0;
+      }
+      s12x *= k.b;
+    } else {
+      // The meridian is not the shortest path (only possible for prolate ellipsoids).
+      meridian = false;
+    }
+  }
+
+  if (!meridian && sbet1 === 0 && (k.f <= 0 || lon12s >= k.f * 180)) {
+    // Equatorial geodesic.
+    calp1 = calp2 = 0;
+    salp1 = salp2 = 1;
+    s12x = k.a * lam12;
+  } else if (!meridian) {
+    const start = inverseStart(k, sbet1, cbet1, dn1, sbet2, cbet2, dn2, lam12, slam12, clam12);
+    salp1 = start.salp1;
+    calp1 = start.calp1;
+
+    if (start.sig12 >= 0) {
+      // Short line: the starting guess is already the solution.
+      salp2 = start.salp2;
+      calp2 = start.calp2;
+      s12x = start.sig12 * k.b * start.dnm;
+    } else {
+      // Newton's method on alp1, falling back to bisection within a bracket.
+      let tripn = false;
+      let tripb = false;
+      let salp1a = TINY;
+      let calp1a = 1;
+      let salp1b = TINY;
+      let calp1b = -1;
+      let solution!: Lambda12;
+      for (let numit = 0; numit < MAXIT2; numit++) {
+        solution = lambda12(k, sbet1, cbet1, dn1, sbet2, cbet2, dn2, salp1, calp1, slam12, clam12, numit < MAXIT1);
+        const v = solution.lam12;
+        if (tripb || !(Math.abs(v) >= (tripn ? 8 : 1) * TOL0)) break;
+
+        if (v > 0 && (numit > MAXIT1 || calp1 / salp1 > calp1b / salp1b)) {
+          salp1b = salp1;
+          calp1b = calp1;
+        } else if (v < 0 && (numit > MAXIT1 || calp1 / salp1 < calp1a / salp1a)) {
+          salp1a = salp1;
+          calp1a = calp1;
+        }
+
+        if (numit < MAXIT1 && solution.dlam12 > 0) {
+          const dalp1 = -v / solution.dlam12;
+          if (Math.abs(dalp1) < Math.PI) {
+            const sdalp1 = Math.sin(dalp1);
+            const cdalp1 = Math.cos(dalp1);
+            const nsalp1 = salp1 * cdalp1 + calp1 * sdalp1;
+            if (nsalp1 > 0) {
+              calp1 = calp1 * cdalp1 - salp1 * sdalp1;
+              [salp1, calp1] = normalize(nsalp1, calp1);
+              tripn = Math.abs(v) <= 16 * TOL0;
+              continue;
+            }
+          }
+        }
+
+        [salp1, calp1] = normalize((salp1a + salp1b) / 2, (calp1a + calp1b) / 2);
+        tripn = false;
+        tripb = Math.abs(salp1a - salp1) + (calp1a - calp1) < TOLB ||
+          Math.abs(salp1 - salp1b) + (calp1 - calp1b) < TOLB;
+      }
+      salp2 = solution.salp2;
+      calp2 = solution.calp2;
+      const { s12b } = lengths(
+        solution.eps, solution.sig12,
+        solution.ssig1, solution.csig1, dn1,
+        solution.ssig2, solution.csig2, dn2,
+      );
+      s12x = s12b * k.b;
+    }
+  }
+
+  if (swapp < 0) {
+    [salp1, salp2] = [salp2, salp1];
+    [calp1, calp2] = [calp2, calp1];
+  }
+  salp1 *= swapp * lonsign;
+  calp1 *= swapp * latsign;
+  salp2 *= swapp * lonsign;
+  calp2 *= swapp * latsign;
+
+  return {
+    distance: s12x + 0,
+    initialBearing: to360(atan2d(salp1, calp1)),
+    finalBearing: to360(atan2d(salp2, calp2)),
+  };
+}
+
+// --- Direct problem --------------------------------------------------------
+
+/**
+ * Solves the direct geodesic problem: the point reached by travelling a given distance along a geodesic.
+ * @param start - The starting point.
+ * @param bearing - The true azimuth at the start, in degrees.
+ * @param distance - The distance to travel, in the units of the model's semi-major axis.
+ * @param model - The ellipsoid to solve on.
+ * @returns The destination and the true azimuth on arrival.
+ */
+export function solveGeodesicDirect(start: Coordinates, bearing: number, distance: number, model: EarthModel): GeodesicDirectResult {
+  const k = ellipsoidConstants(model);
+
+  const [salp1, calp1] = sincosd(angRound(angNormalize(bearing)));
+  let [sbet1, cbet1] = sincosd(angRound(latFix(start.lat)));
+  [sbet1, cbet1] = normalize(sbet1 * k.f1, cbet1);
+  cbet1 = Math.max(TINY, cbet1);
+
+  const salp0 = salp1 * cbet1;
+  const calp0 = Math.hypot(calp1, salp1 * sbet1);
+
+  const somg1 = salp0 * sbet1;
+  const comg1 = sbet1 !== 0 || calp1 !== 0 ? cbet1 * calp1 : 1;
+  const [ssig1, csig1] = normalize(sbet1, comg1);
+
+  const k2 = sq(calp0) * k.ep2;
+  const eps = epsilonFor(k2);
+  const a1m1 = a1m1f(eps);
+  const c1a = c1f(eps);
+  const c1pa = c1pf(eps);
+  const b11 = sinSeries(ssig1, csig1, c1a);
+  const stau1 = ssig1 * Math.cos(b11) + csig1 * Math.sin(b11);
+  const ctau1 = csig1 * Math.cos(b11) - ssig1 * Math.sin(b11);
+  const a3c = -k.f * salp0 * a3f(k, eps);
+  const c3a = c3f(k, eps);
+  const b31 = sinSeries(ssig1, csig1, c3a);
+
+  const tau12 = distance / (k.b * (1 + a1m1));
+  const stau12 = Math.sin(tau12);
+  const ctau12 = Math.cos(tau12);
+  let b12 = -sinSeries(stau1 * ctau12 + ctau1 * stau12, ctau1 * ctau12 - stau1 * stau12, c1pa);
+  let sig12 = tau12 - (b12 - b11);
+  let ssig12 = Math.sin(sig12);
+  let csig12 = Math.cos(sig12);
+  if (Math.abs(k.f) > 0.01) {
+    // The reverted series loses accuracy for strongly flattened ellipsoids; take one Newton step.
+    const ssig2 = ssig1 * csig12 + csig1 * ssig12;
+    const csig2 = csig1 * csig12 - ssig1 * ssig12;
+    b12 = sinSeries(ssig2, csig2, c1a);
+    const serr = (1 + a1m1) * (sig12 + (b12 - b11)) - distance / k.b;
+    sig12 -= serr / Math.sqrt(1 + k2 * sq(ssig2));
+    ssig12 = Math.sin(sig12);
+    csig12 = Math.cos(sig12);
+  }
+
+  const ssig2 = ssig1 * csig12 + csig1 * ssig12;
+  let csig2 = csig1 * csig12 - ssig1 * ssig12;
+  const sbet2 = calp0 * ssig2;
+  let cbet2 = Math.hypot(salp0, calp0 * csig2);
+  if (cbet2 === 0) cbet2 = csig2 = TINY;
+
+  const somg2 = salp0 * ssig2;
+  const comg2 = csig2;
+  const omg12 = Math.atan2(somg2 * comg1 - comg2 * somg1, comg2 * comg1 + somg2 * somg1);
+  const lam12 = omg12 + a3c * (sig12 + (sinSeries(ssig2, csig2, c3a) - b31));
+  const lon2 = angNormalize(angNormalize(start.lon) + angNormalize(lam12 / DEGREE));
+
+  return {
+    point: { lat: atan2d(sbet2, k.f1 * cbet2), lon: lon2 },
+    finalBearing: to360(atan2d(salp0, calp0 * csig2)),
+  };
+}
+
+/**
+ * Finds the vertices (points of greatest northern and southern latitude) of the geodesic through a point.
+ * @param start - A point on the geodesic.
+ * @param bearing - The true azimuth of the geodesic at that point, in degrees.
+ * @param model - The ellipsoid to solve on.
+ * @returns The northern and southern vertex nearest the start, or null for an equatorial geodesic.
+ */
+export function solveGeodesicVertices(start: Coordinates, bearing: number, model: EarthModel): [GeodesicVertex, GeodesicVertex] | null {
+  const k = ellipsoidConstants(model);
+
+  const [salp1, calp1] = sincosd(angRound(angNormalize(bearing)));
+  let [sbet1, cbet1] = sincosd(angRound(latFix(start.lat)));
+  [sbet1, cbet1] = normalize(sbet1 * k.f1, cbet1);
+  cbet1 = Math.max(TINY, cbet1);
+
+  const calp0 = Math.hypot(calp1, salp1 * sbet1);
+  if (calp0 < TOL2) return null;
+
+  const comg1 = sbet1 !== 0 || calp1 !== 0 ? cbet1 * calp1 : 1;
+  const [ssig1, csig1] = normalize(sbet1, comg1);
+  const sig1 = Math.atan2(ssig1, csig1);
+
+  const eps = epsilonFor(sq(calp0) * k.ep2);
+  const scale = k.b * (1 + a1m1f(eps));
+  const b11 = sinSeries(ssig1, csig1, c1f(eps));
+
+  // The vertices sit at σ = ±π/2 on the auxiliary sphere, where the C1 series vanishes.
+  return ([Math.PI / 2, -Math.PI / 2] as const).map(sigma => {
+    const distance = scale * (sigma - sig1 - b11);
+    return { point: solveGeodesicDirect(start, bearing, distance, model).point, distance };
+  }) as [GeodesicVertex, GeodesicVertex];
+}
+
+// --- Rhumb lines -----------------------------------------------------------
+
+/** Isometric latitude ψ of a geodetic latitude φ (radians). */
+function isometricLatitude(phi: number, e: number): number {
+  const sinPhi = Math.sin(phi);
+  return Math.atanh(sinPhi) - e * Math.atanh(e * sinPhi);
+}
+
+/** Distance along the meridian from the equator to latitude φ (radians). */
+function meridianArc(phi: number, k: EllipsoidConstants): number {
+  const n = k.n;
+  const n2 = n * n;
+  const n3 = n2 * n;
+  const n4 = n2 * n2;
+  const scale = k.a / (1 + n) * (1 + n2 / 4 + n4 / 64);
+  return scale * (
+    phi
+    - (3 * n / 2 - 9 * n3 / 16) * Math.sin(2 * phi)
+    + (15 * n2 / 16 - 15 * n4 / 32) * Math.sin(4 * phi)
+    - (35 * n3 / 48) * Math.sin(6 * phi)
+    + (315 * n4 / 512) * Math.sin(8 * phi)
+  );
+}
+
+/** Geodetic latitude (radians) at a given meridian distance from the equator. */
+function latitudeFromMeridianArc(m: number, k: EllipsoidConstants): number {
+  const n = k.n;
+  const n2 = n * n;
+  const n3 = n2 * n;
+  const n4 = n2 * n2;
+  const mu = m / (k.a / (1 + n) * (1 + n2 / 4 + n4 / 64));
+  return mu
+    + (3 * n / 2 - 27 * n3 / 32) * Math.sin(2 * mu)
+    + (21 * n2 / 16 - 55 * n4 / 32) * Math.sin(4 * mu)
+    + (151 * n3 / 96) * Math.sin(6 * mu)
+    + (1097 * n4 / 512) * Math.sin(8 * mu);
+}
+
+/** Radius of the parallel at latitude φ (radians): the limit of ΔM/Δψ for an E-W rhumb line. */
+function parallelRadius(phi: number, k: EllipsoidConstants): number {
+  return k.a * Math.cos(phi) / Math.sqrt(1 - k.e2 * sq(Math.sin(phi)));
+}
+
+/**
+ * Solves the inverse rhumb-line problem on the ellipsoid, taking the short way across the antimeridian.
+ * @param p1 - The first point with latitude and longitude.
+ * @param p2 - The second point with latitude and longitude.
+ * @param model - The ellipsoid to solve on.
+ * @returns The rhumb-line distance and its constant true course.
+ */
+export function solveRhumbInverse(p1: Coordinates, p2: Coordinates, model: EarthModel): RhumbInverseResult {
+  const k = ellipsoidConstants(model);
+  const e = Math.sqrt(k.e2);
+  const phi1 = p1.lat * DEGREE;
+  const phi2 = p2.lat * DEGREE;
+  const deltaLon = angDiff(p1.lon, p2.lon)[0] * DEGREE;
+  const deltaPsi = isometricLatitude(phi2, e) - isometricLatitude(phi1, e);
+  const deltaM = meridianArc(phi2, k) - meridianArc(phi1, k);
+
+  const q = Math.abs(deltaPsi) > 1e-12 ? deltaM / deltaPsi : parallelRadius(phi1, k);
+
+  return {
+    distance: Math.sqrt(deltaM * deltaM + q * q * deltaLon * deltaLon),
+    bearing: to360(Math.atan2(deltaLon, deltaPsi) / DEGREE),
+  };
+}
+
+/**
+ * Solves the direct rhumb-line problem on the ellipsoid. Courses that would pass a pole stop at it.
+ * @param start - The starting point.
+ * @param bearing - The constant true course, in degrees.
+ * @param distance - The distance to travel, in the units of the model's semi-major axis.
+ * @param model - The ellipsoid to solve on.
+ * @returns The destination point.
+ */
+export function solveRhumbDirect(start: Coordinates, bearing: number, distance: number, model: EarthModel): Coordinates {
+  const k = ellipsoidConstants(model);
+  const e = Math.sqrt(k.e2);
+  const theta = bearing * DEGREE;
+  const phi1 = start.lat * DEGREE;
+  const quarterMeridian = meridianArc(Math.PI / 2, k);
+
+  const deltaM = distance * Math.cos(theta);
+  const m2 = Math.max(-quarterMeridian, Math.min(quarterMeridian, meridianArc(phi1, k) + deltaM));
+  const phi2 = Math.abs(m2) === quarterMeridian ? Math.sign(m2) * Math.PI / 2 : latitudeFromMeridianArc(m2, k);
+
+  const deltaPsi = isometricLatitude(phi2, e) - isometricLatitude(phi1, e);
+  const q = Math.abs(deltaPsi) > 1e-12 ? (meridianArc(phi2, k) - meridianArc(phi1, k)) / deltaPsi : parallelRadius(phi1, k);
+  const deltaLon = q > 0 ? distance * Math.sin(theta) / q : 0;
+
+  return {
+    lat: phi2 / DEGREE,
+    lon: angNormalize(start.lon + deltaLon / DEGREE),
+  };
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import type { PathType } from '../types';
+import { mapProjectionCentre, routeCentralMeridian } from './mapProjections';
+import { densifyPath, DISPLAY_DENSIFY, pathSpec } from './pathGeometry';
+
+const london = { lat: 51.47, lon: -0.45 };
+const newYork = { lat: 40.64, lon: -73.78 };
+const tokyo = { lat: 35.55, lon: 139.78 };
+const sanFrancisco = { lat: 37.62, lon: -122.38 };
+
+const line = (from: typeof london, to: typeof london, pathType: PathType) => densifyPath(pathSpec(from, to, pathType), DISPLAY_DENSIFY);
+
+describe('routeCentralMeridian', () => {
+  it('turns the map to the middle of a route across the antimeridian', () => {
+    // Tokyo to San Francisco spans 139.78°E to 237.62°E, i.e. 122.38°W; the middle is 188.7°E.
+    for (const pathType of ['orthodromic', 'loxodromic'] as const) {
+      expect(routeCentralMeridian([line(tokyo, sanFrancisco, pathType)])).toBeCloseTo(-171.3, 9);
+    }
+    expect(routeCentralMeridian([[[tokyo.lon, tokyo.lat], [sanFrancisco.lon, sanFrancisco.lat]]])).toBeCloseTo(-171.3, 9);
+    expect(mapProjectionCentre('mercator', [tokyo, sanFrancisco], [line(tokyo, sanFrancisco, 'loxodromic')])?.[0]).toBeCloseTo(-171.3, 9);
+  });
+
+  it('keeps Greenwich in the middle for a route clear of the antimeridian', () => {
+    const routes = [line(london, newYork, 'orthodromic'), line(newYork, sanFrancisco, 'loxodromic')];
+    expect(routeCentralMeridian(routes)).toBe(0);
+    expect(routeCentralMeridian([])).toBe(0);
+    expect(mapProjectionCentre('mercator', [london, newYork, sanFrancisco], routes)).toBeNull();
+  });
+});
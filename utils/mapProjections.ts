@@ -0,0 +1,130 @@
+import * as d3 from 'd3';
+import { geoRobinson } from 'd3-geo-projection';
+import type { Coordinates, MapProjectionId } from '../types';
+import { normalizeLongitude } from './geo';
+
+interface MapProjectionDefinition {
+  label: string;
+  create: () => d3.GeoProjection;
+  /**
+   * Where the projection is centred: on the first waypoint, on the middle of the route,
+   * or on the equator at a meridian chosen so the route is not cut at the map's edge.
+   */
+  centre: 'start' | 'route' | 'meridian';
+}
+
+/** Gnomonic maps blow up towards 90° from the centre, so only the middle of the hemisphere is drawn. */
+const GNOMONIC_CLIP_ANGLE = 75;
+
+export const MAP_PROJECTIONS: Record<MapProjectionId, MapProjectionDefinition> = {
+  mercator: {
+    label: 'Mercator',
+    create: () => d3.geoMercator(),
+    centre: 'meridian',
+  },
+  equirectangular: {
+    label: 'Equirectangular',
+    create: () => d3.geoEquirectangular(),
+    centre: 'meridian',
+  },
+  gnomonic: {
+    label: 'Gnomonic',
+    create: () => d3.geoGnomonic().clipAngle(GNOMONIC_CLIP_ANGLE),
+    centre: 'route',
+  },
+  azimuthalEquidistant: {
+    label: 'Azimuthal equidistant',
+    // Keep the antipode of the centre just outside the clip circle, where it would be a whole ring.
+    create: () => d3.geoAzimuthalEquidistant().clipAngle(179.9),
+    centre: 'start',
+  },
+  robinson: {
+    label: 'Robinson',
+    create: () => geoRobinson(),
+    centre: 'meridian',
+  },
+  equalEarth: {
+    label: 'Equal Earth',
+    create: () => d3.geoEqualEarth(),
+    centre: 'meridian',
+  },
+};
+
+export const DEFAULT_MAP_PROJECTION: MapProjectionId = 'mercator';
+
+/**
+ * Finds the central meridian that keeps a route in one piece on a world map.
+ * @param routes - Each leg's [lon, lat] vertices, in travel order.
+ * @returns 0 (Greenwich) if the route stays clear of the antimeridian, otherwise the middle of its longitude span.
+ */
+export function routeCentralMeridian(routes: [number, number][][]): number {
+  const vertices = routes.flat();
+  if (vertices.length === 0) return 0;
+  // Follow the route eastward or westward past ±180° instead of jumping to the other edge.
+  let lon = vertices[0][0];
+  let west = lon;
+  let east = lon;
+  for (let i = 1; i < vertices.length; i++) {
+    lon += normalizeLongitude(vertices[i][0] - vertices[i - 1][0]);
+    west = Math.min(west, lon);
+    east = Math.max(east, lon);
+  }
+  if (west >= -180 && east <= 180) return 0;
+  return normalizeLongitude((west + east) / 2);
+}
+
+/**
+ * Finds the point a projection should be centred on for a route.
+ * @param id - The projection.
+ * @param points - The route's waypoints.
+ * @param routes - Each leg's [lon, lat] vertices, as drawn.
+ * @returns The centre as [lon, lat], or null for the default centre at 0°, 0°.
+ */
+export function mapProjectionCentre(id: MapProjectionId, points: Coordinates[] | null, routes: [number, number][][]): [number, number] | null {
+  const { centre } = MAP_PROJECTIONS[id];
+  if (!points || points.length === 0) return null;
+  if (centre === 'start') return [points[0].lon, points[0].lat];
+  if (centre === 'route') return d3.geoCentroid({ type: 'MultiPoint', coordinates: points.map(p => [p.lon, p.lat]) });
+  const meridian = routeCentralMeridian(routes);
+  return meridian === 0 ? null : [meridian, 0];
+}
+
+/**
+ * Creates a projection sized to show the whole world (or, for clipped azimuthal
+ * projections, everything they can show) within a viewport.
+ * @param id - The projection.
+ * @param width - The viewport width in pixels.
+ * @param height - The viewport height in pixels.
+ * @param centre - The [lon, lat] to centre on, from mapProjectionCentre.
+ * @returns The configured projection.
+ */
+export function createMapProjection(id: MapProjectionId, width: number, height: number, centre: [number, number] | null): d3.GeoProjection {
+  const projection = MAP_PROJECTIONS[id].create();
+  if (centre) {
+    projection.rotate([-centre[0], -centre[1]]);
+  }
+  if (id === 'mercator') {
+    // The Mercator sphere is infinitely tall; size it by its width and let the poles run off.
+    return projection.scale(width / (2 * Math.PI)).translate([width / 2, height / 2]);
+  }
+  return projection.fitExtent([[4, 4], [width - 4, height - 4]], { type: 'Sphere' });
+}
+
+/**
+ * Turns a true heading into the direction it points on screen, which most projections bend.
+ * @param projection - The projection, of the 2D map or the globe.
+ * @param lonLat - The point the heading is taken at.
+ * @param heading - True course in degrees clockwise from north.
+ * @returns Degrees clockwise from straight up the screen, or null if the point is not drawn.
+ */
+export function projectedHeading(projection: d3.GeoProjection, lonLat: [number, number], heading: number): number | null {
+  // A step of about 100 m along the heading, so the on-screen direction is the local one.
+  const step = 1e-3;
+  const theta = heading * Math.PI / 180;
+  const cosLat = Math.max(Math.cos(lonLat[1] * Math.PI / 180), 1e-6);
+  const ahead: [number, number] = [lonLat[0] + step * Math.sin(theta) / cosLat, lonLat[1] + step * Math.cos(theta)];
+  const from = projection(lonLat);
+  const to = projection(ahead);
+  if (!from || !to) return null;
+  return Math.atan2(to[0] - from[0], from[1] - to[1]) * 180 / Math.PI;
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { calculateOrthodromicDistance, calculateRouteLegs } from './geo';
+import { EARTH_MODELS } from './geodesic';
+import { buildNavigationLog, MAX_LOG_WAYPOINTS, navigationLogToCsv } from './navigationLog';
+
+const london = { name: 'London', coords: { lat: 51.47, lon: -0.45 } };
+const newYork = { name: 'New York', coords: { lat: 40.64, lon: -73.78 } };
+const tokyo = { name: 'Tokyo', coords: { lat: 35.55, lon: 139.78 } };
+const sanFrancisco = { name: 'San Francisco, CA', coords: { lat: 37.62, lon: -122.38 } };
+
+const DEGREE = Math.PI / 180;
+
+/** Latitude where the great circle through two points on the sphere meets a meridian. */
+function greatCircleLatitude(p1: { lat: number; lon: number }, p2: { lat: number; lon: number }, lon: number): number {
+  const [phi1, phi2] = [p1.lat * DEGREE, p2.lat * DEGREE];
+  const [l1, l2, l] = [p1.lon * DEGREE, p2.lon * DEGREE, lon * DEGREE];
+  return Math.atan((Math.tan(phi1) * Math.sin(l2 - l) + Math.tan(phi2) * Math.sin(l - l1)) / Math.sin(l2 - l1)) / DEGREE;
+}
+
+describe('buildNavigationLog', () => {
+  it('puts waypoints where the great circle meets each meridian of the interval', () => {
+    const legs = calculateRouteLegs([london, newYork], ['orthodromic']);
+    const { rows } = buildNavigationLog(legs, { mode: 'longitude', interval: 10 });
+    expect(rows.map(row => row.name)).toEqual(['London', null, null, null, null, null, null, null, 'New York']);
+    expect(rows.slice(1, -1).map(row => row.coords.lon)).toEqual([-10, -20, -30, -40, -50, -60, -70]);
+    for (const row of rows.slice(1, -1)) {
+      expect(row.coords.lat).toBeCloseTo(greatCircleLatitude(london.coords, newYork.coords, row.coords.lon), 9);
+    }
+  });
+
+  it('follows the great circle across the antimeridian', () => {
+    const legs = calculateRouteLegs([tokyo, sanFrancisco], ['orthodromic']);
+    const { rows } = buildNavigationLog(legs, { mode: 'longitude', interval: 20 });
+    expect(rows.slice(1, -1).map(row => row.coords.lon)).toEqual([140, 160, 180, -160, -140]);
+    // The route bows north, to about 48° near the antimeridian.
+    expect(Math.max(...rows.map(row => row.coords.lat))).toBeGreaterThan(47);
+  });
+
+  it('spaces waypoints evenly along each leg and keeps the route waypoints', () => {
+    for (const model of [EARTH_MODELS.sphere, EARTH_MODELS.wgs84]) {
+      const legs = calculateRouteLegs([london, newYork, sanFrancisco], ['orthodromic', 'loxodromic'], model);
+      const { rows, total, greatCircleDistance } = buildNavigationLog(legs, { mode: 'distance', spacing: 500 }, model);
+      const named = rows.filter(row => row.name !== null);
+      expect(named.map(row => row.name)).toEqual(['London', 'New York', 'San Francisco, CA']);
+
+      const firstLeg = rows.slice(0, rows.indexOf(named[1]) + 1);
+      expect(firstLeg).toHaveLength(Math.ceil(legs[0].course.orthodromicDistance / 500) + 1);
+      for (const [i, row] of firstLeg.slice(0, -2).entries()) {
+        expect(calculateOrthodromicDistance(row.coords, firstLeg[i + 1].coords, model)).toBeCloseTo(500, 6);
+      }
+
+      // Rhumb lines between points of a great circle are a little longer than it, less so the closer the points.
+      const finer = buildNavigationLog(legs, { mode: 'distance', spacing: 100 }, model);
+      expect(greatCircleDistance).toBeCloseTo(legs[0].course.orthodromicDistance + legs[1].course.orthodromicDistance, 9);
+      expect(total).toBeGreaterThan(finer.total);
+      expect(finer.total).toBeGreaterThan(greatCircleDistance);
+      expect(total - greatCircleDistance).toBeLessThan(10);
+      expect(rows[rows.length - 1].cumulativeDistance).toBeCloseTo(total, 9);
+      expect(rows[rows.length - 1].course).toBeNull();
+    }
+  });
+
+  it('rejects a spacing that is not positive or too fine', () => {
+    const legs = calculateRouteLegs([london, tokyo], ['orthodromic']);
+    expect(() => buildNavigationLog(legs, { mode: 'distance', spacing: 0 })).toThrow(/positive/);
+    expect(() => buildNavigationLog(legs, { mode: 'longitude', interval: -5 })).toThrow(/positive/);
+    expect(() => buildNavigationLog(legs, { mode: 'distance', spacing: 1 })).toThrow(String(MAX_LOG_WAYPOINTS));
+  });
+});
+
+describe('navigationLogToCsv', () => {
+  it('writes one line per waypoint and quotes names that need it', () => {
+    const legs = calculateRouteLegs([tokyo, sanFrancisco], ['orthodromic']);
+    const log = buildNavigationLog(legs, { mode: 'longitude', interval: 20 });
+    const file = navigationLogToCsv(log);
+    const lines = file.content.trim().split('\n');
+    expect(file.filename).toBe('navlog-tokyo-san-francisco-ca.csv');
+    expect(lines[0]).toBe('waypoint,name,latitude,longitude,course_deg,distance_km,cumulative_distance_km');
+    expect(lines).toHaveLength(log.rows.length + 1);
+    expect(lines[2]).toMatch(/^2,,[\d.]+,140\.000000,[\d.]+,[\d.]+,[\d.]+$/);
+    expect(lines[lines.length - 1]).toMatch(/^7,"San Francisco, CA",37\.620000,-122\.380000,,,[\d.]+$/);
+  });
+
+  it('writes the preferred units, bearing reference and notation', () => {
+    const legs = calculateRouteLegs([tokyo, sanFrancisco], ['orthodromic']);
+    const log = buildNavigationLog(legs, { mode: 'longitude', interval: 20 });
+    const lines = navigationLogToCsv(log, { distanceUnit: 'nm', bearingReference: 'magnetic', coordinateFormat: 'ddm' }).content.trim().split('\n');
+    expect(lines[0]).toBe('waypoint,name,latitude,longitude,course_deg_magnetic,distance_nm,cumulative_distance_nm');
+    expect(lines[lines.length - 1]).toBe(`7,"San Francisco, CA",37°37.200′N,122°22.800′W,,,${(log.total / 1.852).toFixed(3)}`);
+  });
+});
@@ -0,0 +1,166 @@
+import type { Coordinates, DisplayPreferences, EarthModel, RouteLeg } from '../types';
+import { formatLatitude, formatLongitude, fromKilometers, referenceBearing } from './displayFormat';
+import { normalizeLongitude } from './geo';
+import { DEFAULT_EARTH_MODEL, solveRhumbInverse } from './geodesic';
+import { createPathWalker, unwrapLongitude } from './pathGeometry';
+import { DEFAULT_PREFERENCES } from './preferences';
+import { type ExportedFile, slugify } from './routeExport';
+
+/** Waypoints listed at most, so that a tiny spacing cannot lock up the page. */
+export const MAX_LOG_WAYPOINTS = 1000;
+
+/** Waypoints closer together than this, in kilometers, are merged, e.g. meridians all met at a pole. */
+const MERGE_DISTANCE = 1e-3;
+
+/** Bisection steps when finding where the great circle meets a meridian: well below a millimeter on any leg. */
+const BISECTION_STEPS = 60;
+
+/** Where to put the waypoints along each great circle: on every meridian that is a multiple of an interval, or at a fixed spacing. */
+export type NavigationLogSpacing =
+  | { mode: 'longitude'; interval: number }
+  | { mode: 'distance'; spacing: number };
+
+/** One waypoint of the log, with the rhumb-line leg that leaves it. */
+export interface NavigationLogRow {
+  /** Position in the log, from 1. */
+  index: number;
+  /** The route waypoint's name; null for points added along the great circle. */
+  name: string | null;
+  coords: Coordinates;
+  /** Constant true course to the next waypoint, degrees; null at the last one. */
+  course: number | null;
+  /** Rhumb-line distance to the next waypoint, km; null at the last one. */
+  distance: number | null;
+  /** Distance sailed from the first waypoint, km. */
+  cumulativeDistance: number;
+}
+
+/** A great-circle route broken into rhumb-line legs, as sailed or flown. */
+export interface NavigationLog {
+  rows: NavigationLogRow[];
+  /** Sum of the rhumb-line legs, km. */
+  total: number;
+  /** The great-circle distance the legs approximate, km. */
+  greatCircleDistance: number;
+}
+
+/** Distances along a leg's great circle at which it meets a meridian that is a multiple of the interval. */
+function meridianCrossings(from: Coordinates, to: Coordinates, walk: (distance: number) => [number, number], length: number, interval: number): { distance: number; lon: number }[] {
+  const startLon = from.lon;
+  const endLon = unwrapLongitude(to.lon, startLon);
+  const sense = Math.sign(endLon - startLon);
+  if (sense === 0) return [];
+
+  // Longitude changes one way only along a great circle, so each meridian is met once.
+  const offsetAt = (distance: number, lon: number) => sense * (unwrapLongitude(walk(distance)[0], startLon) - lon);
+  const crossings: { distance: number; lon: number }[] = [];
+  let lo = 0;
+  for (let k = sense > 0 ? Math.floor(startLon / interval) + 1 : Math.ceil(startLon / interval) - 1; sense * (k * interval - endLon) < 0; k += sense) {
+    const lon = k * interval;
+    if (crossings.length >= MAX_LOG_WAYPOINTS) break;
+    let hi = length;
+    for (let i = 0; i < BISECTION_STEPS; i++) {
+      const mid = (lo + hi) / 2;
+      if (offsetAt(mid, lon) < 0) lo = mid;
+      else hi = mid;
+    }
+    crossings.push({ distance: (lo + hi) / 2, lon });
+  }
+  return crossings;
+}
+
+/**
+ * Breaks the great circle of each leg into waypoints joined by rhumb lines, the way a great circle is
+ * sailed in practice: course is held between waypoints and changed at each. The route's own waypoints
+ * are kept, whatever path type their legs were planned with.
+ * @param legs - The legs from calculateRouteLegs.
+ * @param spacing - Where to put the waypoints in between.
+ * @param model - The earth model the legs were computed on; defaults to the 6371 km sphere.
+ * @returns The waypoints with the course and distance to the next, and the totals.
+ * @throws If the interval or spacing is not positive, or would give more than MAX_LOG_WAYPOINTS waypoints.
+ */
+export function buildNavigationLog(legs: RouteLeg[], spacing: NavigationLogSpacing, model: EarthModel = DEFAULT_EARTH_MODEL): NavigationLog {
+  const step = spacing.mode === 'longitude' ? spacing.interval : spacing.spacing;
+  if (!(step > 0)) {
+    throw new Error(spacing.mode === 'longitude' ? 'The longitude interval must be a positive number of degrees.' : 'The spacing must be a positive distance.');
+  }
+
+  const points: { name: string | null; coords: Coordinates }[] = legs.length > 0 ? [{ name: legs[0].from.name, coords: legs[0].from.coords }] : [];
+  for (const leg of legs) {
+    const from = leg.from.coords;
+    const to = leg.to.coords;
+    const length = leg.course.orthodromicDistance;
+    const walk = createPathWalker({ from, to, pathType: 'orthodromic' }, model);
+    const between = spacing.mode === 'longitude'
+      ? meridianCrossings(from, to, walk, length, spacing.interval)
+      : Array.from({ length: Math.min(Math.ceil(length / spacing.spacing) - 1, MAX_LOG_WAYPOINTS) }, (_, i) => ({ distance: (i + 1) * spacing.spacing, lon: null }));
+
+    let previous = 0;
+    for (const { distance, lon } of between) {
+      if (distance - previous < MERGE_DISTANCE || length - distance < MERGE_DISTANCE) continue;
+      const [walkedLon, lat] = walk(distance);
+      points.push({ name: null, coords: { lat, lon: lon === null ? walkedLon : normalizeLongitude(lon) } });
+      previous = distance;
+    }
+    points.push({ name: leg.to.name, coords: to });
+    if (points.length > MAX_LOG_WAYPOINTS) {
+      throw new Error(`That would make more than ${MAX_LOG_WAYPOINTS} waypoints; choose a wider spacing.`);
+    }
+  }
+
+  let cumulativeDistance = 0;
+  const rows = points.map((point, i): NavigationLogRow => {
+    const next = points[i + 1];
+    const leg = next ? solveRhumbInverse(point.coords, next.coords, model) : null;
+    const row = {
+      index: i + 1,
+      ...point,
+      course: leg ? leg.bearing : null,
+      distance: leg ? leg.distance : null,
+      cumulativeDistance,
+    };
+    cumulativeDistance += leg ? leg.distance : 0;
+    return row;
+  });
+
+  return {
+    rows,
+    total: cumulativeDistance,
+    greatCircleDistance: legs.reduce((sum, leg) => sum + leg.course.orthodromicDistance, 0),
+  };
+}
+
+const csvField = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * Writes a navigation log as CSV, one row per waypoint, in log order.
+ * @param log - The log from buildNavigationLog.
+ * @param preferences - The units, bearing reference and coordinate notation to write; the column names say which.
+ * @returns The file name, MIME type and contents.
+ */
+export function navigationLogToCsv(log: NavigationLog, preferences: DisplayPreferences = DEFAULT_PREFERENCES): ExportedFile {
+  const unit = preferences.distanceUnit;
+  const header = [
+    'waypoint', 'name', 'latitude', 'longitude',
+    preferences.bearingReference === 'true' ? 'course_deg' : 'course_deg_magnetic',
+    `distance_${unit}`, `cumulative_distance_${unit}`,
+  ];
+  const distance = (km: number) => fromKilometers(km, preferences.distanceUnit).toFixed(3);
+  const lines = log.rows.map(row => [
+    String(row.index),
+    csvField(row.name ?? ''),
+    formatLatitude(row.coords.lat, preferences, 6),
+    formatLongitude(row.coords.lon, preferences, 6),
+    row.course === null ? '' : referenceBearing(row.course, row.coords, preferences).toFixed(1),
+    row.distance === null ? '' : distance(row.distance),
+    distance(row.cumulativeDistance),
+  ].join(','));
+
+  const first = log.rows[0]?.name ?? 'start';
+  const last = log.rows[log.rows.length - 1]?.name ?? 'end';
+  return {
+    filename: `navlog-${slugify(first)}-${slugify(last)}.csv`,
+    mimeType: 'text/csv',
+    content: [header.join(','), ...lines, ''].join('\n'),
+  };
+}
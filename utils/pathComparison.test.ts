@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import * as d3 from 'd3';
+import { calculateLoxodromicDistance, calculateOrthodromicDistance } from './geo';
+import { EARTH_MODELS } from './geodesic';
+import { comparePaths } from './pathComparison';
+
+const tokyo = { lat: 35.55, lon: 139.78 };
+const sanFrancisco = { lat: 37.62, lon: -122.38 };
+
+describe('comparePaths', () => {
+  it('reports both distances and how much longer the rhumb line is', () => {
+    for (const model of [EARTH_MODELS.sphere, EARTH_MODELS.wgs84]) {
+      const comparison = comparePaths(tokyo, sanFrancisco, model);
+      const greatCircle = calculateOrthodromicDistance(tokyo, sanFrancisco, model);
+      const rhumbLine = calculateLoxodromicDistance(tokyo, sanFrancisco, model);
+      expect(comparison.orthodromicDistance).toBeCloseTo(greatCircle, 9);
+      expect(comparison.loxodromicDistance).toBeCloseTo(rhumbLine, 9);
+      expect(comparison.percentDifference).toBeCloseTo((rhumbLine - greatCircle) / greatCircle * 100, 9);
+    }
+  });
+
+  it('finds the furthest point of a great circle from the parallel it starts and ends on', () => {
+    // Symmetric about 0°E, the great circle peaks at its vertex, tan φv = tan 45° / cos 45°,
+    // straight north of the rhumb line running along 45°N.
+    const comparison = comparePaths({ lat: 45, lon: -45 }, { lat: 45, lon: 45 });
+    const vertexLat = Math.atan(Math.SQRT2) * 180 / Math.PI;
+    expect(comparison.maxSeparation.distance).toBeCloseTo((vertexLat - 45) * Math.PI / 180 * 6371, 3);
+    expect(comparison.maxSeparation.greatCircle[0]).toBeCloseTo(0, 4);
+    expect(comparison.maxSeparation.greatCircle[1]).toBeCloseTo(vertexLat, 6);
+    expect(comparison.maxSeparation.rhumbLine[0]).toBeCloseTo(0, 4);
+    expect(comparison.maxSeparation.rhumbLine[1]).toBeCloseTo(45, 9);
+  });
+
+  it('shades the sliver between the paths, not the rest of the globe', () => {
+    const comparison = comparePaths(tokyo, sanFrancisco);
+    expect(comparison.between).not.toBeNull();
+    const area = d3.geoArea(comparison.between!) * 6371 ** 2;
+    // Thinner than a rectangle as long as the rhumb line and as wide as the largest gap.
+    expect(area).toBeGreaterThan(0);
+    expect(area).toBeLessThan(comparison.loxodromicDistance * comparison.maxSeparation.distance);
+  });
+
+  it('leaves nothing to shade where the paths coincide', () => {
+    const comparison = comparePaths({ lat: 0, lon: 10 }, { lat: 0, lon: 60 }, EARTH_MODELS.wgs84);
+    expect(comparison.maxSeparation.distance).toBeLessThan(1e-3);
+    expect(comparison.between).toBeNull();
+    expect(comparison.percentDifference).toBeCloseTo(0, 9);
+  });
+});
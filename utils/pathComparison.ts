@@ -0,0 +1,126 @@
+import * as d3 from 'd3';
+import type { Polygon } from 'geojson';
+import type { Coordinates, EarthModel } from '../types';
+import { calculateOrthodromicDistance } from './geo';
+import { DEFAULT_EARTH_MODEL } from './geodesic';
+import { createPathWalker, densifyPath, DISPLAY_DENSIFY, pathLength, pathSpec } from './pathGeometry';
+import type { LonLat } from './pathGeometry';
+
+/** The great circle and the rhumb line between the same two points, side by side. */
+export interface PathComparison {
+  /** Each path's vertices for drawing, with continuous longitudes. */
+  greatCircle: LonLat[];
+  rhumbLine: LonLat[];
+  /** The area between the two paths, or null where they coincide (along the equator or a meridian). */
+  between: Polygon | null;
+  orthodromicDistance: number;
+  loxodromicDistance: number;
+  /** How much longer the rhumb line is, as a percentage of the great circle. */
+  percentDifference: number;
+  /** The point of the great circle furthest from the rhumb line, and the nearest point of the rhumb line to it. */
+  maxSeparation: { distance: number; greatCircle: LonLat; rhumbLine: LonLat };
+}
+
+/** Points taken along each path before refining the furthest and nearest points between them. */
+const SEPARATION_SAMPLES = 64;
+
+/** Paths closer than this (in km, i.e. 1 m) everywhere are treated as the same line. */
+const COINCIDENT = 1e-3;
+
+/** Positions along either path are refined to within this, in km (i.e. 10 cm). */
+const POSITION_TOLERANCE = 1e-4;
+
+/** Narrows a bracket around the minimum of a function that has a single one in it. */
+function goldenSectionMinimum(f: (x: number) => number, lo: number, hi: number): { x: number; value: number } {
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let a = hi - ratio * (hi - lo);
+  let b = lo + ratio * (hi - lo);
+  let fa = f(a);
+  let fb = f(b);
+  while (hi - lo > POSITION_TOLERANCE) {
+    if (fa < fb) {
+      hi = b; b = a; fb = fa;
+      a = hi - ratio * (hi - lo); fa = f(a);
+    } else {
+      lo = a; a = b; fa = fb;
+      b = lo + ratio * (hi - lo); fb = f(b);
+    }
+  }
+  return fa < fb ? { x: a, value: fa } : { x: b, value: fb };
+}
+
+/**
+ * Picks the best of evenly spaced samples of a function over [0, length], then refines it between
+ * its neighbours; sense 1 looks for the minimum and -1 for the maximum.
+ */
+function extremum(f: (x: number) => number, samples: number[], length: number, sense: 1 | -1): number {
+  const step = length / (samples.length - 1);
+  let best = 0;
+  samples.forEach((value, i) => {
+    if (sense * value < sense * samples[best]) best = i;
+  });
+  const lo = Math.max(0, (best - 1) * step);
+  const hi = Math.min(length, (best + 1) * step);
+  const refined = goldenSectionMinimum(x => sense * f(x), lo, hi);
+  return sense * refined.value <= sense * samples[best] ? refined.x : best * step;
+}
+
+/** Evenly spaced positions along [0, length], both ends included. */
+const grid = (length: number) => Array.from({ length: SEPARATION_SAMPLES + 1 }, (_, i) => i * length / SEPARATION_SAMPLES);
+
+const toCoordinates = ([lon, lat]: LonLat): Coordinates => ({ lat, lon });
+
+/**
+ * Compares the great circle and the rhumb line between two points.
+ * @param from - The departure point.
+ * @param to - The destination point.
+ * @param model - The earth model; defaults to the 6371 km sphere.
+ * @returns Both paths, the area between them, their lengths and where they are furthest apart.
+ */
+export function comparePaths(from: Coordinates, to: Coordinates, model: EarthModel = DEFAULT_EARTH_MODEL): PathComparison {
+  const greatCircleSpec = pathSpec(from, to, 'orthodromic', undefined, model);
+  const rhumbSpec = pathSpec(from, to, 'loxodromic', undefined, model);
+  const orthodromicDistance = pathLength(greatCircleSpec, model);
+  const loxodromicDistance = pathLength(rhumbSpec, model);
+  const alongGreatCircle = createPathWalker(greatCircleSpec, model);
+  const alongRhumb = createPathWalker(rhumbSpec, model);
+
+  // Separation at a point of the great circle: the distance to the nearest point of the rhumb line.
+  // Locating the points on the sphere is close enough and far quicker; the model measures the result.
+  const separation = (p1: LonLat, p2: LonLat) => calculateOrthodromicDistance(toCoordinates(p1), toCoordinates(p2));
+  const rhumbSamples = grid(loxodromicDistance).map(alongRhumb);
+  const nearestOnRhumb = (point: LonLat) => alongRhumb(extremum(
+    u => separation(point, alongRhumb(u)),
+    rhumbSamples.map(sample => separation(point, sample)),
+    loxodromicDistance,
+    1,
+  ));
+  const separationAt = (s: number) => {
+    const point = alongGreatCircle(s);
+    return separation(point, nearestOnRhumb(point));
+  };
+  const furthest = extremum(separationAt, grid(orthodromicDistance).map(separationAt), orthodromicDistance, -1);
+  const onGreatCircle = alongGreatCircle(furthest);
+  const nearest = nearestOnRhumb(onGreatCircle);
+  const distance = calculateOrthodromicDistance(toCoordinates(onGreatCircle), toCoordinates(nearest), model);
+
+  const greatCircle = densifyPath(greatCircleSpec, DISPLAY_DENSIFY, model);
+  const rhumbLine = densifyPath(rhumbSpec, DISPLAY_DENSIFY, model);
+  let between: Polygon | null = null;
+  if (distance > COINCIDENT) {
+    const ring = [...greatCircle, ...rhumbLine.slice(0, -1).reverse()];
+    between = { type: 'Polygon', coordinates: [ring] };
+    // d3 fills the inside of a ring wound clockwise; wound the other way, it fills the rest of the globe.
+    if (d3.geoArea(between) > 2 * Math.PI) ring.reverse();
+  }
+
+  return {
+    greatCircle,
+    rhumbLine,
+    between,
+    orthodromicDistance,
+    loxodromicDistance,
+    percentDifference: orthodromicDistance > 0 ? (loxodromicDistance - orthodromicDistance) / orthodromicDistance * 100 : 0,
+    maxSeparation: { distance, greatCircle: onGreatCircle, rhumbLine: nearest },
+  };
+}
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import type { PathType } from '../types';
+import { calculateOrthodromicDistance, calculatePathDistance, calculateRouteLegs } from './geo';
+import { EARTH_MODELS, solveRhumbInverse } from './geodesic';
+import { createRouteWalker, densifyPath, nearestPointOnPath, pathLength, pathSpec, pathToGeoJson, pointAlongPath, splitPath } from './pathGeometry';
+
+const tokyo = { lat: 35.55, lon: 139.78 };
+const sanFrancisco = { lat: 37.62, lon: -122.38 };
+const london = { lat: 51.47, lon: -0.45 };
+
+const PATH_TYPES: PathType[] = ['orthodromic', 'loxodromic', 'composite'];
+const point = fc.record({ lat: fc.double({ min: -89, max: 89, noNaN: true }), lon: fc.double({ min: -180, max: 180, noNaN: true }) });
+
+describe('pathLength', () => {
+  it.each(PATH_TYPES)('matches calculatePathDistance for %s paths', pathType => {
+    for (const model of [EARTH_MODELS.sphere, EARTH_MODELS.wgs84]) {
+      const spec = pathSpec(tokyo, sanFrancisco, pathType, 45, model);
+      expect(pathLength(spec, model)).toBeCloseTo(calculatePathDistance(tokyo, sanFrancisco, pathType, model, 45), 9);
+    }
+  });
+});
+
+describe('densifyPath', () => {
+  it('starts and ends on the waypoints, with continuous longitudes', () => {
+    fc.assert(fc.property(point, point, fc.constantFrom(...PATH_TYPES), (from, to, pathType) => {
+      const coords = densifyPath(pathSpec(from, to, pathType, 60), { mode: 'spacing', spacing: 500 });
+      expect(coords[0]).toEqual([from.lon, from.lat]);
+      const [lon, lat] = coords[coords.length - 1];
+      expect(lat).toBeCloseTo(to.lat, 9);
+      expect(Math.abs(((lon - to.lon) % 360 + 540) % 360 - 180)).toBeLessThan(1e-9);
+      for (let i = 1; i < coords.length; i++) {
+        expect(Math.abs(coords[i][0] - coords[i - 1][0])).toBeLessThanOrEqual(180);
+      }
+    }));
+  });
+
+  it('spaces samples no further apart than asked', () => {
+    const coords = densifyPath(pathSpec(london, tokyo, 'orthodromic'), { mode: 'spacing', spacing: 250 });
+    const steps = coords.slice(1).map((c, i) =>
+      calculateOrthodromicDistance({ lat: coords[i][1], lon: coords[i][0] }, { lat: c[1], lon: c[0] }));
+    expect(Math.max(...steps)).toBeLessThanOrEqual(250);
+    expect(steps.reduce((a, b) => a + b, 0)).toBeCloseTo(calculateOrthodromicDistance(london, tokyo), 3);
+  });
+
+  it('keeps every rhumb-line sample on the constant course', () => {
+    const { bearing } = solveRhumbInverse(tokyo, sanFrancisco, EARTH_MODELS.wgs84);
+    const coords = densifyPath(pathSpec(tokyo, sanFrancisco, 'loxodromic'), { mode: 'spacing', spacing: 500 }, EARTH_MODELS.wgs84);
+    for (const [lon, lat] of coords.slice(1)) {
+      expect(solveRhumbInverse(tokyo, { lat, lon }, EARTH_MODELS.wgs84).bearing).toBeCloseTo(bearing, 9);
+    }
+  });
+
+  it('samples curving stretches more densely than straight ones by cross-track error', () => {
+    // A great circle bends most in lon/lat near its vertex, high in the north.
+    const coords = densifyPath(pathSpec(london, tokyo, 'orthodromic'), { mode: 'crossTrack', tolerance: 1 });
+    const northern = coords.filter(([, lat]) => lat > 65).length;
+    const southern = coords.filter(([, lat]) => lat < 55).length;
+    expect(northern).toBeGreaterThan(southern);
+    // Every straight lon/lat segment stays within the tolerance of the great circle at its middle.
+    const spec = pathSpec(london, tokyo, 'orthodromic');
+    const along = coords.map(([lon, lat]) => calculateOrthodromicDistance(london, { lat, lon }));
+    for (let i = 1; i < coords.length; i++) {
+      const [lon, lat] = pointAlongPath(spec, (along[i - 1] + along[i]) / 2);
+      const chordMiddle = { lon: (coords[i - 1][0] + coords[i][0]) / 2, lat: (coords[i - 1][1] + coords[i][1]) / 2 };
+      expect(calculateOrthodromicDistance({ lat, lon }, chordMiddle)).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('stops a rhumb line at the pole it heads for', () => {
+    const coords = densifyPath(pathSpec({ lat: 10, lon: 20 }, { lat: 90, lon: 0 }, 'loxodromic'), { mode: 'spacing', spacing: 1000 });
+    expect(coords.every(c => c.every(Number.isFinite))).toBe(true);
+    expect(coords[coords.length - 1][1]).toBe(90);
+  });
+});
+
+describe('pointAlongPath', () => {
+  it.each(PATH_TYPES)('walks %s paths by distance', pathType => {
+    const spec = pathSpec(tokyo, sanFrancisco, pathType, 45);
+    const length = pathLength(spec);
+    expect(pointAlongPath(spec, 0)).toEqual([tokyo.lon, tokyo.lat]);
+    expect(pointAlongPath(spec, length * 2)).toEqual([sanFrancisco.lon, sanFrancisco.lat]);
+    const [lon, lat] = pointAlongPath(spec, length / 2);
+    expect(Math.abs(lon)).toBeLessThanOrEqual(180);
+    expect(calculatePathDistance(tokyo, { lat, lon }, pathType, undefined, 45)).toBeCloseTo(length / 2, 6);
+  });
+});
+
+describe('splitPath', () => {
+  it('splits at the antimeridian, meeting at the same latitude', () => {
+    const parts = splitPath(densifyPath(pathSpec(tokyo, sanFrancisco, 'loxodromic'), { mode: 'spacing', spacing: 500 }));
+    expect(parts).toHaveLength(2);
+    expect(parts[0][parts[0].length - 1][0]).toBe(180);
+    expect(parts[1][0][0]).toBe(-180);
+    expect(parts[1][0][1]).toBeCloseTo(parts[0][parts[0].length - 1][1], 12);
+    expect(parts.flat().every(([lon]) => Math.abs(lon) <= 180)).toBe(true);
+  });
+
+  it('splits a great circle over a pole at the pole', () => {
+    const parts = splitPath(densifyPath(pathSpec({ lat: 80, lon: 0 }, { lat: 80, lon: 180 }, 'orthodromic'), { mode: 'spacing', spacing: 100 }));
+    expect(parts).toHaveLength(2);
+    expect(parts[0][parts[0].length - 1]).toEqual([0, 90]);
+    expect(parts[1][0]).toEqual([180, 90]);
+  });
+
+  it('leaves sparse samples far from the poles alone', () => {
+    const coords = densifyPath(pathSpec(london, tokyo, 'orthodromic'), { mode: 'spacing', spacing: 5000 });
+    expect(splitPath(coords)).toHaveLength(1);
+    expect(pathToGeoJson(coords).type).toBe('LineString');
+  });
+});
+
+describe('nearestPointOnPath', () => {
+  // An equirectangular "screen" 1 unit per degree, cut at the antimeridian like a world map.
+  const project = ([lon, lat]: [number, number]): [number, number] => [((lon + 540) % 360) - 180, -lat];
+
+  it('snaps to the nearest segment and interpolates along it', () => {
+    const hit = nearestPointOnPath([[[0, 0], [10, 0]], [[10, 0], [10, 10]]], project, [9, -6]);
+    expect(hit).toMatchObject({ leg: 1, index: 0, distance: 1 });
+    expect(hit!.t).toBeCloseTo(0.6, 12);
+    expect(hit!.fraction).toBeCloseTo(0.6, 12);
+    expect(hit!.coords[1]).toBeCloseTo(6, 12);
+  });
+
+  it('ignores segments the projection cuts at the antimeridian', () => {
+    const line = densifyPath(pathSpec(tokyo, sanFrancisco, 'loxodromic'), { mode: 'spacing', spacing: 200 });
+    // The middle of the screen is nowhere near this route, however the cut segment would be drawn.
+    const hit = nearestPointOnPath([line], project, [0, -37]);
+    expect(Math.abs(hit!.coords[0])).toBeGreaterThan(120);
+  });
+
+  it('measures how far along the leg the hit is', () => {
+    const spec = pathSpec(tokyo, sanFrancisco, 'loxodromic');
+    const line = densifyPath(spec, { mode: 'spacing', spacing: 100 });
+    const length = pathLength(spec);
+    const [lon, lat] = pointAlongPath(spec, length * 0.3);
+    const hit = nearestPointOnPath([line], project, project([lon, lat]));
+    expect(hit!.fraction).toBeCloseTo(0.3, 4);
+  });
+
+  it('finds nothing when nothing is drawn', () => {
+    expect(nearestPointOnPath([[[0, 0], [10, 0]]], () => null, [0, 0])).toBeNull();
+  });
+});
+
+describe('createRouteWalker', () => {
+  const waypoints = [london, tokyo, sanFrancisco].map((coords, i) => ({ name: `${i}`, coords }));
+
+  it('walks across the legs by distance along the whole route', () => {
+    const legs = calculateRouteLegs(waypoints, ['orthodromic', 'loxodromic']);
+    const walk = createRouteWalker(legs);
+    expect(walk(0)).toMatchObject({ coords: [london.lon, london.lat], leg: 0 });
+    expect(walk(legs[0].distance + 1).leg).toBe(1);
+    expect(walk(Infinity)).toMatchObject({ coords: [sanFrancisco.lon, sanFrancisco.lat], leg: 1 });
+    const [lon, lat] = walk(legs[0].distance + legs[1].distance / 2).coords;
+    expect(calculatePathDistance(tokyo, { lat, lon }, 'loxodromic')).toBeCloseTo(legs[1].distance / 2, 6);
+  });
+
+  it('heads along the great circle and keeps the course of the rhumb line', () => {
+    for (const model of [EARTH_MODELS.sphere, EARTH_MODELS.wgs84]) {
+      const legs = calculateRouteLegs(waypoints, ['orthodromic', 'loxodromic'], model);
+      const walk = createRouteWalker(legs, model);
+      expect(walk(0).heading).toBeCloseTo(legs[0].course.initialCourse, 3);
+      expect(walk(legs[0].distance).heading).toBeCloseTo(legs[0].course.finalCourse, 3);
+      for (const fraction of [0.01, 0.3, 1]) {
+        expect(walk(legs[0].distance + fraction * legs[1].distance).heading).toBeCloseTo(legs[1].course.rhumbCourse, 3);
+      }
+    }
+  });
+});
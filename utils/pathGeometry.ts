@@ -0,0 +1,385 @@
+import type { LineString, MultiLineString } from 'geojson';
+import type { CompositeSailing, Coordinates, EarthModel, PathType, RouteLeg } from '../types';
+import { calculateCompositeSailing, calculateOrthodromicDistance, DEFAULT_LIMITING_LATITUDE, normalizeLongitude } from './geo';
+import { DEFAULT_EARTH_MODEL, solveGeodesicDirect, solveGeodesicInverse, solveRhumbDirect, solveRhumbInverse } from './geodesic';
+
+export type LonLat = [number, number];
+
+/** How finely to sample a path: a fixed spacing, or as few points as keep straight segments within a tolerance. */
+export type DensifyOptions =
+  | { mode: 'spacing'; spacing: number }
+  | { mode: 'crossTrack'; tolerance: number };
+
+/** Everything needed to trace one path between two points. */
+export interface PathSpec {
+  from: Coordinates;
+  to: Coordinates;
+  pathType: PathType;
+  /** The composite plan for composite paths; without one they are traced as a great circle. */
+  composite?: CompositeSailing | null;
+}
+
+/**
+ * Sampling used for drawing with d3, which joins vertices with great-circle arcs rather than
+ * straight lon/lat segments: at 100 km spacing a rhumb line stays within about 2 km even at 85°.
+ */
+export const DISPLAY_DENSIFY: DensifyOptions = { mode: 'spacing', spacing: 100 };
+
+/** Deepest subdivision when densifying by cross-track error, i.e. at most 4096 segments per piece. */
+const MAX_SUBDIVISION_DEPTH = 12;
+
+/** A stretch of a path that follows a single kind of line, parameterized by distance. */
+interface PathPiece {
+  at: (fraction: number) => LonLat;
+  length: number;
+}
+
+function greatCirclePiece(from: Coordinates, to: Coordinates, model: EarthModel): PathPiece {
+  const { distance, initialBearing } = solveGeodesicInverse(from, to, model);
+  return {
+    at: f => {
+      if (f <= 0) return [from.lon, from.lat];
+      if (f >= 1) return [to.lon, to.lat];
+      const { point } = solveGeodesicDirect(from, initialBearing, distance * f, model);
+      return [point.lon, point.lat];
+    },
+    length: distance,
+  };
+}
+
+function rhumbPiece(from: Coordinates, to: Coordinates, model: EarthModel): PathPiece {
+  const { distance, bearing } = solveRhumbInverse(from, to, model);
+  return {
+    at: f => {
+      if (f <= 0) return [from.lon, from.lat];
+      if (f >= 1) return [to.lon, to.lat];
+      const point = solveRhumbDirect(from, bearing, distance * f, model);
+      return [point.lon, point.lat];
+    },
+    length: distance,
+  };
+}
+
+function pathPieces(spec: PathSpec, model: EarthModel): PathPiece[] {
+  if (spec.pathType === 'composite' && spec.composite) {
+    return spec.composite.segments.map((segment): PathPiece => {
+      if (segment.kind === 'parallel') {
+        const deltaLon = normalizeLongitude(segment.to.lon - segment.from.lon);
+        return { at: f => [segment.from.lon + deltaLon * f, segment.from.lat], length: segment.distance };
+      }
+      return greatCirclePiece(segment.from, segment.to, model);
+    });
+  }
+  if (spec.pathType === 'loxodromic') {
+    return [rhumbPiece(spec.from, spec.to, model)];
+  }
+  return [greatCirclePiece(spec.from, spec.to, model)];
+}
+
+/**
+ * Describes the path between two waypoints, planning the composite sailing if there is one.
+ * @param from - The start point.
+ * @param to - The end point.
+ * @param pathType - How the path is sailed.
+ * @param limitingLatitude - The limiting latitude for composite paths, in degrees.
+ * @param model - The earth model; defaults to the 6371 km sphere.
+ * @returns The path description.
+ */
+export function pathSpec(from: Coordinates, to: Coordinates, pathType: PathType, limitingLatitude: number = DEFAULT_LIMITING_LATITUDE, model: EarthModel = DEFAULT_EARTH_MODEL): PathSpec {
+  const composite = pathType === 'composite' ? calculateCompositeSailing(from, to, limitingLatitude, model) : null;
+  return { from, to, pathType, composite };
+}
+
+/**
+ * Describes the path a route leg follows.
+ * @param leg - A leg from calculateRouteLegs.
+ * @returns The path description.
+ */
+export function legPathSpec(leg: RouteLeg): PathSpec {
+  return { from: leg.from.coords, to: leg.to.coords, pathType: leg.pathType, composite: leg.composite };
+}
+
+/**
+ * Measures a path; matches the leg distances from calculateRouteLegs.
+ * @param spec - The path.
+ * @param model - The earth model; defaults to the 6371 km sphere.
+ * @returns The length in kilometers.
+ */
+export function pathLength(spec: PathSpec, model: EarthModel = DEFAULT_EARTH_MODEL): number {
+  return pathPieces(spec, model).reduce((total, piece) => total + piece.length, 0);
+}
+
+/**
+ * Prepares a path for finding many points along it, solving its pieces once.
+ * @param spec - The path.
+ * @param model - The earth model; defaults to the 6371 km sphere.
+ * @returns A function from distance along the path (clamped to it, in kilometers) to the point there
+ *   as [lon, lat], with longitude within ±180°.
+ */
+export function createPathWalker(spec: PathSpec, model: EarthModel = DEFAULT_EARTH_MODEL): (distance: number) => LonLat {
+  const pieces = pathPieces(spec, model);
+  return distance => {
+    let remaining = Math.max(0, distance);
+    for (const piece of pieces) {
+      if (remaining <= piece.length) {
+        const [lon, lat] = piece.at(piece.length > 0 ? remaining / piece.length : 0);
+        return [Math.abs(lon) > 180 ? normalizeLongitude(lon) : lon, lat];
+      }
+      remaining -= piece.length;
+    }
+    return [spec.to.lon, spec.to.lat];
+  };
+}
+
+/**
+ * Finds the point a given distance along a path.
+ * @param spec - The path.
+ * @param distance - Distance from the start, in kilometers; clamped to the path.
+ * @param model - The earth model; defaults to the 6371 km sphere.
+ * @returns The point as [lon, lat], with longitude within ±180°.
+ */
+export function pointAlongPath(spec: PathSpec, distance: number, model: EarthModel = DEFAULT_EARTH_MODEL): LonLat {
+  return createPathWalker(spec, model)(distance);
+}
+
+/** Where a point travelling along a route is, and which way it is heading. */
+export interface RoutePosition {
+  coords: LonLat;
+  /** True course at the point, in degrees clockwise from north. */
+  heading: number;
+  /** Index of the leg the point is on. */
+  leg: number;
+}
+
+/** A point of the route picked out by hovering, with how far it is from either end. */
+export interface RouteProbe extends RoutePosition {
+  /** Distance from the first waypoint along the route, in kilometers. */
+  fromStart: number;
+  /** Distance left to the last waypoint, in kilometers. */
+  toGo: number;
+}
+
+/** Distance over which the heading is measured, in km; short enough to follow the curve of a great circle. */
+const HEADING_STEP = 0.01;
+
+/**
+ * Prepares a route for finding many positions along it, e.g. to animate travel.
+ * @param legs - The legs from calculateRouteLegs.
+ * @param model - The earth model the legs were calculated on; defaults to the 6371 km sphere.
+ * @returns A function from distance along the whole route (clamped to it, in kilometers) to the position there.
+ */
+export function createRouteWalker(legs: RouteLeg[], model: EarthModel = DEFAULT_EARTH_MODEL): (distance: number) => RoutePosition {
+  const walkers = legs.map(leg => createPathWalker(legPathSpec(leg), model));
+  const toCoordinates = ([lon, lat]: LonLat): Coordinates => ({ lat, lon });
+  return distance => {
+    let index = legs.findIndex(leg => distance <= leg.cumulativeDistance);
+    if (index < 0) index = legs.length - 1;
+    const leg = legs[index];
+    const walk = walkers[index];
+    const along = Math.max(0, Math.min(leg.distance, distance - (leg.cumulativeDistance - leg.distance)));
+    const coords = walk(along);
+    // Measured forward, or up to the point at the very end of the leg.
+    const heading = along + HEADING_STEP <= leg.distance
+      ? solveGeodesicInverse(toCoordinates(coords), toCoordinates(walk(along + HEADING_STEP)), model).initialBearing
+      : solveGeodesicInverse(toCoordinates(walk(Math.max(0, along - HEADING_STEP))), toCoordinates(coords), model).finalBearing;
+    return { coords, heading, leg: index };
+  };
+}
+
+/** Shifts a longitude by whole turns so it is within 180° of a reference longitude. */
+export function unwrapLongitude(lon: number, reference: number): number {
+  return reference + normalizeLongitude(lon - reference);
+}
+
+function evenSamples(piece: PathPiece, intervals: number): LonLat[] {
+  const samples: LonLat[] = [];
+  for (let i = 0; i <= intervals; i++) {
+    samples.push(piece.at(i / intervals));
+  }
+  return samples;
+}
+
+/**
+ * Samples a piece so that no straight lon/lat segment strays more than `tolerance` km from the true line.
+ * Strongly curving stretches (high latitudes, near a vertex) get more points than nearly straight ones.
+ */
+function adaptiveSamples(piece: PathPiece, tolerance: number): LonLat[] {
+  const samples: LonLat[] = [piece.at(0)];
+  const subdivide = (f0: number, p0: LonLat, f1: number, p1: LonLat, depth: number) => {
+    const end: LonLat = [unwrapLongitude(p1[0], p0[0]), p1[1]];
+    // Probe the quarter points as well as the middle, so S-shaped stretches are not mistaken for straight.
+    const error = Math.max(...[0.25, 0.5, 0.75].map(t => {
+      const onPath = piece.at(f0 + (f1 - f0) * t);
+      const onChord = { lat: p0[1] + (end[1] - p0[1]) * t, lon: p0[0] + (end[0] - p0[0]) * t };
+      return calculateOrthodromicDistance({ lat: onPath[1], lon: onPath[0] }, onChord);
+    }));
+    if (error > tolerance && depth < MAX_SUBDIVISION_DEPTH) {
+      const fm = (f0 + f1) / 2;
+      const pm = piece.at(fm);
+      subdivide(f0, p0, fm, pm, depth + 1);
+      subdivide(fm, pm, f1, p1, depth + 1);
+    } else {
+      samples.push(p1);
+    }
+  };
+  subdivide(0, samples[0], 1, piece.at(1), 0);
+  return samples;
+}
+
+/**
+ * Samples a path densely enough to be drawn with straight segments, in lon/lat or in any d3 projection.
+ * @param spec - The path to sample.
+ * @param options - The spacing (km) between samples, or the largest allowed cross-track error (km).
+ * @param model - The earth model; defaults to the 6371 km sphere.
+ * @returns [lon, lat] vertices in travel order. Longitudes are continuous, so they may leave ±180° when crossing the antimeridian.
+ */
+export function densifyPath(spec: PathSpec, options: DensifyOptions, model: EarthModel = DEFAULT_EARTH_MODEL): LonLat[] {
+  const coords: LonLat[] = [];
+  for (const piece of pathPieces(spec, model)) {
+    const samples = options.mode === 'spacing'
+      ? evenSamples(piece, Math.max(1, Math.ceil(piece.length / options.spacing)))
+      : adaptiveSamples(piece, options.tolerance);
+    // Pieces share their joining vertex.
+    coords.push(...(coords.length > 0 ? samples.slice(1) : samples));
+  }
+  for (let i = 1; i < coords.length; i++) {
+    coords[i] = [unwrapLongitude(coords[i][0], coords[i - 1][0]), coords[i][1]];
+  }
+  return coords;
+}
+
+/** A step passing closer than this to a pole (degrees) is treated as going over it. */
+const POLE_TOLERANCE = 0.01;
+
+const toVector = ([lon, lat]: LonLat): [number, number, number] => {
+  const lambda = lon * Math.PI / 180;
+  const phi = lat * Math.PI / 180;
+  return [Math.cos(phi) * Math.cos(lambda), Math.cos(phi) * Math.sin(lambda), Math.sin(phi)];
+};
+
+const cross = (a: number[], b: number[]): [number, number, number] =>
+  [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+
+const dot = (a: number[], b: number[]) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+/**
+ * Finds the pole the step between two neighbouring samples passes over, if any. There the
+ * longitude flips by 180° and, drawn straight in lon/lat, the step would sweep along the
+ * pole's parallel instead.
+ * @returns 90 or -90 for the pole crossed, or null.
+ */
+function poleCrossed(p0: LonLat, p1: LonLat): number | null {
+  const a = toVector(p0);
+  const b = toVector(p1);
+  const normal = cross(a, b);
+  const size = Math.sqrt(dot(normal, normal));
+  if (size < 1e-15) return null;
+  // The arc's highest latitude is its great circle's vertex, if that falls between the samples.
+  const vertexLat = Math.acos(Math.min(1, Math.abs(normal[2]) / size)) * 180 / Math.PI;
+  if (vertexLat < 90 - POLE_TOLERANCE) return null;
+  for (const pole of [90, -90]) {
+    const z = [0, 0, Math.sign(pole)];
+    if (dot(cross(a, z), normal) > 0 && dot(cross(z, b), normal) > 0) return pole;
+  }
+  return null;
+}
+
+/**
+ * Splits a densified line into parts that each stay within ±180° and do not jump across a pole.
+ * Parts meet at the antimeridian or at the pole, so drawn one after another they trace the whole line.
+ * @param coords - [lon, lat] vertices whose longitudes may run past ±180°, as from densifyPath.
+ * @returns One or more parts, with longitudes within ±180°.
+ */
+export function splitPath(coords: LonLat[]): LonLat[][] {
+  const parts: LonLat[][] = [[]];
+  coords.forEach(([lon, lat], i) => {
+    if (i > 0) {
+      const [prevLon, prevLat] = coords[i - 1];
+      const pole = poleCrossed(coords[i - 1], coords[i]);
+      if (pole !== null) {
+        parts[parts.length - 1].push([normalizeLongitude(prevLon), pole]);
+        parts.push([[normalizeLongitude(lon), pole]]);
+      } else {
+        const turnsBefore = Math.floor((prevLon + 180) / 360);
+        const turnsAfter = Math.floor((lon + 180) / 360);
+        if (turnsBefore !== turnsAfter) {
+          const boundary = (Math.max(turnsBefore, turnsAfter) * 360) - 180;
+          const crossingLat = prevLat + (lat - prevLat) * (boundary - prevLon) / (lon - prevLon);
+          const eastward = lon > prevLon;
+          parts[parts.length - 1].push([eastward ? 180 : -180, crossingLat]);
+          parts.push([[eastward ? -180 : 180, crossingLat]]);
+        }
+      }
+    }
+    parts[parts.length - 1].push([normalizeLongitude(lon), lat]);
+  });
+  return parts.filter(part => part.length > 1 || coords.length === 1);
+}
+
+/**
+ * Converts a densified line to GeoJSON, split at the antimeridian and the poles.
+ * @param coords - [lon, lat] vertices, as from densifyPath.
+ * @returns A LineString, or a MultiLineString if the line had to be split.
+ */
+export function pathToGeoJson(coords: LonLat[]): LineString | MultiLineString {
+  const parts = splitPath(coords);
+  return parts.length === 1
+    ? { type: 'LineString', coordinates: parts[0] }
+    : { type: 'MultiLineString', coordinates: parts };
+}
+
+/** The point of a drawn route nearest some screen position. */
+export interface PathHit {
+  /** Index of the leg, i.e. of the line in the input. */
+  leg: number;
+  /** The hit lies between vertices `index` and `index + 1` of that line, `t` of the way along. */
+  index: number;
+  t: number;
+  /** The point as [lon, lat], with longitude within ±180°. */
+  coords: LonLat;
+  /** Screen distance from the position, in the units of `project`. */
+  distance: number;
+  /** How far along the leg the point is, as a fraction of its length. */
+  fraction: number;
+}
+
+/**
+ * Finds the point of a drawn route nearest a screen position.
+ * @param lines - Each leg's vertices, densified so that straight screen segments follow the path.
+ * @param project - Projects [lon, lat] to screen [x, y], or returns null where the point is not drawn.
+ * @param target - The screen position.
+ * @returns The nearest point, or null if no part of the route is drawn.
+ */
+export function nearestPointOnPath(lines: LonLat[][], project: (lonLat: LonLat) => [number, number] | null, target: [number, number]): PathHit | null {
+  let best: PathHit | null = null;
+  lines.forEach((line, leg) => {
+    const projected = line.map(project);
+    for (let index = 0; index < line.length - 1; index++) {
+      const a = projected[index];
+      const b = projected[index + 1];
+      if (!a || !b) continue;
+      const dx = b[0] - a[0];
+      const dy = b[1] - a[1];
+      // Segments the projection cuts (at its antimeridian) jump across the screen; their midpoint gives them away.
+      const middle = project([(line[index][0] + line[index + 1][0]) / 2, (line[index][1] + line[index + 1][1]) / 2]);
+      if (!middle || Math.hypot(middle[0] - (a[0] + b[0]) / 2, middle[1] - (a[1] + b[1]) / 2) > Math.hypot(dx, dy) / 2 + 1) continue;
+      const lengthSquared = dx * dx + dy * dy;
+      const t = lengthSquared > 0 ? Math.max(0, Math.min(1, ((target[0] - a[0]) * dx + (target[1] - a[1]) * dy) / lengthSquared)) : 0;
+      const distance = Math.hypot(a[0] + t * dx - target[0], a[1] + t * dy - target[1]);
+      if (!best || distance < best.distance) {
+        const lon = line[index][0] + t * (line[index + 1][0] - line[index][0]);
+        const lat = line[index][1] + t * (line[index + 1][1] - line[index][1]);
+        best = { leg, index, t, coords: [normalizeLongitude(lon), lat], distance, fraction: 0 };
+      }
+    }
+  });
+  if (best) {
+    // Measured along the vertices, which are close enough together that the chords match the path.
+    const line = lines[best.leg];
+    const chords = line.slice(1).map((vertex, i) => calculateOrthodromicDistance({ lat: line[i][1], lon: line[i][0] }, { lat: vertex[1], lon: vertex[0] }));
+    const length = chords.reduce((sum, chord) => sum + chord, 0);
+    const along = chords.slice(0, best.index).reduce((sum, chord) => sum + chord, 0) + best.t * chords[best.index];
+    best.fraction = length > 0 ? along / length : 0;
+  }
+  return best;
+}
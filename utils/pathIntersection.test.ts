@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { Coordinates, CrossingPath, EarthModel, PathType } from '../types';
+import { calculateCrossTrack, calculateRouteLegs } from './geo';
+import { EARTH_MODELS } from './geodesic';
+import { findRouteCrossings } from './pathIntersection';
+
+const routeLegs = (coords: Coordinates[], pathType: PathType, model: EarthModel = EARTH_MODELS.sphere) =>
+  calculateRouteLegs(coords.map((c, i) => ({ name: `P${i}`, coords: c })), coords.slice(1).map(() => pathType), model);
+
+const london = { lat: 51.47, lon: -0.45 };
+const newYork = { lat: 40.64, lon: -73.78 };
+
+describe('findRouteCrossings', () => {
+  it('crosses the equator with a meridian at right angles', () => {
+    const legs = routeLegs([{ lat: 0, lon: -10 }, { lat: 0, lon: 10 }], 'orthodromic');
+    const { intersections } = findRouteCrossings(legs, { from: { lat: -10, lon: 5 }, to: { lat: 10, lon: 5 }, pathType: 'orthodromic' });
+    expect(intersections).toHaveLength(1);
+    expect(intersections[0].coords.lat).toBeCloseTo(0, 9);
+    expect(intersections[0].coords.lon).toBeCloseTo(5, 9);
+    expect(intersections[0].alongRoute).toBeCloseTo(15 * Math.PI / 180 * 6371, 6);
+    expect(intersections[0].alongPath).toBeCloseTo(10 * Math.PI / 180 * 6371, 6);
+    expect(intersections[0].angle).toBeCloseTo(90, 6);
+  });
+
+  it('matches two rhumb lines crossing as straight lines on the Mercator projection', () => {
+    const mercatorY = (lat: number) => Math.log(Math.tan(Math.PI / 4 + lat * Math.PI / 360));
+    const path: CrossingPath = { from: { lat: 35, lon: -40 }, to: { lat: 65, lon: -30 }, pathType: 'loxodromic' };
+    const { intersections } = findRouteCrossings(routeLegs([london, newYork], 'loxodromic'), path);
+    expect(intersections).toHaveLength(1);
+
+    // Solve the two lines y = y0 + (x - x0) * slope in (longitude in radians, Mercator y).
+    const line = (p: Coordinates, q: Coordinates) => {
+      const x0 = p.lon * Math.PI / 180;
+      const y0 = mercatorY(p.lat);
+      return { x0, y0, slope: (mercatorY(q.lat) - y0) / (q.lon * Math.PI / 180 - x0) };
+    };
+    const r = line(london, newYork);
+    const s = line(path.from, path.to);
+    const x = (s.y0 - r.y0 + r.slope * r.x0 - s.slope * s.x0) / (r.slope - s.slope);
+    const y = r.y0 + (x - r.x0) * r.slope;
+    expect(intersections[0].coords.lon).toBeCloseTo(x * 180 / Math.PI, 7);
+    expect(intersections[0].coords.lat).toBeCloseTo((2 * Math.atan(Math.exp(y)) - Math.PI / 2) * 180 / Math.PI, 7);
+  });
+
+  it('lands on both paths for every combination of path types', () => {
+    const model = EARTH_MODELS.wgs84;
+    for (const routeType of ['orthodromic', 'loxodromic'] as const) {
+      for (const pathType of ['orthodromic', 'loxodromic'] as const) {
+        const path: CrossingPath = { from: { lat: 35, lon: -40 }, to: { lat: 65, lon: -30 }, pathType };
+        const { intersections } = findRouteCrossings(routeLegs([london, newYork], routeType, model), path, model);
+        expect(intersections).toHaveLength(1);
+        const { coords } = intersections[0];
+        expect(Math.abs(calculateCrossTrack(london, newYork, coords, routeType, model).crossTrackDistance)).toBeLessThan(1e-5);
+        expect(Math.abs(calculateCrossTrack(path.from, path.to, coords, pathType, model).crossTrackDistance)).toBeLessThan(1e-5);
+      }
+    }
+  });
+
+  it('lists the crossings of every leg in order along the route, and none where the paths do not meet', () => {
+    const legs = routeLegs([{ lat: 0, lon: 0 }, { lat: 10, lon: 10 }, { lat: 0, lon: 20 }], 'orthodromic');
+    const across = findRouteCrossings(legs, { from: { lat: 5, lon: -5 }, to: { lat: 5, lon: 25 }, pathType: 'loxodromic' });
+    expect(across.intersections.map(crossing => crossing.leg)).toEqual([0, 1]);
+    expect(across.intersections[0].alongRoute).toBeLessThan(across.intersections[1].alongRoute);
+
+    const short = findRouteCrossings(legs, { from: { lat: 5, lon: -5 }, to: { lat: 5, lon: 2 }, pathType: 'loxodromic' });
+    expect(short.intersections).toEqual([]);
+    expect(short.path.length).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,154 @@
+import type { Coordinates, CrossingPath, EarthModel, RouteLeg } from '../types';
+import { DEFAULT_EARTH_MODEL, solveGeodesicInverse } from './geodesic';
+import { createPathWalker, densifyPath, DISPLAY_DENSIFY, legPathSpec, pathLength } from './pathGeometry';
+import type { LonLat, PathSpec } from './pathGeometry';
+
+/** Where a second path crosses the route. */
+export interface PathIntersection {
+  coords: Coordinates;
+  /** Index of the leg it crosses. */
+  leg: number;
+  /** Distance from the first waypoint of the route to the crossing, in km. */
+  alongRoute: number;
+  /** Distance from the start of the second path to the crossing, in km. */
+  alongPath: number;
+  /** The angle between the two paths there, in degrees from 0 to 90. */
+  angle: number;
+}
+
+/** A second path and everywhere it crosses the route. */
+export interface RouteCrossings {
+  /** The second path's vertices for drawing, with continuous longitudes. */
+  path: LonLat[];
+  /** In order along the route. */
+  intersections: PathIntersection[];
+}
+
+/** Both paths are cut into chords this long, in km, to find which pairs cross before refining where. */
+const CHORD_LENGTH = 50;
+
+/** A crossing is refined until the two paths are this close there, in km (i.e. 1 mm). */
+const CROSSING_TOLERANCE = 1e-6;
+
+const MAX_ITERATIONS = 50;
+
+/** Distance over which a path's course is measured, in km. */
+const COURSE_STEP = 0.01;
+
+/** Paths meeting at less than this (sine of the angle) are treated as running together, not crossing. */
+const PARALLEL = 1e-9;
+
+type Vector = [number, number, number];
+
+const DEGREE = Math.PI / 180;
+
+const toVector = ([lon, lat]: LonLat): Vector => [
+  Math.cos(lat * DEGREE) * Math.cos(lon * DEGREE),
+  Math.cos(lat * DEGREE) * Math.sin(lon * DEGREE),
+  Math.sin(lat * DEGREE),
+];
+
+const cross = (a: Vector, b: Vector): Vector => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+
+const dot = (a: Vector, b: Vector) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+const toCoordinates = ([lon, lat]: LonLat): Coordinates => ({ lat, lon });
+
+/** Whether two short arcs between unit vectors cross or touch: each one's ends lie on either side of the other's circle. */
+function chordsCross(a1: Vector, a2: Vector, b1: Vector, b2: Vector): boolean {
+  const normalA = cross(a1, a2);
+  const normalB = cross(b1, b2);
+  // The arcs are short, so the far crossing of their two circles is on the other side of the world.
+  return dot(normalA, b1) * dot(normalA, b2) <= 0 && dot(normalB, a1) * dot(normalB, a2) <= 0 && dot(a1, b1) > 0;
+}
+
+/** A path prepared for walking along and for finding which of its chords cross another's. */
+interface WalkedPath {
+  walk: (distance: number) => LonLat;
+  length: number;
+  /** Distances of the chord ends along the path, and the ends themselves as unit vectors. */
+  stations: number[];
+  vectors: Vector[];
+}
+
+function walkedPath(spec: PathSpec, model: EarthModel): WalkedPath {
+  const walk = createPathWalker(spec, model);
+  const length = pathLength(spec, model);
+  const chords = Math.max(1, Math.ceil(length / CHORD_LENGTH));
+  const stations = Array.from({ length: chords + 1 }, (_, i) => i * length / chords);
+  return { walk, length, stations, vectors: stations.map(distance => toVector(walk(distance))) };
+}
+
+/** True course along a path at a distance from its start, measured forward or, at the very end, up to it. */
+function courseAt(path: WalkedPath, distance: number, model: EarthModel): number {
+  const here = toCoordinates(path.walk(distance));
+  return distance + COURSE_STEP <= path.length
+    ? solveGeodesicInverse(here, toCoordinates(path.walk(distance + COURSE_STEP)), model).initialBearing
+    : solveGeodesicInverse(toCoordinates(path.walk(Math.max(0, distance - COURSE_STEP))), here, model).finalBearing;
+}
+
+/**
+ * Refines a crossing from a first guess at how far along each path it is. Seen from the first path's point,
+ * the second path's point lies some way east and north; both points step along their courses to close that gap.
+ * @returns The distances along each path and the angle between them there, or null if the paths do not meet.
+ */
+function refineCrossing(a: WalkedPath, b: WalkedPath, s: number, t: number, model: EarthModel): { s: number; t: number; angle: number } | null {
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const alpha = courseAt(a, s, model) * DEGREE;
+    const beta = courseAt(b, t, model) * DEGREE;
+    const det = Math.sin(beta - alpha);
+    if (Math.abs(det) < PARALLEL) return null;
+    const gap = solveGeodesicInverse(toCoordinates(a.walk(s)), toCoordinates(b.walk(t)), model);
+    if (gap.distance < CROSSING_TOLERANCE) {
+      const angle = Math.abs(Math.asin(Math.max(-1, Math.min(1, det)))) / DEGREE;
+      return { s, t, angle };
+    }
+    const east = gap.distance * Math.sin(gap.initialBearing * DEGREE);
+    const north = gap.distance * Math.cos(gap.initialBearing * DEGREE);
+    s = Math.max(0, Math.min(a.length, s + (north * Math.sin(beta) - east * Math.cos(beta)) / det));
+    t = Math.max(0, Math.min(b.length, t + (north * Math.sin(alpha) - east * Math.cos(alpha)) / det));
+  }
+  return null;
+}
+
+/**
+ * Finds where a second path crosses a route, leg by leg: great circles and rhumb lines either way round,
+ * and the arcs and parallels of composite legs.
+ * @param legs - The legs of the route, in travel order.
+ * @param crossingPath - The second path.
+ * @param model - The earth model; defaults to the 6371 km sphere.
+ * @returns The second path for drawing and the crossings, in order along the route.
+ */
+export function findRouteCrossings(legs: RouteLeg[], crossingPath: CrossingPath, model: EarthModel = DEFAULT_EARTH_MODEL): RouteCrossings {
+  const spec: PathSpec = { ...crossingPath };
+  const other = walkedPath(spec, model);
+  const intersections: PathIntersection[] = [];
+
+  legs.forEach((leg, index) => {
+    const route = walkedPath(legPathSpec(leg), model);
+    if (route.length === 0 || other.length === 0) return;
+    for (let i = 0; i < route.stations.length - 1; i++) {
+      for (let j = 0; j < other.stations.length - 1; j++) {
+        if (!chordsCross(route.vectors[i], route.vectors[i + 1], other.vectors[j], other.vectors[j + 1])) continue;
+        const crossing = refineCrossing(route, other, (route.stations[i] + route.stations[i + 1]) / 2, (other.stations[j] + other.stations[j + 1]) / 2, model);
+        if (!crossing) continue;
+        const coords = toCoordinates(route.walk(crossing.s));
+        // A crossing at a chord end, or at a waypoint shared by two legs, is found more than once.
+        const found = intersections.some(known => solveGeodesicInverse(known.coords, coords, model).distance < 1e3 * CROSSING_TOLERANCE);
+        if (found) continue;
+        intersections.push({
+          coords,
+          leg: index,
+          alongRoute: leg.cumulativeDistance - leg.distance + crossing.s,
+          alongPath: crossing.t,
+          angle: crossing.angle,
+        });
+      }
+    }
+  });
+
+  return {
+    path: densifyPath(spec, DISPLAY_DENSIFY, model),
+    intersections: intersections.sort((p, q) => p.alongRoute - q.alongRoute),
+  };
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { EARTH_MODELS } from './geodesic';
+import { decodePermalink, encodePermalink, permalinkRouteKey, type PermalinkState } from './permalink';
+
+const defaults: PermalinkState = {
+  points: null,
+  legPathTypes: [],
+  pathType: 'orthodromic',
+  compare: false,
+  viewMode: 'globe',
+  mapProjection: 'mercator',
+  earthModel: EARTH_MODELS.sphere,
+  limitingLatitude: 60,
+};
+
+const route: PermalinkState = {
+  points: [
+    { name: 'London', coords: { lat: 51.47, lon: -0.45 } },
+    { name: 'San Francisco, CA', coords: { lat: 37.62, lon: -122.38 } },
+    { name: 'Tokyo', coords: { lat: 35.55, lon: 139.78 } },
+  ],
+  legPathTypes: ['loxodromic', 'composite'],
+  pathType: 'loxodromic',
+  compare: true,
+  viewMode: 'split',
+  mapProjection: 'mercator',
+  earthModel: EARTH_MODELS.wgs84,
+  limitingLatitude: 0,
+  globeView: { rotation: [0.45, -51.47, 12.5], zoom: 1.75 },
+  mapView: { x: -120.5, y: 33.2, k: 2.5 },
+};
+
+describe('permalinks', () => {
+  it('round-trips the route and view', () => {
+    expect(decodePermalink(`#${encodePermalink(route)}`, defaults)).toEqual(route);
+    const custom = { ...defaults, earthModel: { id: 'custom', a: 6378, f: 1 / 300 } } as const;
+    const decoded = decodePermalink(encodePermalink(custom), defaults)!;
+    expect(decoded.earthModel.a).toBe(6378);
+    expect(decoded.earthModel.f).toBeCloseTo(1 / 300, 15);
+  });
+
+  it('holds no permalink without parameters', () => {
+    expect(decodePermalink('', defaults)).toBeNull();
+    expect(decodePermalink('#', defaults)).toBeNull();
+  });
+
+  it('falls back to the defaults for invalid fields', () => {
+    const decoded = decodePermalink('#p=91,0,Nowhere&p=10,20&view=sideways&model=custom&a=-1&rf=298&lim=90&rot=1,2&mz=0,0,0', defaults)!;
+    expect(decoded).toEqual({ ...defaults, globeView: undefined, mapView: undefined });
+  });
+
+  it('keeps the default model for an ellipsoid the solver cannot handle', () => {
+    for (const custom of ['a=Infinity&rf=298', 'a=6378&rf=1.5', 'a=6378&rf=49', 'a=6378&rf=-300', 'a=6378']) {
+      expect(decodePermalink(`#model=custom&${custom}`, defaults)!.earthModel, custom).toBe(defaults.earthModel);
+    }
+    expect(decodePermalink('#model=custom&a=6378&rf=0', defaults)!.earthModel).toEqual({ id: 'custom', a: 6378, f: 0 });
+  });
+
+  it('ignores names inherited from the object prototype', () => {
+    for (const key of ['constructor', 'toString', '__proto__', 'hasOwnProperty']) {
+      const decoded = decodePermalink(`#proj=${key}&model=${key}`, defaults)!;
+      expect(decoded.mapProjection).toBe(defaults.mapProjection);
+      expect(decoded.earthModel).toBe(defaults.earthModel);
+    }
+  });
+
+  it('keys routes by their waypoints and leg types only', () => {
+    const hash = encodePermalink(route);
+    expect(permalinkRouteKey(hash)).toBe(permalinkRouteKey(encodePermalink({ ...route, viewMode: 'map', globeView: undefined })));
+    expect(permalinkRouteKey(hash)).not.toBe(permalinkRouteKey(encodePermalink({ ...route, legPathTypes: ['orthodromic', 'composite'] })));
+  });
+});
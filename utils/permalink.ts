@@ -0,0 +1,144 @@
+import type { EarthModel, GlobeView, LocationPoint, MapProjectionId, MapView, PathType, ViewMode } from '../types';
+import { createCustomEarthModel, EARTH_MODELS } from './geodesic';
+import { MAP_PROJECTIONS } from './mapProjections';
+
+/**
+ * Everything needed to reproduce a view of the app from its URL. Waypoints carry
+ * their coordinates so a shared link never needs to be geocoded again.
+ */
+export interface PermalinkState {
+  points: LocationPoint[] | null;
+  legPathTypes: PathType[];
+  pathType: PathType;
+  /** Whether the great circle and the rhumb line are drawn together for comparison. */
+  compare: boolean;
+  viewMode: ViewMode;
+  mapProjection: MapProjectionId;
+  earthModel: EarthModel;
+  limitingLatitude: number;
+  globeView?: GlobeView;
+  mapView?: MapView;
+}
+
+const PATH_TYPE_CODES: Record<PathType, string> = {
+  orthodromic: 'g',
+  loxodromic: 'r',
+  composite: 'c',
+};
+
+const round = (value: number, decimals: number) => Number(value.toFixed(decimals)).toString();
+
+const parseNumbers = (value: string | null, count: number): number[] | null => {
+  if (!value) return null;
+  const numbers = value.split(',').map(Number);
+  return numbers.length === count && numbers.every(Number.isFinite) ? numbers : null;
+};
+
+/**
+ * Serializes the app state into a URL hash.
+ * @param state - The state to encode.
+ * @returns The hash, without the leading '#'.
+ */
+export function encodePermalink(state: PermalinkState): string {
+  const params = new URLSearchParams();
+  state.points?.forEach(point => {
+    params.append('p', `${round(point.coords.lat, 5)},${round(point.coords.lon, 5)},${point.name}`);
+  });
+  if (state.points && state.points.length > 1) {
+    params.set('legs', state.legPathTypes.map(type => PATH_TYPE_CODES[type]).join(''));
+  }
+  params.set('type', PATH_TYPE_CODES[state.pathType]);
+  if (state.compare) params.set('cmp', '1');
+  params.set('view', state.viewMode);
+  params.set('proj', state.mapProjection);
+  params.set('model', state.earthModel.id);
+  if (state.earthModel.id === 'custom') {
+    params.set('a', String(state.earthModel.a));
+    params.set('rf', state.earthModel.f === 0 ? '0' : String(1 / state.earthModel.f));
+  }
+  params.set('lim', String(state.limitingLatitude));
+  if (state.globeView) {
+    params.set('rot', state.globeView.rotation.map(angle => round(angle, 2)).join(','));
+    params.set('gz', round(state.globeView.zoom, 3));
+  }
+  if (state.mapView) {
+    params.set('mz', [round(state.mapView.x, 1), round(state.mapView.y, 1), round(state.mapView.k, 3)].join(','));
+  }
+  return params.toString();
+}
+
+/**
+ * Restores app state from a URL hash. Missing or invalid fields fall back to the defaults.
+ * @param hash - The URL hash, with or without the leading '#'.
+ * @param defaults - The state to use for anything the hash does not specify.
+ * @returns The decoded state, or null if the hash holds no permalink.
+ */
+export function decodePermalink(hash: string, defaults: PermalinkState): PermalinkState | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  if (![...params.keys()].length) return null;
+
+  const state: PermalinkState = { ...defaults, globeView: undefined, mapView: undefined };
+  const decodeType = (code: string | undefined) =>
+    (Object.keys(PATH_TYPE_CODES) as PathType[]).find(type => PATH_TYPE_CODES[type] === code);
+
+  state.pathType = decodeType(params.get('type') ?? undefined) ?? defaults.pathType;
+  state.compare = params.get('cmp') === '1';
+
+  const points = params.getAll('p').map((value): LocationPoint | null => {
+    const [latText, lonText, ...name] = value.split(',');
+    const lat = Number(latText);
+    const lon = Number(lonText);
+    if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+    return { name: name.join(',') || `${latText}, ${lonText}`, coords: { lat, lon } };
+  });
+  if (points.length > 0 && points.every(point => point !== null)) {
+    state.points = points as LocationPoint[];
+    const legs = [...(params.get('legs') ?? '')];
+    state.legPathTypes = state.points.slice(1).map((_, i) => decodeType(legs[i]) ?? state.pathType);
+  } else {
+    state.points = null;
+    state.legPathTypes = [];
+  }
+
+  const view = params.get('view');
+  if (view === 'globe' || view === 'map' || view === 'split') state.viewMode = view;
+  const projection = params.get('proj');
+  if (projection && Object.hasOwn(MAP_PROJECTIONS, projection)) state.mapProjection = projection as MapProjectionId;
+
+  const model = params.get('model');
+  if (model === 'custom') {
+    try {
+      state.earthModel = createCustomEarthModel(Number(params.get('a') ?? NaN), Number(params.get('rf') ?? NaN));
+    } catch {
+      // An ellipsoid the solver cannot handle keeps the default model.
+    }
+  } else if (model && Object.hasOwn(EARTH_MODELS, model)) {
+    state.earthModel = EARTH_MODELS[model as keyof typeof EARTH_MODELS];
+  }
+
+  const limit = Number(params.get('lim'));
+  if (params.has('lim') && limit >= 0 && limit < 90) state.limitingLatitude = limit;
+
+  const rotation = parseNumbers(params.get('rot'), 3);
+  const zoom = Number(params.get('gz') ?? 1);
+  if (rotation && zoom > 0) {
+    state.globeView = { rotation: rotation as [number, number, number], zoom };
+  }
+  const mapView = parseNumbers(params.get('mz'), 3);
+  if (mapView && mapView[2] > 0) {
+    state.mapView = { x: mapView[0], y: mapView[1], k: mapView[2] };
+  }
+
+  return state;
+}
+
+/**
+ * Extracts the part of a permalink that identifies the route, ignoring view details.
+ * Changing it adds a browser history entry; anything else replaces the current one.
+ * @param hash - The URL hash, with or without the leading '#'.
+ * @returns A string that is equal for hashes describing the same route.
+ */
+export function permalinkRouteKey(hash: string): string {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  return [...params.getAll('p'), params.get('legs') ?? ''].join('|');
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PREFERENCES, loadPreferences, savePreferences } from './preferences';
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+  };
+};
+
+describe('preferences', () => {
+  it('round-trips through storage', () => {
+    const storage = memoryStorage();
+    expect(loadPreferences(storage)).toEqual(DEFAULT_PREFERENCES);
+    const preferences = { distanceUnit: 'nm', bearingReference: 'magnetic', coordinateFormat: 'ddm' } as const;
+    savePreferences(preferences, storage);
+    expect(loadPreferences(storage)).toEqual(preferences);
+  });
+
+  it('falls back to the defaults for anything unreadable', () => {
+    const storage = memoryStorage();
+    storage.setItem('path-visualizer.preferences', JSON.stringify({ distanceUnit: 'furlongs', coordinateFormat: 'dms' }));
+    expect(loadPreferences(storage)).toEqual({ ...DEFAULT_PREFERENCES, coordinateFormat: 'dms' });
+    storage.setItem('path-visualizer.preferences', '{not json');
+    expect(loadPreferences(storage)).toEqual(DEFAULT_PREFERENCES);
+
+    const blocked = {
+      getItem: () => { throw new Error('SecurityError'); },
+      setItem: () => { throw new Error('QuotaExceededError'); },
+    };
+    expect(loadPreferences(blocked)).toEqual(DEFAULT_PREFERENCES);
+    expect(() => savePreferences(DEFAULT_PREFERENCES, blocked)).not.toThrow();
+  });
+});
@@ -0,0 +1,49 @@
+import type { BearingReference, CoordinateFormat, DisplayPreferences, DistanceUnit } from '../types';
+
+const STORAGE_KEY = 'path-visualizer.preferences';
+
+const DISTANCE_UNITS: DistanceUnit[] = ['km', 'nm', 'mi'];
+const BEARING_REFERENCES: BearingReference[] = ['true', 'magnetic'];
+const COORDINATE_FORMATS: CoordinateFormat[] = ['decimal', 'dms', 'ddm'];
+
+export const DEFAULT_PREFERENCES: DisplayPreferences = {
+  distanceUnit: 'km',
+  bearingReference: 'true',
+  coordinateFormat: 'decimal',
+};
+
+const pick = <T extends string>(value: unknown, allowed: T[], fallback: T): T =>
+  (allowed as unknown[]).includes(value) ? (value as T) : fallback;
+
+/**
+ * Reads the display preferences saved by an earlier visit.
+ * @param storage - Where they are kept; defaults to the browser's localStorage.
+ * @returns The saved preferences, with the default for any that are missing or not recognised;
+ *   all defaults if storage is unavailable, e.g. blocked by the browser.
+ */
+export function loadPreferences(storage?: Pick<Storage, 'getItem'>): DisplayPreferences {
+  try {
+    const saved = JSON.parse((storage ?? globalThis.localStorage).getItem(STORAGE_KEY) ?? '{}');
+    return {
+      distanceUnit: pick(saved?.distanceUnit, DISTANCE_UNITS, DEFAULT_PREFERENCES.distanceUnit),
+      bearingReference: pick(saved?.bearingReference, BEARING_REFERENCES, DEFAULT_PREFERENCES.bearingReference),
+      coordinateFormat: pick(saved?.coordinateFormat, COORDINATE_FORMATS, DEFAULT_PREFERENCES.coordinateFormat),
+    };
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+/**
+ * Saves the display preferences for the next visit. Storage that is unavailable or full is ignored;
+ * the preferences then last until the page is closed.
+ * @param preferences - The preferences to keep.
+ * @param storage - Where to keep them; defaults to the browser's localStorage.
+ */
+export function savePreferences(preferences: DisplayPreferences, storage?: Pick<Storage, 'setItem'>): void {
+  try {
+    (storage ?? globalThis.localStorage).setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch {
+    // Nothing to do: the preferences still apply for this visit.
+  }
+}
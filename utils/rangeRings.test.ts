@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import * as d3 from 'd3';
+import { calculateOrthodromicDistance } from './geo';
+import { EARTH_MODELS } from './geodesic';
+import { calculateRangeOverlay, geodesicCircle } from './rangeRings';
+
+const london = { lat: 51.47, lon: -0.45 };
+
+describe('geodesicCircle', () => {
+  it('keeps every point at the radius from the centre', () => {
+    for (const model of [EARTH_MODELS.sphere, EARTH_MODELS.wgs84]) {
+      for (const [lon, lat] of geodesicCircle(london, 2500, model)) {
+        expect(calculateOrthodromicDistance(london, { lat, lon }, model)).toBeCloseTo(2500, 6);
+      }
+    }
+  });
+
+  it('winds so that d3 fills the inside, also around a pole', () => {
+    for (const centre of [london, { lat: 80, lon: 170 }, { lat: -89, lon: 0 }]) {
+      const ring = geodesicCircle(centre, 3000);
+      const cap = 2 * Math.PI * (1 - Math.cos(3000 / 6371));
+      expect(d3.geoArea({ type: 'Polygon', coordinates: [ring] })).toBeCloseTo(cap, 3);
+    }
+  });
+});
+
+describe('calculateRangeOverlay', () => {
+  const points = [london, { lat: 40.64, lon: -73.78 }, { lat: 48.35, lon: 11.79 }];
+
+  it('spaces the rings evenly around the chosen waypoint', () => {
+    const overlay = calculateRangeOverlay(points, { centre: 2, radius: 500, count: 3, maxRange: false })!;
+    expect(overlay.centre).toEqual([11.79, 48.35]);
+    expect(overlay.rings.map(ring => ring.radius)).toEqual([500, 1000, 1500]);
+    expect(overlay.reach).toBeNull();
+  });
+
+  it('stops before the rings would close in on the antipode', () => {
+    const overlay = calculateRangeOverlay(points, { centre: 0, radius: 8000, count: 5, maxRange: false })!;
+    expect(overlay.rings.map(ring => ring.radius)).toEqual([8000, 16000]);
+  });
+
+  it('marks which waypoints are within range of the start', () => {
+    const overlay = calculateRangeOverlay(points, { centre: 2, radius: 1000, count: 3, maxRange: true })!;
+    expect(overlay.centre).toEqual([london.lon, london.lat]);
+    expect(overlay.rings).toHaveLength(1);
+    expect(overlay.reach!.map(point => point.inRange)).toEqual([true, false, true]);
+    expect(overlay.reach![1].distance).toBeCloseTo(calculateOrthodromicDistance(london, points[1]), 9);
+  });
+});
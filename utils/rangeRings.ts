@@ -0,0 +1,65 @@
+import type { Polygon } from 'geojson';
+import type { Coordinates, EarthModel, RangeRings } from '../types';
+import { calculateOrthodromicDistance } from './geo';
+import { DEFAULT_EARTH_MODEL, solveGeodesicDirect } from './geodesic';
+import type { LonLat } from './pathGeometry';
+
+/** Points taken around each circle: one per degree of azimuth. */
+const CIRCLE_SAMPLES = 360;
+
+/** Rings drawn at most, however small the spacing. */
+export const MAX_RINGS = 20;
+
+/** The overlay drawn for a set of range rings. */
+export interface RangeOverlay {
+  centre: LonLat;
+  /** Innermost first. Each ring's outline runs clockwise from due north of the centre, so it also bounds its area. */
+  rings: { radius: number; outline: LonLat[]; area: Polygon }[];
+  /** In max range mode, every waypoint's distance from the start and whether it is within range; otherwise null. */
+  reach: { coords: LonLat; distance: number; inRange: boolean }[] | null;
+}
+
+/**
+ * Traces the points at a given geodesic distance from a centre: a true circle on the ground, however
+ * a map projection distorts it.
+ * @param centre - The centre of the circle.
+ * @param radius - The radius in kilometers, less than half way round the earth.
+ * @param model - The earth model; defaults to the 6371 km sphere.
+ * @returns The closed ring, clockwise from due north of the centre.
+ */
+export function geodesicCircle(centre: Coordinates, radius: number, model: EarthModel = DEFAULT_EARTH_MODEL): LonLat[] {
+  return Array.from({ length: CIRCLE_SAMPLES + 1 }, (_, i) => {
+    const { point } = solveGeodesicDirect(centre, (i % CIRCLE_SAMPLES) * 360 / CIRCLE_SAMPLES, radius, model);
+    return [point.lon, point.lat];
+  });
+}
+
+/**
+ * Lays out range rings around a waypoint, or in max range mode a single ring around the start.
+ * @param points - The waypoints, in travel order.
+ * @param settings - Where the rings go and how far apart they are.
+ * @param model - The earth model; defaults to the 6371 km sphere.
+ * @returns The rings and, in max range mode, which waypoints are in range; null if there is nothing to draw.
+ */
+export function calculateRangeOverlay(points: Coordinates[], settings: RangeRings, model: EarthModel = DEFAULT_EARTH_MODEL): RangeOverlay | null {
+  if (points.length === 0 || !(settings.radius > 0)) return null;
+  const centre = settings.maxRange ? points[0] : points[Math.min(settings.centre, points.length - 1)];
+  const count = settings.maxRange ? 1 : Math.max(1, Math.min(MAX_RINGS, Math.floor(settings.count)));
+  // Beyond half a meridian a circle closes back in on the antipode, which is no longer a range.
+  const halfMeridian = Math.PI * model.a * (1 - model.f);
+
+  const rings: RangeOverlay['rings'] = [];
+  for (let i = 1; i <= count && i * settings.radius < halfMeridian; i++) {
+    const outline = geodesicCircle(centre, i * settings.radius, model);
+    rings.push({ radius: i * settings.radius, outline, area: { type: 'Polygon', coordinates: [outline] } });
+  }
+
+  const reach = settings.maxRange
+    ? points.map(point => {
+      const distance = calculateOrthodromicDistance(centre, point, model);
+      return { coords: [point.lon, point.lat] as LonLat, distance, inRange: distance <= settings.radius };
+    })
+    : null;
+
+  return { centre: [centre.lon, centre.lat], rings, reach };
+}
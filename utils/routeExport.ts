@@ -0,0 +1,224 @@
+import type { Coordinates, DisplayPreferences, EarthModel, EarthModelId, PathType, RouteLeg } from '../types';
+import { formatBearing, formatDistance } from './displayFormat';
+import { normalizeLongitude } from './geo';
+import { solveGeodesicInverse } from './geodesic';
+import { densifyPath, legPathSpec, splitPath } from './pathGeometry';
+import type { DensifyOptions, LonLat } from './pathGeometry';
+import { DEFAULT_PREFERENCES } from './preferences';
+
+export type ExportFormat = 'geojson' | 'gpx' | 'kml';
+
+export interface ExportedFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+const FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  geojson: { extension: 'geojson', mimeType: 'application/geo+json' },
+  gpx: { extension: 'gpx', mimeType: 'application/gpx+xml' },
+  kml: { extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+};
+
+const PATH_TYPE_NAMES: Record<PathType, string> = {
+  orthodromic: 'great circle',
+  loxodromic: 'rhumb line',
+  composite: 'composite sailing',
+};
+
+const EARTH_MODEL_NAMES: Record<EarthModelId, string> = {
+  sphere: 'spherical',
+  wgs84: 'WGS-84',
+  grs80: 'GRS-80',
+  custom: 'custom ellipsoid',
+};
+
+const CREATOR = 'Orthodromic & Loxodromic Path Visualizer';
+
+/** Initial and final true course along the leg as actually sailed. */
+function legCourses(leg: RouteLeg, model: EarthModel): [number, number] {
+  if (leg.pathType === 'loxodromic') {
+    return [leg.course.rhumbCourse, leg.course.rhumbCourse];
+  }
+  if (leg.pathType === 'composite' && leg.composite) {
+    const segments = leg.composite.segments;
+    const first = segments[0];
+    const last = segments[segments.length - 1];
+    const parallelCourse = (from: Coordinates, to: Coordinates) => (normalizeLongitude(to.lon - from.lon) >= 0 ? 90 : 270);
+    return [
+      first.kind === 'parallel' ? parallelCourse(first.from, first.to) : solveGeodesicInverse(first.from, first.to, model).initialBearing,
+      last.kind === 'parallel' ? parallelCourse(last.from, last.to) : solveGeodesicInverse(last.from, last.to, model).finalBearing,
+    ];
+  }
+  return [leg.course.initialCourse, leg.course.finalCourse];
+}
+
+interface LegMetadata {
+  name: string;
+  from: string;
+  to: string;
+  path_type: PathType;
+  distance_km: number;
+  cumulative_distance_km: number;
+  initial_course_deg: number;
+  final_course_deg: number;
+}
+
+function legMetadata(leg: RouteLeg, model: EarthModel): LegMetadata {
+  const [initial, final] = legCourses(leg, model);
+  return {
+    name: `${leg.from.name} → ${leg.to.name}`,
+    from: leg.from.name,
+    to: leg.to.name,
+    path_type: leg.pathType,
+    distance_km: Number(leg.distance.toFixed(3)),
+    cumulative_distance_km: Number(leg.cumulativeDistance.toFixed(3)),
+    initial_course_deg: Number(initial.toFixed(2)),
+    final_course_deg: Number(final.toFixed(2)),
+  };
+}
+
+/** A line of text for a leg, in the preferred units; the metadata itself stays in kilometers and true degrees. */
+function describeLeg(leg: RouteLeg, meta: LegMetadata, preferences: DisplayPreferences): string {
+  const initial = formatBearing(meta.initial_course_deg, leg.from.coords, preferences);
+  const final = formatBearing(meta.final_course_deg, leg.to.coords, preferences);
+  return `${PATH_TYPE_NAMES[meta.path_type]}, ${formatDistance(leg.distance, preferences, 1)}, course ${initial} → ${final}`;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[c]!));
+}
+
+const formatLat = (lat: number) => lat.toFixed(6);
+const formatLon = (lon: number) => normalizeLongitude(lon).toFixed(6);
+
+function toGeoJson(legs: RouteLeg[], lines: LonLat[][], model: EarthModel): string {
+  const waypoints = [legs[0].from, ...legs.map(leg => leg.to)];
+  const features = [
+    ...legs.map((leg, i) => {
+      const parts = splitPath(lines[i])
+        .map(part => part.map(([lon, lat]) => [Number(lon.toFixed(6)), Number(lat.toFixed(6))]));
+      return {
+        type: 'Feature',
+        properties: { ...legMetadata(leg, model), leg: i + 1 },
+        geometry: parts.length === 1
+          ? { type: 'LineString', coordinates: parts[0] }
+          : { type: 'MultiLineString', coordinates: parts },
+      };
+    }),
+    ...waypoints.map((point, i) => ({
+      type: 'Feature',
+      properties: { name: point.name, waypoint: i + 1, role: i === 0 ? 'start' : i === waypoints.length - 1 ? 'end' : 'via' },
+      geometry: { type: 'Point', coordinates: [point.coords.lon, point.coords.lat] },
+    })),
+  ];
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+}
+
+function toGpx(legs: RouteLeg[], lines: LonLat[][], model: EarthModel, title: string, summary: string, preferences: DisplayPreferences): string {
+  const waypoints = [legs[0].from, ...legs.map(leg => leg.to)];
+  const wpts = waypoints.map(point =>
+    `  <wpt lat="${formatLat(point.coords.lat)}" lon="${formatLon(point.coords.lon)}"><name>${escapeXml(point.name)}</name></wpt>`);
+
+  const legDescriptions = legs.map((leg, i) => `Leg ${i + 1}: ${describeLeg(leg, legMetadata(leg, model), preferences)}`);
+  const rtepts: string[] = [];
+  legs.forEach((leg, i) => {
+    // Each leg's first vertex is the previous leg's last, so only the first leg keeps it.
+    lines[i].forEach(([lon, lat], j) => {
+      if (i > 0 && j === 0) return;
+      const isLast = j === lines[i].length - 1;
+      const point = i === 0 && j === 0 ? leg.from : isLast ? leg.to : null;
+      // Waypoints that start a leg describe it.
+      const startsLeg = j === 0 ? i : isLast && i < legs.length - 1 ? i + 1 : -1;
+      const name = point ? `<name>${escapeXml(point.name)}</name>` : '';
+      const desc = startsLeg >= 0 ? `<desc>${escapeXml(legDescriptions[startsLeg])}</desc>` : '';
+      rtepts.push(`    <rtept lat="${formatLat(lat)}" lon="${formatLon(lon)}">${name}${desc}</rtept>`);
+    });
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${escapeXml(CREATOR)}" xmlns="http://www.topografix.com/GPX/1/1">`,
+    `  <metadata><name>${escapeXml(title)}</name><desc>${escapeXml(summary)}</desc></metadata>`,
+    ...wpts,
+    '  <rte>',
+    `    <name>${escapeXml(title)}</name>`,
+    `    <desc>${escapeXml(summary)}</desc>`,
+    ...rtepts,
+    '  </rte>',
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+function toKml(legs: RouteLeg[], lines: LonLat[][], model: EarthModel, title: string, summary: string, preferences: DisplayPreferences): string {
+  const waypoints = [legs[0].from, ...legs.map(leg => leg.to)];
+  const pointPlacemarks = waypoints.map(point => [
+    '    <Placemark>',
+    `      <name>${escapeXml(point.name)}</name>`,
+    `      <Point><coordinates>${formatLon(point.coords.lon)},${formatLat(point.coords.lat)}</coordinates></Point>`,
+    '    </Placemark>',
+  ].join('\n'));
+  const legPlacemarks = legs.map((leg, i) => {
+    const meta = legMetadata(leg, model);
+    const data = Object.entries(meta)
+      .map(([key, value]) => `        <Data name="${key}"><value>${escapeXml(String(value))}</value></Data>`);
+    const coordinates = lines[i].map(([lon, lat]) => `${formatLon(lon)},${formatLat(lat)}`).join(' ');
+    return [
+      '    <Placemark>',
+      `      <name>${escapeXml(meta.name)}</name>`,
+      `      <description>${escapeXml(describeLeg(leg, meta, preferences))}</description>`,
+      '      <ExtendedData>',
+      ...data,
+      '      </ExtendedData>',
+      `      <LineString><tessellate>1</tessellate><coordinates>${coordinates}</coordinates></LineString>`,
+      '    </Placemark>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(title)}</name>`,
+    `    <description>${escapeXml(summary)}</description>`,
+    ...pointPlacemarks,
+    ...legPlacemarks,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+/** Turns a place name into a lowercase ASCII fragment for file names. */
+export const slugify = (text: string) => text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'point';
+
+/**
+ * Exports a route as a GeoJSON, GPX or KML file.
+ * @param legs - The legs of the route, in travel order.
+ * @param format - The file format to produce.
+ * @param densify - How finely to sample each leg.
+ * @param model - The earth model the legs were computed on.
+ * @param preferences - Units for the descriptions; coordinates and metadata are always decimal degrees and kilometers.
+ * @returns The file name, MIME type and contents.
+ */
+export function exportRoute(legs: RouteLeg[], format: ExportFormat, densify: DensifyOptions, model: EarthModel, preferences: DisplayPreferences = DEFAULT_PREFERENCES): ExportedFile {
+  if (legs.length === 0) {
+    throw new Error('There is no route to export.');
+  }
+  const lines = legs.map(leg => densifyPath(legPathSpec(leg), densify, model));
+  const first = legs[0].from;
+  const last = legs[legs.length - 1].to;
+  const title = `${first.name} → ${last.name}`;
+  const total = legs[legs.length - 1].cumulativeDistance;
+  const summary = `${legs.length} leg${legs.length === 1 ? '' : 's'}, ${formatDistance(total, preferences, 1)} on the ${EARTH_MODEL_NAMES[model.id]} earth model`;
+
+  const content = format === 'geojson'
+    ? toGeoJson(legs, lines, model)
+    : format === 'gpx'
+      ? toGpx(legs, lines, model, title, summary, preferences)
+      : toKml(legs, lines, model, title, summary, preferences);
+
+  const { extension, mimeType } = FILE_TYPES[format];
+  return { filename: `route-${slugify(first.name)}-${slugify(last.name)}.${extension}`, mimeType, content };
+}
@@ -0,0 +1,79 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { calculateRouteLegs } from './geo';
+import { EARTH_MODELS } from './geodesic';
+import { exportRoute } from './routeExport';
+import { MAX_IMPORTED_WAYPOINTS, parseRouteFile } from './routeImport';
+
+const route = [
+  { name: 'Tokyo', coords: { lat: 35.55, lon: 139.78 } },
+  { name: 'San Francisco, CA', coords: { lat: 37.62, lon: -122.38 } },
+  { name: 'Zürich <"Kloten"> & Co', coords: { lat: 47.46, lon: 8.55 } },
+];
+
+describe('parseRouteFile', () => {
+  it('reads back the waypoints and leg types of its own exports', () => {
+    const legs = calculateRouteLegs(route, ['orthodromic', 'composite'], EARTH_MODELS.wgs84);
+    for (const format of ['geojson', 'gpx', 'kml'] as const) {
+      const file = exportRoute(legs, format, { mode: 'spacing', spacing: 200 }, EARTH_MODELS.wgs84);
+      const imported = parseRouteFile(file.filename, file.content);
+      expect(imported.format).toBe(format);
+      expect(imported.waypoints.map(point => point.name)).toEqual(route.map(point => point.name));
+      imported.waypoints.forEach((point, i) => {
+        expect(point.coords.lat).toBeCloseTo(route[i].coords.lat, 6);
+        expect(point.coords.lon).toBeCloseTo(route[i].coords.lon, 6);
+        expect(point.source).toBe('import');
+      });
+      // GPX has nowhere to keep the path types.
+      expect(imported.legPathTypes).toEqual(format === 'gpx' ? null : ['orthodromic', 'composite']);
+    }
+  });
+
+  it('picks the format from the contents when the extension does not say', () => {
+    const legs = calculateRouteLegs(route.slice(0, 2), ['loxodromic']);
+    for (const format of ['geojson', 'gpx', 'kml'] as const) {
+      const file = exportRoute(legs, format, { mode: 'spacing', spacing: 500 }, EARTH_MODELS.sphere);
+      expect(parseRouteFile('route.txt', file.content).format).toBe(format);
+    }
+  });
+
+  it('falls back to the vertices of a line, naming unnamed points by their coordinates', () => {
+    const geoJson = JSON.stringify({ type: 'LineString', coordinates: [[-0.45, 51.47], [-73.78, 40.64]] });
+    expect(parseRouteFile('line.geojson', geoJson).waypoints.map(point => point.name)).toEqual(['51.47000, -0.45000', '40.64000, -73.78000']);
+
+    const kml = '<kml xmlns="http://www.opengis.net/kml/2.2"><Placemark><LineString><coordinates>-0.45,51.47 -73.78,40.64,10</coordinates></LineString></Placemark></kml>';
+    expect(parseRouteFile('line.kml', kml).waypoints.map(point => point.coords)).toEqual([{ lat: 51.47, lon: -0.45 }, { lat: 40.64, lon: -73.78 }]);
+  });
+
+  it('takes only the ends of a recorded GPX track', () => {
+    const gpx = `<gpx xmlns="http://www.topografix.com/GPX/1/1"><trk><name>Ride</name><trkseg>
+      <trkpt lat="51.47" lon="-0.45"/><trkpt lat="51.5" lon="-0.3"/><trkpt lat="51.52" lon="-0.12"><name>Home</name></trkpt>
+    </trkseg></trk></gpx>`;
+    const { waypoints, legPathTypes } = parseRouteFile('ride.gpx', gpx);
+    expect(waypoints.map(point => point.name)).toEqual(['Ride start', 'Home']);
+    expect(legPathTypes).toBeNull();
+  });
+
+  it('explains why a file cannot be imported', () => {
+    const points = (count: number) => JSON.stringify({
+      type: 'MultiPoint',
+      coordinates: Array.from({ length: count }, (_, i) => [i % 180, 0]),
+    });
+    const cases: [string, string, RegExp][] = [
+      ['route.csv', 'lat,lon', /Unrecognized file type/],
+      ['route.geojson', '{"type":', /not valid JSON/],
+      ['route.geojson', '[1, 2]', /no features/],
+      ['route.geojson', '{"type":"FeatureCollection","features":[{"type":"Feature","geometry":null}]}', /no points or lines/],
+      ['route.geojson', '{"type":"Point","coordinates":"51.47,-0.45"}', /not a \[longitude, latitude\] pair/],
+      ['route.geojson', points(1), /only one waypoint/],
+      ['route.geojson', points(MAX_IMPORTED_WAYPOINTS + 1), new RegExp(`at most ${MAX_IMPORTED_WAYPOINTS}`)],
+      ['route.geojson', '{"type":"MultiPoint","coordinates":[[0,0],[200,95]]}', /Waypoint 2 has invalid coordinates \(95, 200\)/],
+      ['route.gpx', '<gpx><rte>', /not well-formed XML/],
+      ['route.gpx', '<gpx xmlns="http://www.topografix.com/GPX/1/1"/>', /no route, waypoints or track/],
+      ['route.kml', '<kml xmlns="http://www.opengis.net/kml/2.2"><Document/></kml>', /no Point or LineString/],
+    ];
+    for (const [filename, text, message] of cases) {
+      expect(() => parseRouteFile(filename, text), text.slice(0, 40)).toThrow(message);
+    }
+  });
+});
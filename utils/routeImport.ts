@@ -0,0 +1,224 @@
+import type { LocationPoint, PathType } from '../types';
+import { formatDecimalDegrees } from './coordinateParser';
+import type { ExportFormat } from './routeExport';
+
+export interface ImportedRoute {
+  format: ExportFormat;
+  waypoints: LocationPoint[];
+  /** Per-leg path types, when the file records them (as our own exports do). */
+  legPathTypes: PathType[] | null;
+}
+
+/** Largest number of waypoints accepted from a file; denser lines are tracks, not routes. */
+export const MAX_IMPORTED_WAYPOINTS = 200;
+
+const PATH_TYPES: PathType[] = ['orthodromic', 'loxodromic', 'composite'];
+
+interface RawWaypoint {
+  lon: number;
+  lat: number;
+  name?: string;
+}
+
+/**
+ * Parses a GeoJSON, GPX or KML file into route waypoints.
+ * Named points (GeoJSON Point features, GPX route points or waypoints, KML Point placemarks)
+ * are preferred; otherwise the vertices of the first line are used.
+ * @param filename - The file name, used to pick the format by extension.
+ * @param text - The file contents.
+ * @returns The waypoints in order, with names where the file provides them.
+ * @throws Error with a user-facing message if the file cannot be read as a route.
+ */
+export function parseRouteFile(filename: string, text: string): ImportedRoute {
+  const format = detectFormat(filename, text);
+  const { waypoints, legPathTypes } = format === 'geojson'
+    ? parseGeoJson(text)
+    : format === 'gpx'
+      ? { waypoints: parseGpx(parseXml(text)), legPathTypes: null }
+      : parseKml(parseXml(text));
+
+  if (waypoints.length < 2) {
+    throw new Error(`Found ${waypoints.length === 0 ? 'no' : 'only one'} waypoint; a route needs at least two.`);
+  }
+  if (waypoints.length > MAX_IMPORTED_WAYPOINTS) {
+    throw new Error(`Found ${waypoints.length} waypoints; at most ${MAX_IMPORTED_WAYPOINTS} can be imported.`);
+  }
+  waypoints.forEach((point, i) => {
+    if (!Number.isFinite(point.lat) || !Number.isFinite(point.lon) || Math.abs(point.lat) > 90 || Math.abs(point.lon) > 180) {
+      throw new Error(`Waypoint ${i + 1}${point.name ? ` ("${point.name}")` : ''} has invalid coordinates (${point.lat}, ${point.lon}).`);
+    }
+  });
+
+  return {
+    format,
+    waypoints: waypoints.map(point => {
+      const coords = { lat: point.lat, lon: point.lon };
+      return { name: point.name?.trim() || formatDecimalDegrees(coords), coords, source: 'import' };
+    }),
+    legPathTypes: legPathTypes && legPathTypes.length === waypoints.length - 1 ? legPathTypes : null,
+  };
+}
+
+function detectFormat(filename: string, text: string): ExportFormat {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'geojson' || extension === 'json') return 'geojson';
+  if (extension === 'gpx') return 'gpx';
+  if (extension === 'kml') return 'kml';
+
+  const start = text.trimStart();
+  if (start.startsWith('{')) return 'geojson';
+  if (/<gpx[\s>]/.test(start)) return 'gpx';
+  if (/<kml[\s>]/.test(start)) return 'kml';
+  throw new Error('Unrecognized file type; use GeoJSON (.geojson), GPX (.gpx) or KML (.kml).');
+}
+
+const toPathType = (value: unknown): PathType | null =>
+  PATH_TYPES.includes(value as PathType) ? value as PathType : null;
+
+// --- GeoJSON ---------------------------------------------------------------
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function parseGeoJson(text: string): { waypoints: RawWaypoint[]; legPathTypes: PathType[] | null } {
+  let root: unknown;
+  try {
+    root = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const features: unknown[] = !isObject(root) ? []
+    : root.type === 'FeatureCollection' ? (Array.isArray(root.features) ? root.features : [])
+    : root.type === 'Feature' ? [root]
+    : typeof root.type === 'string' ? [{ type: 'Feature', geometry: root, properties: {} }]
+    : [];
+  if (features.length === 0) {
+    throw new Error('The GeoJSON has no features.');
+  }
+
+  const points: RawWaypoint[] = [];
+  const lines: { coordinates: unknown[]; pathType: PathType | null }[] = [];
+  const collect = (geometry: unknown, properties: JsonObject) => {
+    if (!isObject(geometry)) return;
+    const name = properties.name ?? properties.title;
+    const coordinates: unknown[] = Array.isArray(geometry.coordinates) ? geometry.coordinates : [];
+    switch (geometry.type) {
+      case 'Point':
+        points.push(toWaypoint(geometry.coordinates, name));
+        break;
+      case 'MultiPoint':
+        coordinates.forEach(c => points.push(toWaypoint(c, name)));
+        break;
+      case 'LineString':
+        lines.push({ coordinates, pathType: toPathType(properties.path_type) });
+        break;
+      case 'MultiLineString':
+        // Parts split at the antimeridian belong to one line.
+        lines.push({ coordinates: coordinates.flat(), pathType: toPathType(properties.path_type) });
+        break;
+      case 'GeometryCollection':
+        if (Array.isArray(geometry.geometries)) geometry.geometries.forEach((g: unknown) => collect(g, properties));
+        break;
+    }
+  };
+  for (const feature of features) {
+    if (isObject(feature)) collect(feature.geometry, isObject(feature.properties) ? feature.properties : {});
+  }
+
+  const legPathTypes = lines.every(line => line.pathType) ? lines.map(line => line.pathType!) : null;
+  if (points.length > 0) {
+    return { waypoints: points, legPathTypes };
+  }
+  if (lines.length > 0) {
+    return { waypoints: lines[0].coordinates.map(c => toWaypoint(c)), legPathTypes: null };
+  }
+  throw new Error('The GeoJSON has no points or lines.');
+}
+
+function toWaypoint(position: unknown, name?: unknown): RawWaypoint {
+  if (!Array.isArray(position) || position.length < 2) {
+    throw new Error('A GeoJSON position is not a [longitude, latitude] pair.');
+  }
+  return { lon: Number(position[0]), lat: Number(position[1]), name: typeof name === 'string' ? name : undefined };
+}
+
+// --- GPX and KML -----------------------------------------------------------
+
+function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not well-formed XML.');
+  }
+  return doc;
+}
+
+/** Elements by local name, whatever namespace prefix the file uses. */
+const elements = (parent: Document | Element, name: string) => Array.from(parent.getElementsByTagNameNS('*', name));
+
+const childText = (parent: Element, name: string): string | undefined =>
+  Array.from(parent.children).find(child => child.localName === name)?.textContent ?? undefined;
+
+function parseGpx(doc: Document): RawWaypoint[] {
+  const fromAttributes = (el: Element): RawWaypoint => ({
+    lat: parseFloat(el.getAttribute('lat') ?? ''),
+    lon: parseFloat(el.getAttribute('lon') ?? ''),
+    name: childText(el, 'name'),
+  });
+
+  const route = elements(doc, 'rte')[0];
+  if (route) {
+    const routePoints = elements(route, 'rtept').map(fromAttributes);
+    // Densified routes name only their turning points; keep those and the two ends.
+    const named = routePoints.filter((point, i) => point.name || i === 0 || i === routePoints.length - 1);
+    return routePoints.some(point => point.name) ? named : routePoints;
+  }
+
+  const waypoints = elements(doc, 'wpt').map(fromAttributes);
+  if (waypoints.length > 0) return waypoints;
+
+  // A recorded track is far too dense to edit point by point; use where it starts and ends.
+  const track = elements(doc, 'trk')[0];
+  const trackPoints = track ? elements(track, 'trkpt').map(fromAttributes) : [];
+  if (trackPoints.length > 0) {
+    const trackName = childText(track, 'name');
+    return [
+      { ...trackPoints[0], name: trackPoints[0].name ?? (trackName ? `${trackName} start` : undefined) },
+      { ...trackPoints[trackPoints.length - 1], name: trackPoints[trackPoints.length - 1].name ?? (trackName ? `${trackName} end` : undefined) },
+    ];
+  }
+  throw new Error('The GPX has no route, waypoints or track.');
+}
+
+function parseKmlCoordinates(text: string | null): RawWaypoint[] {
+  return (text ?? '').trim().split(/\s+/).filter(Boolean).map(tuple => {
+    const [lon, lat] = tuple.split(',').map(Number);
+    return { lon, lat };
+  });
+}
+
+function parseKml(doc: Document): { waypoints: RawWaypoint[]; legPathTypes: PathType[] | null } {
+  const points: RawWaypoint[] = [];
+  const lines: { waypoints: RawWaypoint[]; pathType: PathType | null }[] = [];
+
+  for (const placemark of elements(doc, 'Placemark')) {
+    const name = childText(placemark, 'name');
+    const pathType = toPathType(elements(placemark, 'Data')
+      .find(data => data.getAttribute('name') === 'path_type')
+      ?.textContent?.trim());
+    for (const point of elements(placemark, 'Point')) {
+      const [coords] = parseKmlCoordinates(elements(point, 'coordinates')[0]?.textContent ?? null);
+      if (coords) points.push({ ...coords, name });
+    }
+    for (const line of elements(placemark, 'LineString')) {
+      lines.push({ waypoints: parseKmlCoordinates(elements(line, 'coordinates')[0]?.textContent ?? null), pathType });
+    }
+  }
+
+  const legPathTypes = lines.every(line => line.pathType) ? lines.map(line => line.pathType!) : null;
+  if (points.length > 0) return { waypoints: points, legPathTypes };
+  if (lines.length > 0) return { waypoints: lines[0].waypoints, legPathTypes: null };
+  throw new Error('The KML has no Point or LineString placemarks.');
+}
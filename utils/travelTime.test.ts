@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { calculateRouteLegs } from './geo';
+import { dateToZonedTime, estimateTravel, speedToKmh, timeZoneAt, zonedTimeToDate } from './travelTime';
+
+const london = { name: 'London', coords: { lat: 51.47, lon: -0.45 } };
+const newYork = { name: 'New York', coords: { lat: 40.64, lon: -73.78 } };
+const tokyo = { name: 'Tokyo', coords: { lat: 35.55, lon: 139.78 } };
+
+describe('speedToKmh', () => {
+  it('converts knots and Mach number', () => {
+    expect(speedToKmh(10, 'kn')).toBeCloseTo(18.52, 9);
+    expect(speedToKmh(120, 'kmh')).toBe(120);
+    expect(speedToKmh(0.85, 'mach')).toBeCloseTo(902.9, 1);
+  });
+});
+
+describe('timeZoneAt', () => {
+  it('finds the time zone of a place from its coordinates', () => {
+    expect(timeZoneAt(london.coords)).toBe('Europe/London');
+    expect(timeZoneAt(newYork.coords)).toBe('America/New_York');
+    expect(timeZoneAt(tokyo.coords)).toBe('Asia/Tokyo');
+  });
+
+  it('falls back to the nautical zone at sea', () => {
+    // Mid-Atlantic, 30°W: 2 hours behind UTC.
+    expect(timeZoneAt({ lat: 35, lon: -30 })).toBe('Etc/GMT+2');
+  });
+});
+
+describe('zonedTimeToDate', () => {
+  it('reads a wall-clock time in the given zone', () => {
+    expect(zonedTimeToDate('2026-01-15T09:30', 'Asia/Tokyo')!.toISOString()).toBe('2026-01-15T00:30:00.000Z');
+    expect(zonedTimeToDate('2026-01-15T09:30', 'America/New_York')!.toISOString()).toBe('2026-01-15T14:30:00.000Z');
+  });
+
+  it('follows daylight saving time', () => {
+    expect(zonedTimeToDate('2026-07-15T09:30', 'Europe/London')!.toISOString()).toBe('2026-07-15T08:30:00.000Z');
+    // The evening before the clocks go back is still on summer time.
+    expect(zonedTimeToDate('2026-10-24T23:00', 'Europe/London')!.toISOString()).toBe('2026-10-24T22:00:00.000Z');
+  });
+
+  it('round-trips with dateToZonedTime', () => {
+    const instant = new Date('2026-05-04T03:21:00Z');
+    for (const zone of ['Asia/Kolkata', 'America/St_Johns', 'Pacific/Chatham', 'Etc/GMT+5']) {
+      expect(zonedTimeToDate(dateToZonedTime(instant, zone), zone)!.getTime()).toBe(instant.getTime());
+    }
+    expect(dateToZonedTime(instant, 'Asia/Kolkata')).toBe('2026-05-04T08:51');
+  });
+
+  it('rejects text that is not a date and time', () => {
+    expect(zonedTimeToDate('tomorrow', 'UTC')).toBeNull();
+  });
+});
+
+describe('estimateTravel', () => {
+  it('times the route and both path types at the cruise speed', () => {
+    const legs = calculateRouteLegs([london, newYork], ['loxodromic']);
+    const departure = new Date('2026-03-01T12:00:00Z');
+    const estimate = estimateTravel(legs, 800, departure)!;
+    expect(estimate.hours).toBeCloseTo(legs[0].distance / 800, 12);
+    expect(estimate.rhumbLineHours).toBeCloseTo(estimate.hours, 12);
+    expect(estimate.greatCircleHours).toBeLessThan(estimate.rhumbLineHours);
+    // Dates hold whole milliseconds.
+    expect(Math.abs(estimate.arrival.getTime() - departure.getTime() - estimate.hours * 3600 * 1000)).toBeLessThan(1);
+    expect(estimate.arrivalTimeZone).toBe('America/New_York');
+  });
+
+  it('gives no estimate without a speed', () => {
+    expect(estimateTravel(calculateRouteLegs([london, tokyo], ['orthodromic']), 0, new Date())).toBeNull();
+  });
+});
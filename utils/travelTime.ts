@@ -0,0 +1,101 @@
+import tzlookup from 'tz-lookup';
+import type { Coordinates, RouteLeg, SpeedUnit } from '../types';
+
+/** Kilometers per hour in one unit of each speed. */
+const KMH_PER_UNIT: Record<SpeedUnit, number> = {
+  kn: 1.852,
+  kmh: 1,
+  // The speed of sound in the ISA stratosphere (-56.5 °C), where jets cruise: 295.07 m/s.
+  mach: 1062.25,
+};
+
+/** Estimated times for a route at a given cruise speed. */
+export interface TravelEstimate {
+  /** Time en route along the route as planned, in hours. */
+  hours: number;
+  arrival: Date;
+  /** IANA time zone at the destination, e.g. "Asia/Tokyo". */
+  arrivalTimeZone: string;
+  /** Time en route if every leg were flown as a great circle, or as a rhumb line, in hours. */
+  greatCircleHours: number;
+  rhumbLineHours: number;
+}
+
+/**
+ * Converts a speed to kilometers per hour.
+ * @param value - The speed in the given unit.
+ * @param unit - Knots, kilometers per hour, or Mach number (taken at cruise altitude).
+ * @returns The speed in km/h.
+ */
+export function speedToKmh(value: number, unit: SpeedUnit): number {
+  return value * KMH_PER_UNIT[unit];
+}
+
+/**
+ * Looks up the time zone at a position from the bundled boundary data, without going online.
+ * @param coords - The position.
+ * @returns The IANA time zone; over open sea, the nautical zone such as "Etc/GMT+5".
+ */
+export function timeZoneAt(coords: Coordinates): string {
+  return tzlookup(coords.lat, coords.lon);
+}
+
+/** How far ahead of UTC a time zone is at an instant, in milliseconds. */
+function timeZoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: 'numeric', day: 'numeric',
+    hour: 'numeric', minute: 'numeric', second: 'numeric',
+  }).formatToParts(new Date(instant));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)!.value);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Shows the time on the clocks in a time zone at an instant.
+ * @param date - The instant.
+ * @param timeZone - The IANA time zone.
+ * @returns The wall-clock time as "YYYY-MM-DDTHH:mm", the format of a datetime-local input.
+ */
+export function dateToZonedTime(date: Date, timeZone: string): string {
+  return new Date(date.getTime() + timeZoneOffset(date.getTime(), timeZone)).toISOString().slice(0, 16);
+}
+
+/**
+ * Finds the instant at which the clocks in a time zone show a given date and time.
+ * @param localTime - The wall-clock time as "YYYY-MM-DDTHH:mm", as from a datetime-local input.
+ * @param timeZone - The IANA time zone.
+ * @returns The instant, or null if the time cannot be read. A time skipped by a daylight-saving change
+ *   is taken as the same time on the old offset, i.e. an hour later on the clock.
+ */
+export function zonedTimeToDate(localTime: string, timeZone: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/.exec(localTime);
+  if (!match) return null;
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  // The offset at the wall-clock time read as UTC is right unless a change falls in between; a second pass settles it.
+  const guess = wallClock - timeZoneOffset(wallClock, timeZone);
+  return new Date(wallClock - timeZoneOffset(guess, timeZone));
+}
+
+/**
+ * Estimates how long a route takes and when it arrives.
+ * @param legs - The legs from calculateRouteLegs.
+ * @param speedKmh - Cruise speed in km/h, held for the whole route.
+ * @param departure - When the route starts.
+ * @returns The estimate, or null if the speed is not positive.
+ */
+export function estimateTravel(legs: RouteLeg[], speedKmh: number, departure: Date): TravelEstimate | null {
+  if (!(speedKmh > 0) || legs.length === 0) return null;
+  const total = legs[legs.length - 1].cumulativeDistance;
+  const hours = total / speedKmh;
+  return {
+    hours,
+    arrival: new Date(departure.getTime() + hours * 3600 * 1000),
+    arrivalTimeZone: timeZoneAt(legs[legs.length - 1].to.coords),
+    greatCircleHours: legs.reduce((sum, leg) => sum + leg.course.orthodromicDistance, 0) / speedKmh,
+    rhumbLineHours: legs.reduce((sum, leg) => sum + leg.course.loxodromicDistance, 0) / speedKmh,
+  };
+}